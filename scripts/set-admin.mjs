@@ -24,10 +24,22 @@ async function setUserAsAdmin() {
 
     // 将第一个用户设置为管理员
     if (users[0].role !== 'ADMIN') {
-      await prisma.user.update({
-        where: { id: users[0].id },
-        data: { role: 'ADMIN' },
-      });
+      // 与管理员修改角色一样写入角色变更记录，操作人为空表示由脚本修改
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: users[0].id },
+          data: { role: 'ADMIN' },
+        }),
+        prisma.roleChangeLog.create({
+          data: {
+            userId: users[0].id,
+            operatorId: null,
+            fromRole: users[0].role,
+            toRole: 'ADMIN',
+            reason: '命令行脚本设置管理员',
+          },
+        }),
+      ]);
       console.log(`\n✅ 已将用户 ${users[0].username} 设置为管理员`);
     } else {
       console.log(`\n✅ 用户 ${users[0].username} 已经是管理员`);
@@ -41,9 +53,17 @@ async function setUserAsAdmin() {
     console.log(`   用户名: ${updatedUser.username}`);
     console.log(`   邮箱: ${updatedUser.email}`);
     console.log(`   角色: ${updatedUser.role}`);
+    console.log(
+      `   两步验证: ${updatedUser.twoFactorEnabledAt ? '已启用' : '未启用'}`
+    );
     console.log(
       `\n🔐 请使用此账号登录管理分类: http://localhost:3001/admin/categories`
     );
+    if (!updatedUser.twoFactorEnabledAt) {
+      console.log(
+        `\n⚠️  建议在个人资料页启用两步验证: http://localhost:3001/profile`
+      );
+    }
   } catch (error) {
     console.error('❌ 设置管理员失败:', error);
   } finally {
@@ -0,0 +1,284 @@
+/**
+ * 登录审计页面 - 管理员查看登录成功、失败、限流和锁定记录
+ *
+ * 主要功能：
+ * 1. 按事件类型、邮箱和 IP 筛选登录事件
+ * 2. 显示失败原因、来源 IP 和客户端信息
+ * 3. 标记当前仍处于锁定状态的账号
+ * 4. 分页浏览
+ *
+ * 权限要求：
+ * - 需要 audit.view 权限（默认仅管理员）
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { can } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+type AuthEventType =
+  | 'LOGIN_SUCCESS'
+  | 'LOGIN_FAILED'
+  | 'LOGIN_BLOCKED'
+  | 'ACCOUNT_LOCKED'
+  | 'RATE_LIMITED';
+
+interface AuthEventItem {
+  id: string;
+  type: AuthEventType;
+  email: string;
+  reason?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: string;
+  user: { id: string; username: string; lockedUntil?: string | null } | null;
+}
+
+const typeOptions: Array<{ value: '' | AuthEventType; label: string }> = [
+  { value: '', label: '全部事件' },
+  { value: 'LOGIN_FAILED', label: '登录失败' },
+  { value: 'ACCOUNT_LOCKED', label: '账号锁定' },
+  { value: 'RATE_LIMITED', label: 'IP 限流' },
+  { value: 'LOGIN_BLOCKED', label: '封禁拦截' },
+  { value: 'LOGIN_SUCCESS', label: '登录成功' },
+];
+
+const typeStyles: Record<AuthEventType, string> = {
+  LOGIN_SUCCESS: 'bg-green-100 text-green-700',
+  LOGIN_FAILED: 'bg-yellow-100 text-yellow-700',
+  LOGIN_BLOCKED: 'bg-gray-100 text-gray-700',
+  ACCOUNT_LOCKED: 'bg-red-100 text-red-700',
+  RATE_LIMITED: 'bg-orange-100 text-orange-700',
+};
+
+const reasonLabels: Record<string, string> = {
+  UNKNOWN_EMAIL: '邮箱未注册',
+  INVALID_PASSWORD: '密码错误',
+  LOCKED: '锁定期间尝试登录',
+  ACCOUNT_BANNED: '账号已封禁',
+  ACCOUNT_SUSPENDED: '账号暂停使用',
+  ACCOUNT_INACTIVE: '账号已停用',
+  INVALID_TWO_FACTOR_CODE: '两步验证码错误',
+  TOTP: '两步验证',
+  RECOVERY_CODE: '使用恢复码登录',
+  ACCOUNT_LOCKED: '锁定期间尝试第三方登录',
+  OAUTH_TWO_FACTOR_ENABLED: '已启用两步验证，拒绝第三方登录',
+  OAUTH_GITHUB: 'GitHub 登录',
+  OAUTH_OIDC: 'OIDC 登录',
+};
+
+const typeLabel = (type: AuthEventType) =>
+  typeOptions.find((option) => option.value === type)?.label || type;
+
+export default function AuthEventsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [type, setType] = useState<'' | AuthEventType>('LOGIN_FAILED');
+  const [email, setEmail] = useState('');
+  const [ip, setIp] = useState('');
+  const [filters, setFilters] = useState({ email: '', ip: '' });
+  const [events, setEvents] = useState<AuthEventItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const hasPermission = can(session?.user, 'audit.view');
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && !hasPermission) {
+      router.push('/');
+    }
+  }, [status, hasPermission, router]);
+
+  const loadEvents = useCallback(async () => {
+    if (!hasPermission) return;
+
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+      if (type) params.append('type', type);
+      if (filters.email) params.append('email', filters.email);
+      if (filters.ip) params.append('ip', filters.ip);
+
+      const response = await fetch(`/api/auth-events?${params}`);
+      const result = await response.json();
+      if (result.success) {
+        setEvents(result.data.events);
+        setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+      }
+    } catch (error) {
+      console.error('加载登录审计失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hasPermission, type, filters, page]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ email: email.trim(), ip: ip.trim() });
+    setPage(1);
+  };
+
+  if (status === 'loading' || !hasPermission) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-5xl px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">登录审计</h1>
+          <p className="mt-2 text-gray-600">
+            查看登录失败、账号锁定和 IP 限流记录，排查暴力破解行为
+          </p>
+        </div>
+
+        {/* 筛选 */}
+        <form
+          onSubmit={handleSearch}
+          className="mb-4 flex flex-wrap items-center gap-2"
+        >
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as '' | AuthEventType);
+              setPage(1);
+            }}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {typeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="邮箱"
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={ip}
+            onChange={(e) => setIp(e.target.value)}
+            placeholder="IP 地址"
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button type="submit" size="sm">
+            筛选
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : events.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-gray-500">暂无记录</p>
+          </Card>
+        ) : (
+          <Card className="divide-y divide-gray-100">
+            {events.map((event) => {
+              const lockedUntil = event.user?.lockedUntil
+                ? new Date(event.user.lockedUntil)
+                : null;
+              const isLocked = lockedUntil !== null && lockedUntil > new Date();
+
+              return (
+                <div key={event.id} className="p-4 text-sm">
+                  <div className="flex flex-wrap items-center gap-x-2">
+                    <span
+                      className={cn(
+                        'rounded px-2 py-0.5 text-xs',
+                        typeStyles[event.type]
+                      )}
+                    >
+                      {typeLabel(event.type)}
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {event.email}
+                    </span>
+                    {event.user && (
+                      <Link
+                        href={`/users/${encodeURIComponent(event.user.username)}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        @{event.user.username}
+                      </Link>
+                    )}
+                    {event.reason && (
+                      <span className="text-gray-500">
+                        {reasonLabels[event.reason] || event.reason}
+                      </span>
+                    )}
+                    {isLocked && (
+                      <span className="text-xs text-red-600">
+                        锁定至 {lockedUntil.toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-500">
+                    <span>{new Date(event.createdAt).toLocaleString()}</span>
+                    {event.ipAddress && <span>IP：{event.ipAddress}</span>}
+                    {event.userAgent && (
+                      <span className="max-w-md truncate">
+                        {event.userAgent}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </Card>
+        )}
+
+        {/* 分页 */}
+        {totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              上一页
+            </Button>
+            <span className="text-sm text-gray-600">
+              {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              下一页
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
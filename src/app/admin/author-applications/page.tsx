@@ -0,0 +1,354 @@
+/**
+ * 作者申请审核页面 - 管理员审核普通用户成为作者的申请
+ *
+ * 主要功能：
+ * 1. 按状态查看申请（待审核、已通过、已拒绝）
+ * 2. 显示申请人信息和申请理由
+ * 3. 通过或拒绝申请（可填写审核意见，拒绝时告知申请人）
+ * 4. 查看角色变更记录（谁在什么时候修改了谁的角色，需要 user.role.manage 权限）
+ * 5. 分页浏览
+ *
+ * 权限要求：
+ * - 需要 author.review 权限（默认仅管理员）
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { roleLabels } from '@/lib/user-roles';
+import { can } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+type ApplicationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+type Tab = ApplicationStatus | 'LOGS';
+type RoleName = keyof typeof roleLabels;
+
+interface ApplicationItem {
+  id: string;
+  motivation: string;
+  status: ApplicationStatus;
+  reviewNote?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    username: string;
+    email: string;
+    role: RoleName;
+    createdAt: string;
+    commentsCount: number;
+  };
+  reviewer: { id: string; username: string } | null;
+}
+
+interface RoleChangeItem {
+  id: string;
+  fromRole: RoleName;
+  toRole: RoleName;
+  reason?: string | null;
+  applicationId?: string | null;
+  createdAt: string;
+  user: { id: string; username: string };
+  operator: { id: string; username: string } | null;
+}
+
+const tabs: Array<{ value: Tab; label: string }> = [
+  { value: 'PENDING', label: '待审核' },
+  { value: 'APPROVED', label: '已通过' },
+  { value: 'REJECTED', label: '已拒绝' },
+  { value: 'LOGS', label: '角色变更记录' },
+];
+
+export default function AuthorApplicationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('PENDING');
+  const [applications, setApplications] = useState<ApplicationItem[]>([]);
+  const [logs, setLogs] = useState<RoleChangeItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const hasPermission = can(session?.user, 'author.review');
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && !hasPermission) {
+      router.push('/');
+    }
+  }, [status, hasPermission, router]);
+
+  const loadData = useCallback(async () => {
+    if (!hasPermission) return;
+
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+
+      if (tab === 'LOGS') {
+        const response = await fetch(`/api/role-changes?${params}`);
+        const result = await response.json();
+        if (result.success) {
+          setLogs(result.data.logs);
+          setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+        }
+        return;
+      }
+
+      params.append('status', tab);
+      const response = await fetch(`/api/author-applications?${params}`);
+      const result = await response.json();
+      if (result.success) {
+        setApplications(result.data.applications);
+        setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+      }
+    } catch (error) {
+      console.error('加载作者申请失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hasPermission, tab, page]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const changeTab = (value: Tab) => {
+    setTab(value);
+    setPage(1);
+  };
+
+  const handleReview = async (
+    application: ApplicationItem,
+    decision: 'APPROVE' | 'REJECT'
+  ) => {
+    const note = prompt(
+      decision === 'APPROVE'
+        ? `确定通过 ${application.user.username} 的申请吗？通过后角色将改为作者。\n可填写审核意见（可选）：`
+        : `确定拒绝 ${application.user.username} 的申请吗？\n拒绝原因会通知申请人（可选）：`
+    );
+    if (note === null) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(
+        `/api/author-applications/${application.id}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ decision, note: note.trim() || undefined }),
+        }
+      );
+      const result = await response.json();
+      if (result.success) {
+        await loadData();
+      } else {
+        alert(result.error?.message || '操作失败');
+      }
+    } catch (error) {
+      console.error('审核作者申请失败:', error);
+      alert('操作失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (status === 'loading' || !hasPermission) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-5xl px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">作者申请</h1>
+          <p className="mt-2 text-gray-600">
+            审核普通用户成为作者的申请，审核结果会通知申请人
+          </p>
+        </div>
+
+        {/* 状态切换 */}
+        <div className="mb-4 flex space-x-2 border-b border-gray-200">
+          {tabs
+            .filter(
+              (item) =>
+                item.value !== 'LOGS' || can(session?.user, 'user.role.manage')
+            )
+            .map((item) => (
+              <button
+                key={item.value}
+                type="button"
+                onClick={() => changeTab(item.value)}
+                className={cn(
+                  '-mb-px border-b-2 px-4 py-2 text-sm font-medium',
+                  tab === item.value
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : tab === 'LOGS' ? (
+          logs.length === 0 ? (
+            <Card className="p-12 text-center">
+              <p className="text-gray-500">暂无角色变更记录</p>
+            </Card>
+          ) : (
+            <Card className="divide-y divide-gray-100">
+              {logs.map((log) => (
+                <div key={log.id} className="p-4 text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-medium">
+                      {log.operator?.username || '系统'}
+                    </span>{' '}
+                    将{' '}
+                    <Link
+                      href={`/users/${log.user.id}`}
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {log.user.username}
+                    </Link>{' '}
+                    的角色从{roleLabels[log.fromRole]}改为
+                    <span className="font-medium">
+                      {roleLabels[log.toRole]}
+                    </span>
+                    {log.applicationId && '（作者申请通过）'}
+                  </p>
+                  {log.reason && (
+                    <p className="mt-1 text-gray-600">原因：{log.reason}</p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    {new Date(log.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </Card>
+          )
+        ) : applications.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-gray-500">暂无申请</p>
+          </Card>
+        ) : (
+          <Card className="divide-y divide-gray-100">
+            {applications.map((application) => (
+              <div
+                key={application.id}
+                className="flex items-start space-x-4 p-4"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-x-2 text-sm text-gray-500">
+                    <Link
+                      href={`/users/${application.user.id}`}
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {application.user.username}
+                    </Link>
+                    <span>{application.user.email}</span>
+                    <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                      {roleLabels[application.user.role]}
+                    </span>
+                    <span>
+                      注册于
+                      {formatDistanceToNow(
+                        new Date(application.user.createdAt),
+                        { addSuffix: true, locale: zhCN }
+                      )}
+                      ，发表 {application.user.commentsCount} 条评论
+                    </span>
+                  </div>
+                  <p className="mt-2 whitespace-pre-wrap text-sm text-gray-800">
+                    {application.motivation}
+                  </p>
+                  <p className="mt-2 text-xs text-gray-500">
+                    提交于
+                    {formatDistanceToNow(new Date(application.createdAt), {
+                      addSuffix: true,
+                      locale: zhCN,
+                    })}
+                    {application.reviewedAt &&
+                      ` · ${application.reviewer?.username || '已注销管理员'} 审核于${formatDistanceToNow(
+                        new Date(application.reviewedAt),
+                        { addSuffix: true, locale: zhCN }
+                      )}`}
+                  </p>
+                  {application.reviewNote && (
+                    <p className="mt-1 text-sm text-gray-600">
+                      审核意见：{application.reviewNote}
+                    </p>
+                  )}
+                </div>
+                {application.status === 'PENDING' && (
+                  <div className="flex flex-shrink-0 space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isSubmitting}
+                      onClick={() => handleReview(application, 'REJECT')}
+                    >
+                      拒绝
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() => handleReview(application, 'APPROVE')}
+                    >
+                      通过
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {/* 分页 */}
+        {totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              上一页
+            </Button>
+            <span className="text-sm text-gray-600">
+              {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              下一页
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
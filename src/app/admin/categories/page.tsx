@@ -9,7 +9,7 @@
  * 5. 分类排序
  *
  * 权限要求：
- * - 仅管理员可访问
+ * - 需要 category.manage 权限（默认仅管理员）
  */
 
 'use client';
@@ -20,6 +20,7 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { can } from '@/lib/permissions';
 
 interface Category {
   id: number;
@@ -61,7 +62,10 @@ export default function CategoriesManagePage() {
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/login');
-    } else if (status === 'authenticated' && session?.user?.role !== 'ADMIN') {
+    } else if (
+      status === 'authenticated' &&
+      !can(session?.user, 'category.manage')
+    ) {
       router.push('/');
     }
   }, [status, session, router]);
@@ -84,7 +88,7 @@ export default function CategoriesManagePage() {
   };
 
   useEffect(() => {
-    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+    if (status === 'authenticated' && can(session?.user, 'category.manage')) {
       loadCategories();
     }
   }, [status, session]);
@@ -234,7 +238,7 @@ export default function CategoriesManagePage() {
 
   if (
     status === 'loading' ||
-    (status === 'authenticated' && session?.user?.role !== 'ADMIN')
+    (status === 'authenticated' && !can(session?.user, 'category.manage'))
   ) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -360,7 +364,7 @@ export default function CategoriesManagePage() {
                         })
                       }
                       placeholder="输入分类描述"
-                      className="border-input placeholder:text-muted-foreground focus-visible:ring-ring w-full rounded-md border bg-transparent px-3 py-2 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+                      className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-base shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
                       rows={3}
                     />
                     <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
@@ -379,7 +383,7 @@ export default function CategoriesManagePage() {
                         onChange={(e) =>
                           setFormData({ ...formData, color: e.target.value })
                         }
-                        className="border-input h-9 w-20 rounded border bg-transparent"
+                        className="h-9 w-20 rounded border border-input bg-transparent"
                       />
                       <Input
                         type="text"
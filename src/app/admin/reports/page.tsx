@@ -0,0 +1,391 @@
+/**
+ * 举报处理页面 - 管理员处理用户提交的举报
+ *
+ * 主要功能：
+ * 1. 按状态查看举报（待处理、已处理、已驳回）和按对象类型筛选
+ * 2. 显示被举报对象摘要和同一对象的待处理举报数
+ * 3. 驳回举报、隐藏内容或封禁作者（可填写处理备注）
+ * 4. 查看管理操作日志
+ * 5. 分页浏览
+ *
+ * 权限要求：
+ * - 需要 report.handle 权限（默认仅管理员）
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { REPORT_REASONS } from '@/components/ui/ReportButton';
+import { can } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+type ReportStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+type ReportAction = 'DISMISS' | 'HIDE' | 'BAN_USER' | 'UNBAN_USER';
+type Tab = ReportStatus | 'LOGS';
+
+interface ReportItem {
+  id: string;
+  targetType: 'POST' | 'COMMENT' | 'USER';
+  targetId: string;
+  reason: string;
+  details?: string | null;
+  status: ReportStatus;
+  createdAt: string;
+  resolvedAt?: string | null;
+  openReports: number;
+  target: { label: string; link: string | null; hidden: boolean } | null;
+  reporter: { id: string; username: string } | null;
+}
+
+interface LogItem {
+  id: string;
+  action: ReportAction;
+  targetType: ReportItem['targetType'];
+  targetId: string;
+  reportIds: string[];
+  note?: string | null;
+  createdAt: string;
+  moderator: { id: string; username: string } | null;
+}
+
+const tabs: Array<{ value: Tab; label: string }> = [
+  { value: 'OPEN', label: '待处理' },
+  { value: 'RESOLVED', label: '已处理' },
+  { value: 'DISMISSED', label: '已驳回' },
+  { value: 'LOGS', label: '操作日志' },
+];
+
+const targetTypeOptions = [
+  { value: '', label: '全部类型' },
+  { value: 'POST', label: '文章' },
+  { value: 'COMMENT', label: '评论' },
+  { value: 'USER', label: '用户' },
+];
+
+const targetTypeLabels: Record<string, string> = {
+  POST: '文章',
+  COMMENT: '评论',
+  USER: '用户',
+};
+
+const actionLabels: Record<ReportAction, string> = {
+  DISMISS: '驳回举报',
+  HIDE: '隐藏内容',
+  BAN_USER: '封禁作者',
+  UNBAN_USER: '解除封禁',
+};
+
+const reasonLabel = (reason: string) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label || reason;
+
+export default function ReportsManagePage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('OPEN');
+  const [targetType, setTargetType] = useState('');
+  const [reports, setReports] = useState<ReportItem[]>([]);
+  const [logs, setLogs] = useState<LogItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const hasPermission = can(session?.user, 'report.handle');
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && !hasPermission) {
+      router.push('/');
+    }
+  }, [status, hasPermission, router]);
+
+  const loadData = useCallback(async () => {
+    if (!hasPermission) return;
+
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+
+      if (tab === 'LOGS') {
+        const response = await fetch(`/api/reports/logs?${params}`);
+        const result = await response.json();
+        if (result.success) {
+          setLogs(result.data.logs);
+          setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+        }
+        return;
+      }
+
+      params.append('status', tab);
+      if (targetType) params.append('targetType', targetType);
+      const response = await fetch(`/api/reports?${params}`);
+      const result = await response.json();
+      if (result.success) {
+        setReports(result.data.reports);
+        setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+      }
+    } catch (error) {
+      console.error('加载举报失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hasPermission, tab, targetType, page]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const changeTab = (value: Tab) => {
+    setTab(value);
+    setPage(1);
+  };
+
+  const handleResolve = async (report: ReportItem, action: ReportAction) => {
+    const confirmText =
+      action === 'BAN_USER'
+        ? '确定要封禁该作者吗？被举报的内容也会被隐藏。'
+        : `确定要${actionLabels[action]}吗？`;
+    const note = prompt(`${confirmText}\n可填写处理备注（可选）：`);
+    if (note === null) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/reports/${report.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: note.trim() || undefined }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        await loadData();
+      } else {
+        alert(result.error?.message || '操作失败');
+      }
+    } catch (error) {
+      console.error('处理举报失败:', error);
+      alert('操作失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (status === 'loading' || !hasPermission) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-5xl px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">举报处理</h1>
+          <p className="mt-2 text-gray-600">
+            处理用户举报的文章、评论和用户，同一对象的举报会一并处理
+          </p>
+        </div>
+
+        {/* 状态切换 */}
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-4 border-b border-gray-200">
+          <div className="flex space-x-2">
+            {tabs.map((item) => (
+              <button
+                key={item.value}
+                type="button"
+                onClick={() => changeTab(item.value)}
+                className={cn(
+                  '-mb-px border-b-2 px-4 py-2 text-sm font-medium',
+                  tab === item.value
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          {tab !== 'LOGS' && (
+            <select
+              value={targetType}
+              onChange={(e) => {
+                setTargetType(e.target.value);
+                setPage(1);
+              }}
+              className="mb-2 rounded-md border border-gray-300 px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {targetTypeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : tab === 'LOGS' ? (
+          logs.length === 0 ? (
+            <Card className="p-12 text-center">
+              <p className="text-gray-500">暂无操作日志</p>
+            </Card>
+          ) : (
+            <Card className="divide-y divide-gray-100">
+              {logs.map((log) => (
+                <div key={log.id} className="p-4 text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-medium">
+                      {log.moderator?.username || '已注销管理员'}
+                    </span>{' '}
+                    对{targetTypeLabels[log.targetType]} #{log.targetId} 执行了
+                    <span className="font-medium">
+                      {actionLabels[log.action]}
+                    </span>
+                    ，关闭 {log.reportIds.length} 条举报
+                  </p>
+                  {log.note && (
+                    <p className="mt-1 text-gray-600">备注：{log.note}</p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    {new Date(log.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </Card>
+          )
+        ) : reports.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-gray-500">暂无举报</p>
+          </Card>
+        ) : (
+          <Card className="divide-y divide-gray-100">
+            {reports.map((report) => (
+              <div key={report.id} className="flex items-start space-x-4 p-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-x-2 text-sm text-gray-500">
+                    <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                      {targetTypeLabels[report.targetType]}
+                    </span>
+                    <span className="font-medium text-red-600">
+                      {reasonLabel(report.reason)}
+                    </span>
+                    <span>
+                      {report.reporter?.username || '已注销用户'} 举报于
+                      {formatDistanceToNow(new Date(report.createdAt), {
+                        addSuffix: true,
+                        locale: zhCN,
+                      })}
+                    </span>
+                    {report.openReports > 1 && (
+                      <span className="text-orange-600">
+                        共 {report.openReports} 条待处理举报
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-2 text-sm text-gray-800">
+                    {report.target ? (
+                      report.target.link ? (
+                        <Link
+                          href={report.target.link}
+                          className="line-clamp-2 text-blue-600 hover:underline"
+                        >
+                          {report.target.label || '无标题'}
+                        </Link>
+                      ) : (
+                        <span className="line-clamp-2">
+                          {report.target.label}
+                        </span>
+                      )
+                    ) : (
+                      <span className="text-gray-400">对象已删除</span>
+                    )}
+                    {report.target?.hidden && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        （已隐藏）
+                      </span>
+                    )}
+                  </div>
+                  {report.details && (
+                    <p className="mt-1 whitespace-pre-wrap text-sm text-gray-600">
+                      {report.details}
+                    </p>
+                  )}
+                </div>
+                {report.status === 'OPEN' && (
+                  <div className="flex flex-shrink-0 space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isSubmitting}
+                      onClick={() => handleResolve(report, 'DISMISS')}
+                    >
+                      驳回
+                    </Button>
+                    {report.targetType !== 'USER' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isSubmitting}
+                        onClick={() => handleResolve(report, 'HIDE')}
+                      >
+                        隐藏内容
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() => handleResolve(report, 'BAN_USER')}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      封禁作者
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {/* 分页 */}
+        {totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              上一页
+            </Button>
+            <span className="text-sm text-gray-600">
+              {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              下一页
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+/**
+ * 角色权限页面 - 查看内置角色权限，管理自定义角色并授予用户
+ *
+ * 主要功能：
+ * 1. 显示内置角色（普通用户、作者、管理员）拥有的权限
+ * 2. 创建、修改、删除自定义角色（名称、描述、权限）
+ * 3. 按用户名为用户授予或解除自定义角色
+ *
+ * 权限要求：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  PERMISSIONS,
+  Permission,
+  can,
+  permissionLabels,
+} from '@/lib/permissions';
+import { roleLabels } from '@/lib/user-roles';
+
+interface BuiltInRole {
+  role: keyof typeof roleLabels;
+  permissions: Permission[];
+}
+
+interface CustomRoleItem {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  usersCount: number;
+}
+
+interface RoleForm {
+  id: number | null;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const emptyForm: RoleForm = {
+  id: null,
+  name: '',
+  description: '',
+  permissions: [],
+};
+
+export default function RolesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [builtInRoles, setBuiltInRoles] = useState<BuiltInRole[]>([]);
+  const [roles, setRoles] = useState<CustomRoleItem[]>([]);
+  const [form, setForm] = useState<RoleForm>(emptyForm);
+  const [assignUsername, setAssignUsername] = useState('');
+  const [assignRoleId, setAssignRoleId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [assignMessage, setAssignMessage] = useState('');
+  const hasPermission = can(session?.user, 'user.role.manage');
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && !hasPermission) {
+      router.push('/');
+    }
+  }, [status, hasPermission, router]);
+
+  const loadRoles = useCallback(async () => {
+    if (!hasPermission) return;
+
+    try {
+      const response = await fetch('/api/custom-roles');
+      const result = await response.json();
+      if (result.success) {
+        setBuiltInRoles(result.data.builtInRoles);
+        setRoles(result.data.roles);
+      }
+    } catch (error) {
+      console.error('加载角色失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hasPermission]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter((item) => item !== permission),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch(
+        form.id ? `/api/custom-roles/${form.id}` : '/api/custom-roles',
+        {
+          method: form.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            description: form.description,
+            permissions: form.permissions,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        setForm(emptyForm);
+        setMessage(result.message);
+        await loadRoles();
+      } else {
+        setMessage(result.error?.message || '保存失败');
+      }
+    } catch (error) {
+      console.error('保存角色失败:', error);
+      setMessage('保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: CustomRoleItem) => {
+    if (
+      !confirm(
+        `确定删除角色"${role.name}"吗？已授予该角色的 ${role.usersCount} 个用户将失去对应权限。`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/custom-roles/${role.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.success) {
+        if (form.id === role.id) {
+          setForm(emptyForm);
+        }
+        await loadRoles();
+      } else {
+        alert(result.error?.message || '删除失败');
+      }
+    } catch (error) {
+      console.error('删除角色失败:', error);
+      alert('删除失败');
+    }
+  };
+
+  // 按用户名查找用户后授予或解除自定义角色
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAssignMessage('');
+
+    const username = assignUsername.trim();
+    try {
+      const searchResponse = await fetch(
+        `/api/users/search?${new URLSearchParams({ q: username, limit: '20' })}`
+      );
+      const searchResult = await searchResponse.json();
+      const user = searchResult.success
+        ? (searchResult.data.users as Array<{ id: string; username: string }>)
+            .filter(
+              (item) => item.username.toLowerCase() === username.toLowerCase()
+            )
+            .shift()
+        : undefined;
+
+      if (!user) {
+        setAssignMessage('用户不存在');
+        return;
+      }
+
+      const response = await fetch(`/api/users/${user.id}/custom-role`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customRoleId: assignRoleId ? Number(assignRoleId) : null,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setAssignUsername('');
+        setAssignMessage(`${user.username}：${result.message}`);
+        await loadRoles();
+      } else {
+        setAssignMessage(result.error?.message || '操作失败');
+      }
+    } catch (error) {
+      console.error('授予自定义角色失败:', error);
+      setAssignMessage('操作失败');
+    }
+  };
+
+  if (status === 'loading' || !hasPermission) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-5xl space-y-6 px-4 sm:px-6 lg:px-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">角色权限</h1>
+          <p className="mt-2 text-gray-600">
+            自定义角色授予用户后，与用户内置角色的权限合并生效
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <>
+            {/* 内置角色 */}
+            <Card className="overflow-x-auto p-6">
+              <h2 className="text-lg font-semibold text-gray-900">内置角色</h2>
+              <table className="mt-4 min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">权限</th>
+                    {builtInRoles.map((item) => (
+                      <th key={item.role} className="px-4 py-2 font-medium">
+                        {roleLabels[item.role]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {PERMISSIONS.map((permission) => (
+                    <tr key={permission}>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {permissionLabels[permission]}
+                        <span className="ml-2 text-xs text-gray-400">
+                          {permission}
+                        </span>
+                      </td>
+                      {builtInRoles.map((item) => (
+                        <td
+                          key={item.role}
+                          className="px-4 py-2 text-center text-gray-700"
+                        >
+                          {item.permissions.includes(permission) ? '✓' : ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+
+            {/* 自定义角色 */}
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900">
+                自定义角色
+              </h2>
+              {roles.length === 0 ? (
+                <p className="mt-4 text-sm text-gray-500">暂无自定义角色</p>
+              ) : (
+                <ul className="mt-4 divide-y divide-gray-100">
+                  {roles.map((role) => (
+                    <li
+                      key={role.id}
+                      className="flex items-start justify-between py-3"
+                    >
+                      <div className="min-w-0 flex-1 text-sm">
+                        <p className="font-medium text-gray-900">
+                          {role.name}
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {role.usersCount} 个用户
+                          </span>
+                        </p>
+                        {role.description && (
+                          <p className="mt-1 text-gray-600">
+                            {role.description}
+                          </p>
+                        )}
+                        <p className="mt-1 text-xs text-gray-500">
+                          {role.permissions
+                            .map((permission) => permissionLabels[permission])
+                            .join('、')}
+                        </p>
+                      </div>
+                      <div className="ml-4 flex flex-shrink-0 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setForm({
+                              id: role.id,
+                              name: role.name,
+                              description: role.description || '',
+                              permissions: role.permissions,
+                            })
+                          }
+                        >
+                          编辑
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(role)}
+                        >
+                          删除
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            {/* 创建或编辑角色 */}
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {form.id ? '编辑角色' : '创建角色'}
+              </h2>
+              <form onSubmit={handleSave} className="mt-4 space-y-4">
+                <Input
+                  value={form.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setForm({ ...form, name: e.target.value })
+                  }
+                  placeholder="角色名称，如：评论审核员"
+                  maxLength={50}
+                />
+                <Input
+                  value={form.description}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setForm({ ...form, description: e.target.value })
+                  }
+                  placeholder="角色描述（可选）"
+                  maxLength={255}
+                />
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  {PERMISSIONS.map((permission) => (
+                    <label
+                      key={permission}
+                      className="flex items-center gap-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={form.permissions.includes(permission)}
+                        onChange={(e) =>
+                          togglePermission(permission, e.target.checked)
+                        }
+                        disabled={!can(session?.user, permission)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      {permissionLabels[permission]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-4">
+                  <Button
+                    type="submit"
+                    loading={isSaving}
+                    disabled={
+                      !form.name.trim() || form.permissions.length === 0
+                    }
+                  >
+                    {form.id ? '保存修改' : '创建角色'}
+                  </Button>
+                  {form.id && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setForm(emptyForm)}
+                    >
+                      取消
+                    </Button>
+                  )}
+                  {message && (
+                    <span className="text-sm text-gray-600">{message}</span>
+                  )}
+                </div>
+              </form>
+            </Card>
+
+            {/* 授予用户 */}
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900">授予用户</h2>
+              <form
+                onSubmit={handleAssign}
+                className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center"
+              >
+                <Input
+                  value={assignUsername}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAssignUsername(e.target.value)
+                  }
+                  placeholder="用户名"
+                  maxLength={20}
+                />
+                <select
+                  value={assignRoleId}
+                  onChange={(e) => setAssignRoleId(e.target.value)}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                  <option value="">解除自定义角色</option>
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.id}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+                <Button type="submit" disabled={!assignUsername.trim()}>
+                  确定
+                </Button>
+              </form>
+              {assignMessage && (
+                <p className="mt-3 text-sm text-gray-600">{assignMessage}</p>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
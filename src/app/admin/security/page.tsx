@@ -0,0 +1,175 @@
+/**
+ * 安全设置页面 - 管理员配置两步验证策略
+ *
+ * 主要功能：
+ * 1. 设置必须启用两步验证的角色（管理员、作者）
+ * 2. 对应角色中未启用的用户会被引导到个人资料页完成绑定
+ *
+ * 权限要求：
+ * - 需要 security.manage 权限（默认仅管理员）
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { can } from '@/lib/permissions';
+
+type TwoFactorRole = 'ADMIN' | 'AUTHOR';
+
+const roleOptions: Array<{
+  value: TwoFactorRole;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'ADMIN',
+    label: '管理员',
+    description: '管理员账号可以封禁用户、处理举报，建议始终开启',
+  },
+  {
+    value: 'AUTHOR',
+    label: '作者',
+    description: '作者账号可以发布和修改文章',
+  },
+];
+
+export default function SecuritySettingsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [requiredRoles, setRequiredRoles] = useState<TwoFactorRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const hasPermission = can(session?.user, 'security.manage');
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && !hasPermission) {
+      router.push('/');
+    }
+  }, [status, hasPermission, router]);
+
+  useEffect(() => {
+    if (!hasPermission) return;
+
+    const loadPolicy = async () => {
+      try {
+        const response = await fetch('/api/two-factor/policy');
+        const result = await response.json();
+        if (result.success) {
+          setRequiredRoles(result.data.requiredRoles);
+        }
+      } catch (error) {
+        console.error('加载两步验证策略失败:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPolicy();
+  }, [hasPermission]);
+
+  const toggleRole = (role: TwoFactorRole, checked: boolean) => {
+    setMessage('');
+    setRequiredRoles((prev) =>
+      checked ? [...prev, role] : prev.filter((item) => item !== role)
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/two-factor/policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiredRoles }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setRequiredRoles(result.data.requiredRoles);
+        setMessage('安全设置已保存');
+      } else {
+        setMessage(result.error?.message || '保存失败');
+      }
+    } catch (error) {
+      console.error('保存两步验证策略失败:', error);
+      setMessage('保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (status === 'loading' || !hasPermission) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">安全设置</h1>
+          <p className="mt-2 text-gray-600">
+            要求指定角色启用两步验证，登录时除密码外还需要身份验证器中的验证码
+          </p>
+        </div>
+
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold text-gray-900">强制两步验证</h2>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+            </div>
+          ) : (
+            <div className="mt-4 space-y-4">
+              {roleOptions.map((option) => (
+                <label key={option.value} className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={requiredRoles.includes(option.value)}
+                    onChange={(e) => toggleRole(option.value, e.target.checked)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">
+                      {option.label}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+
+              <p className="text-xs text-gray-500">
+                开启后，对应角色中尚未启用两步验证的用户（包括你自己）需要先在个人资料页完成绑定才能继续使用，且不能关闭两步验证
+              </p>
+
+              <div className="flex items-center space-x-4">
+                <Button onClick={handleSave} loading={isSaving}>
+                  保存设置
+                </Button>
+                {message && (
+                  <span className="text-sm text-gray-600">{message}</span>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
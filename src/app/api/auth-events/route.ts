@@ -0,0 +1,146 @@
+/**
+ * 认证事件 API 路由 - 管理员查看登录审计记录
+ *
+ * 查询参数：
+ * - type：事件类型（LOGIN_SUCCESS、LOGIN_FAILED、LOGIN_BLOCKED、ACCOUNT_LOCKED、RATE_LIMITED）
+ * - email：按登录邮箱筛选（包含匹配）
+ * - ip：按 IP 地址筛选
+ * - page：页码，默认 1
+ * - limit：每页数量，默认 20，最大 50
+ *
+ * 权限控制：
+ * - 需要 audit.view 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthEventType, Prisma } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const querySchema = z.object({
+  type: z.nativeEnum(AuthEventType).optional(),
+  email: z.string().trim().max(100).optional(),
+  ip: z.string().trim().max(45).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'audit.view')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看登录审计',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { type, email, ip, page, limit } = querySchema.parse({
+      type: searchParams.get('type') || undefined,
+      email: searchParams.get('email') || undefined,
+      ip: searchParams.get('ip') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const where: Prisma.AuthEventWhereInput = {
+      ...(type ? { type } : {}),
+      ...(email ? { email: { contains: email } } : {}),
+      ...(ip ? { ipAddress: ip } : {}),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.authEvent.findMany({
+        where,
+        include: {
+          user: { select: { id: true, username: true, lockedUntil: true } },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.authEvent.count({ where }),
+    ]);
+
+    const serializedEvents = events.map((event) => ({
+      id: event.id.toString(),
+      type: event.type,
+      email: event.email,
+      reason: event.reason,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      createdAt: event.createdAt,
+      user: event.user ? { ...event.user, id: event.user.id.toString() } : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events: serializedEvents,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取登录审计失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取登录审计失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
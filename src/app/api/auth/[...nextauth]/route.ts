@@ -19,6 +19,10 @@
  * - 使用 @/lib/auth 中的 handlers 配置
  * - 包含认证提供者、数据库、回调等设置
  *
+ * 安全特性：
+ * - POST（登录提交等）使用 login 限流策略，每个 IP 每分钟最多10次
+ * - GET（会话、CSRF 等）使用 read 限流策略
+ *
  * 路由模式：
  * - [...nextauth] 动态路由捕获所有认证相关请求
  * - 支持 GET 和 POST 方法
@@ -29,5 +33,7 @@
  * - 动态路由参数
  */
 import { handlers } from '@/lib/auth';
+import { withRateLimit } from '@/lib/rate-limit';
 
-export const { GET, POST } = handlers;
+export const GET = withRateLimit('read', handlers.GET);
+export const POST = withRateLimit('login', handlers.POST);
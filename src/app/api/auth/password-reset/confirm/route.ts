@@ -0,0 +1,93 @@
+/**
+ * 确认密码重置 API 路由 - 使用重置令牌设置新密码
+ *
+ * 支持的HTTP方法：
+ * - POST: 校验重置令牌并设置新密码
+ *
+ * 验证规则：
+ * - token：重置邮件中的令牌
+ * - password：6-50字符，必须包含字母和数字
+ *
+ * 业务规则：
+ * - 令牌只能使用一次
+ * - 重置成功后之前登录的会话全部失效
+ *
+ * 错误处理：
+ * - 令牌无效或验证错误：400状态码
+ * - 令牌已过期：410状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resetPasswordWithToken } from '@/lib/password-reset';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const confirmSchema = z.object({
+  token: z.string().min(1, '重置链接无效'),
+  password: z
+    .string()
+    .min(6, '密码至少6个字符')
+    .max(50, '密码最多50个字符')
+    .regex(/^(?=.*[a-zA-Z])(?=.*\d)/, '密码必须包含字母和数字'),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { token, password } = confirmSchema.parse(await request.json());
+
+    const result = await resetPasswordWithToken(token, password);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            result.reason === 'EXPIRED'
+              ? {
+                  code: 'TOKEN_EXPIRED',
+                  message: '重置链接已过期，请重新申请',
+                }
+              : {
+                  code: 'INVALID_TOKEN',
+                  message: '重置链接无效或已使用',
+                },
+        },
+        { status: result.reason === 'EXPIRED' ? 410 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '密码已重置，请使用新密码登录',
+    });
+  } catch (error) {
+    console.error('重置密码失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '重置密码失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -0,0 +1,84 @@
+/**
+ * 申请密码重置 API 路由 - 发送密码重置邮件
+ *
+ * 支持的HTTP方法：
+ * - POST: 向指定邮箱发送密码重置链接
+ *
+ * 安全特性：
+ * - 无论邮箱是否注册都返回相同结果，防止枚举账号
+ * - 请求频率限制：每个 IP 每小时最多5次
+ *
+ * 错误处理：
+ * - 验证错误：400状态码
+ * - 频率限制：429状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requestPasswordReset } from '@/lib/password-reset';
+import {
+  getClientIp,
+  passwordResetRateLimit,
+  withRateLimit,
+} from '@/lib/rate-limit';
+
+const requestSchema = z.object({
+  email: z.string().trim().email('邮箱格式不正确'),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    try {
+      await passwordResetRateLimit.consume(getClientIp(request.headers));
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: '请求过于频繁，请稍后再试',
+          },
+        },
+        { status: 429 }
+      );
+    }
+
+    const { email } = requestSchema.parse(await request.json());
+
+    await requestPasswordReset(email);
+
+    return NextResponse.json({
+      success: true,
+      message: '如果该邮箱已注册，你将收到一封重置密码的邮件',
+    });
+  } catch (error) {
+    console.error('申请密码重置失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '申请密码重置失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -7,9 +7,10 @@
  * 3. 密码加密和用户创建
  * 4. 防止恶意注册攻击
  * 5. 返回标准化的 API 响应
+ * 6. 发送邮箱验证邮件
  *
  * 安全特性：
- * - 请求频率限制（防止暴力注册）
+ * - 请求频率限制：每个 IP 每小时最多5次（防止暴力注册）
  * - Zod 数据验证（防止无效数据）
  * - bcryptjs 密码哈希（密码安全）
  * - 重复性检查（用户名、邮箱唯一性）
@@ -36,13 +37,14 @@
  * - Prisma ORM 数据操作
  * - bcryptjs 密码加密
  * - Zod 数据验证
- * - 自定义限流中间件
+ * - Redis 分布式限流
  */
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
-import { rateLimit } from '@/lib/rate-limit';
+import { withRateLimit } from '@/lib/rate-limit';
+import { sendVerificationEmail } from '@/lib/email-verification';
 
 const registerSchema = z.object({
   username: z
@@ -58,28 +60,8 @@ const registerSchema = z.object({
     .regex(/^(?=.*[a-zA-Z])(?=.*\d)/, '密码必须包含字母和数字'),
 });
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
-    // 速率限制 - Next.js 15 中使用 headers 获取客户端 IP
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const identifier = forwarded?.split(',')[0] ?? realIp ?? 'anonymous';
-
-    try {
-      await rateLimit.consume(identifier);
-    } catch {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            message: '请求过于频繁，请稍后再试',
-          },
-        },
-        { status: 429 }
-      );
-    }
-
     const body = await request.json();
 
     // 数据验证
@@ -144,6 +126,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // 发送邮箱验证邮件，发送失败不影响注册，可在验证页重新发送
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('发送验证邮件失败:', error);
+    }
+
     // 转换BigInt为字符串以避免序列化错误
     const userData = {
       ...user,
@@ -160,7 +149,7 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         data: { user: userData },
-        message: '注册成功',
+        message: '注册成功，请查收验证邮件',
       },
       { status: 201 }
     );
@@ -193,3 +182,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('register', handlePost);
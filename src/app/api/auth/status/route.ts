@@ -0,0 +1,67 @@
+/**
+ * 账号状态 API 路由 - 查询当前登录账号是否被封禁或停用
+ *
+ * 支持的HTTP方法：
+ * - GET: 返回当前会话账号的限制信息，正常账号返回 null；
+ *   同时返回账号是否因角色要求必须先启用两步验证
+ * - 会话已被撤销（远程退出、修改密码或封禁）时 auth() 返回空，authenticated 为 false
+ * - 返回账号当前角色和自定义角色权限，管理员修改后中间件立即按新权限控制访问
+ *
+ * 使用场景：
+ * - 中间件运行在 Edge 环境中无法访问数据库，通过该接口实时校验账号状态
+ *
+ * 错误处理：
+ * - 未登录或会话已撤销：authenticated 为 false，block 为 null
+ * - 服务器错误：500状态码
+ */
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getAccountBlock } from '@/lib/user-status';
+import { isTwoFactorSetupRequired } from '@/lib/two-factor';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          authenticated: false,
+          block: null,
+          twoFactorSetupRequired: false,
+          role: null,
+          permissions: null,
+        },
+      });
+    }
+
+    const userId = BigInt(session.user.id);
+    const block = await getAccountBlock(userId);
+    const twoFactorSetupRequired = block
+      ? false
+      : await isTwoFactorSetupRequired(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        authenticated: true,
+        block,
+        twoFactorSetupRequired,
+        role: session.user.role,
+        permissions: session.user.permissions ?? [],
+      },
+    });
+  } catch (error) {
+    console.error('查询账号状态失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '查询账号状态失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * 重发验证邮件 API 路由 - 为当前登录账号重新发送邮箱验证邮件
+ *
+ * 支持的HTTP方法：
+ * - POST: 重新发送验证邮件
+ *
+ * 安全特性：
+ * - 请求频率限制：每个账号每小时最多3次
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 邮箱已验证：400状态码
+ * - 频率限制：429状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { verificationEmailRateLimit, withRateLimit } from '@/lib/rate-limit';
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: { id: true, email: true, username: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ALREADY_VERIFIED',
+            message: '邮箱已验证',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await verificationEmailRateLimit.consume(user.id.toString());
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: '发送过于频繁，请稍后再试',
+          },
+        },
+        { status: 429 }
+      );
+    }
+
+    await sendVerificationEmail(user);
+
+    return NextResponse.json({
+      success: true,
+      message: `验证邮件已发送至 ${user.email}`,
+    });
+  } catch (error) {
+    console.error('发送验证邮件失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '发送验证邮件失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -0,0 +1,84 @@
+/**
+ * 邮箱验证 API 路由 - 校验邮件中的验证链接
+ *
+ * 支持的HTTP方法：
+ * - GET: 校验验证令牌并标记邮箱已验证
+ *
+ * 查询参数：
+ * - token：验证邮件中的签名令牌
+ *
+ * 错误处理：
+ * - 令牌缺失或无效：400状态码
+ * - 令牌已过期：410状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEmailToken } from '@/lib/email-verification';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    if (!token) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: '验证链接无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifyEmailToken(token);
+
+    if (result.status === 'EXPIRED') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'TOKEN_EXPIRED',
+            message: '验证链接已过期，请重新发送验证邮件',
+          },
+        },
+        { status: 410 }
+      );
+    }
+
+    if (result.status === 'INVALID') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: '验证链接无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { status: result.status },
+      message:
+        result.status === 'ALREADY_VERIFIED' ? '邮箱已验证' : '邮箱验证成功',
+    });
+  } catch (error) {
+    console.error('邮箱验证失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '邮箱验证失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('auth', handleGet);
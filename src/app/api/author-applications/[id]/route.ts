@@ -0,0 +1,158 @@
+/**
+ * 作者申请审核 API 路由 - 管理员通过或拒绝申请
+ *
+ * 支持的HTTP方法：
+ * - POST: 审核申请，通过时申请人角色改为 AUTHOR 并记录角色变更
+ *
+ * 验证规则：
+ * - decision：APPROVE 或 REJECT
+ * - note：审核意见，最多 500 字，拒绝时会显示在给申请人的通知中
+ *
+ * 业务规则：
+ * - 只能审核待审核的申请
+ * - 审核结果通过站内通知告知申请人
+ *
+ * 权限控制：
+ * - 需要 author.review 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 申请不存在：404状态码
+ * - 申请已审核：409状态码
+ * - ID格式无效或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { reviewAuthorApplication } from '@/lib/author-applications';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const reviewSchema = z.object({
+  decision: z.enum(['APPROVE', 'REJECT']),
+  note: z.string().trim().max(500, '审核意见最多500字').optional(),
+});
+
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'author.review')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限审核作者申请',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let applicationId: bigint;
+    try {
+      applicationId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '申请ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { decision, note } = reviewSchema.parse(await request.json());
+
+    const result = await reviewAuthorApplication({
+      applicationId,
+      approve: decision === 'APPROVE',
+      note,
+      reviewer: {
+        id: BigInt(session.user.id),
+        username: session.user.username,
+      },
+    });
+
+    if (!result.success) {
+      return result.reason === 'NOT_FOUND'
+        ? NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: 'NOT_FOUND',
+                message: '申请不存在',
+              },
+            },
+            { status: 404 }
+          )
+        : NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: 'ALREADY_REVIEWED',
+                message: '该申请已审核',
+              },
+            },
+            { status: 409 }
+          );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: decision === 'APPROVE' ? '申请已通过' : '申请已拒绝',
+    });
+  } catch (error) {
+    console.error('审核作者申请失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '审核作者申请失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
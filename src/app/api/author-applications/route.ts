@@ -0,0 +1,276 @@
+/**
+ * 作者申请 API 路由 - 提交申请和管理员查询审核队列
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取作者申请列表（默认待审核，按提交时间先后排列），支持按状态筛选和分页（需要 author.review 权限）
+ * - POST: 普通用户提交成为作者的申请
+ *
+ * 验证规则：
+ * - motivation：申请理由，20-2000 字
+ *
+ * 业务规则：
+ * - 只有普通用户可以申请，已是作者或管理员时返回 400
+ * - 同一时间只能有一个待审核的申请
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 已有待审核的申请：409状态码
+ * - 验证错误或不能申请：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthorApplicationStatus } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import {
+  MOTIVATION_MAX_LENGTH,
+  MOTIVATION_MIN_LENGTH,
+  submitAuthorApplication,
+} from '@/lib/author-applications';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const createApplicationSchema = z.object({
+  motivation: z
+    .string()
+    .trim()
+    .min(MOTIVATION_MIN_LENGTH, `申请理由至少${MOTIVATION_MIN_LENGTH}字`)
+    .max(MOTIVATION_MAX_LENGTH, `申请理由最多${MOTIVATION_MAX_LENGTH}字`),
+});
+
+const querySchema = z.object({
+  status: z.nativeEnum(AuthorApplicationStatus).default('PENDING'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'author.review')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看作者申请',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status, page, limit } = querySchema.parse({
+      status: searchParams.get('status') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const [applications, total] = await Promise.all([
+      prisma.authorApplication.findMany({
+        where: { status },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+              avatarUrl: true,
+              role: true,
+              createdAt: true,
+              _count: { select: { comments: true } },
+            },
+          },
+          reviewer: { select: { id: true, username: true } },
+        },
+        // 待审核的先提交先处理，已审核的按最近审核排列
+        orderBy:
+          status === 'PENDING'
+            ? [{ createdAt: 'asc' }, { id: 'asc' }]
+            : [{ reviewedAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.authorApplication.count({ where: { status } }),
+    ]);
+
+    const serializedApplications = applications.map((application) => ({
+      id: application.id.toString(),
+      motivation: application.motivation,
+      status: application.status,
+      reviewNote: application.reviewNote,
+      reviewedAt: application.reviewedAt,
+      createdAt: application.createdAt,
+      user: {
+        id: application.user.id.toString(),
+        username: application.user.username,
+        email: application.user.email,
+        avatarUrl: application.user.avatarUrl,
+        role: application.user.role,
+        createdAt: application.user.createdAt,
+        commentsCount: application.user._count.comments,
+      },
+      reviewer: application.reviewer
+        ? {
+            ...application.reviewer,
+            id: application.reviewer.id.toString(),
+          }
+        : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        applications: serializedApplications,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取作者申请失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取作者申请失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { motivation } = createApplicationSchema.parse(await request.json());
+
+    const result = await submitAuthorApplication(
+      BigInt(session.user.id),
+      motivation
+    );
+
+    if (!result.success) {
+      return result.reason === 'ALREADY_PENDING'
+        ? NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: 'ALREADY_PENDING',
+                message: '已有待审核的申请，请耐心等待',
+              },
+            },
+            { status: 409 }
+          )
+        : NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: 'NOT_ELIGIBLE',
+                message: '你已经是作者或管理员，无需申请',
+              },
+            },
+            { status: 400 }
+          );
+    }
+
+    const { application } = result;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          application: {
+            id: application.id.toString(),
+            motivation: application.motivation,
+            status: application.status,
+            reviewNote: application.reviewNote,
+            reviewedAt: application.reviewedAt,
+            createdAt: application.createdAt,
+          },
+        },
+        message: '申请已提交，审核结果将通过通知告知你',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('提交作者申请失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '提交作者申请失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+export const POST = withRateLimit('write', handlePost);
@@ -3,14 +3,14 @@
  *
  * 主要功能：
  * 1. 获取单个分类详情
- * 2. 更新分类信息（仅管理员权限）
- * 3. 删除分类（仅管理员权限）
+ * 2. 更新分类信息（需要 category.manage 权限）
+ * 3. 删除分类（需要 category.manage 权限）
  * 4. 自动处理分类别名冲突
  * 5. 删除时处理关联文章
  *
  * 安全特性：
  * - 身份验证检查（修改操作需要登录）
- * - 权限验证（仅管理员可修改）
+ * - 权限验证（需要 category.manage 权限）
  * - Zod 数据验证（防止无效数据）
  * - 别名唯一性检查（避免冲突）
  * - 级联处理关联数据
@@ -31,8 +31,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import slugify from 'slugify';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const updateCategorySchema = z.object({
   name: z
@@ -48,7 +50,7 @@ const updateCategorySchema = z.object({
   sortOrder: z.number().optional(),
 });
 
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -124,12 +126,14 @@ export async function GET(
   }
 }
 
-export async function PUT(
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePut(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'admin');
     if (!session?.user) {
       return NextResponse.json(
         {
@@ -143,7 +147,7 @@ export async function PUT(
       );
     }
 
-    if (session.user.role !== 'ADMIN') {
+    if (!can(session.user, 'category.manage')) {
       return NextResponse.json(
         {
           success: false,
@@ -280,12 +284,14 @@ export async function PUT(
   }
 }
 
-export async function DELETE(
+export const PUT = withRateLimit('write', handlePut);
+
+async function handleDelete(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'admin');
     if (!session?.user) {
       return NextResponse.json(
         {
@@ -299,7 +305,7 @@ export async function DELETE(
       );
     }
 
-    if (session.user.role !== 'ADMIN') {
+    if (!can(session.user, 'category.manage')) {
       return NextResponse.json(
         {
           success: false,
@@ -385,3 +391,5 @@ export async function DELETE(
     );
   }
 }
+
+export const DELETE = withRateLimit('write', handleDelete);
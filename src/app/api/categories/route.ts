@@ -3,14 +3,14 @@
  *
  * 主要功能：
  * 1. 获取分类列表（包含文章统计）
- * 2. 创建新分类（仅管理员权限）
+ * 2. 创建新分类（需要 category.manage 权限）
  * 3. 自动生成唯一的分类别名
  * 4. 分类排序和颜色管理
  * 5. 分类文章数量统计
  *
  * 安全特性：
  * - 身份验证检查（创建分类需要登录）
- * - 权限验证（仅管理员可创建分类）
+ * - 权限验证（需要 category.manage 权限）
  * - Zod 数据验证（防止无效数据）
  * - 别名唯一性检查（避免冲突）
  * - 输入内容长度限制
@@ -42,8 +42,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import slugify from 'slugify';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const createCategorySchema = z.object({
   name: z.string().min(1, '分类名称不能为空').max(50, '分类名称最多50个字符'),
@@ -55,7 +57,7 @@ const createCategorySchema = z.object({
   sortOrder: z.number().default(0),
 });
 
-export async function GET() {
+async function handleGet() {
   try {
     const categories = await prisma.category.findMany({
       orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
@@ -98,9 +100,11 @@ export async function GET() {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'admin');
     if (!session?.user) {
       return NextResponse.json(
         {
@@ -114,7 +118,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (session.user.role !== 'ADMIN') {
+    if (!can(session.user, 'category.manage')) {
       return NextResponse.json(
         {
           success: false,
@@ -189,3 +193,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('write', handlePost);
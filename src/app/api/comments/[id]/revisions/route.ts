@@ -0,0 +1,122 @@
+/**
+ * 评论编辑历史 API 路由 - 获取评论的历史版本
+ *
+ * 主要功能：
+ * 1. 获取评论每次编辑前的内容
+ * 2. 按时间倒序排列
+ *
+ * 权限控制：
+ * - 评论作者（comment.edit）或可审核该文章评论的用户（comment.moderate，默认文章作者和管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 评论不存在：404状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { formatCommentRevision } from '@/lib/comments';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let commentId: bigint;
+    try {
+      commentId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '评论ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const comment = await prisma.comment.findFirst({
+      where: { id: commentId, deletedAt: null },
+      select: {
+        userId: true,
+        post: { select: { authorId: true } },
+        revisions: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!comment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '评论不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      !can(session.user, 'comment.edit', { authorId: comment.userId }) &&
+      !can(session.user, 'comment.moderate', {
+        authorId: comment.post?.authorId,
+      })
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看编辑历史',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        revisions: comment.revisions.map(formatCommentRevision),
+      },
+    });
+  } catch (error) {
+    console.error('获取评论编辑历史失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取评论编辑历史失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,351 @@
+/**
+ * 单条评论 API 路由 - 编辑和删除评论
+ *
+ * 支持的HTTP方法：
+ * - PATCH: 编辑评论内容（编辑前保存旧版本，并标记为已编辑；新内容经过垃圾评论过滤，疑似垃圾时转为待审核）
+ * - DELETE: 软删除评论（有回复的评论保留占位内容）
+ *
+ * 权限控制：
+ * - 编辑：需要 comment.edit 权限（仅评论作者），且在编辑时间窗口内，按配置要求已验证邮箱
+ * - 删除：需要 comment.delete 权限（评论作者或管理员），或可审核该文章的评论（comment.moderate，文章作者）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足、超出编辑时间或邮箱未验证：403状态码
+ * - 账号被封禁或停用：403状态码
+ * - 评论不存在：404状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Comment } from '@prisma/client';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { getEmailVerificationBlock } from '@/lib/email-verification';
+import { prisma } from '@/lib/db';
+import {
+  deleteComment,
+  editComment,
+  getEditableUntil,
+  isWithinEditWindow,
+} from '@/lib/comments';
+import { evaluateSpam } from '@/lib/spam-filter';
+import { syncCommentMentions } from '@/lib/mentions';
+import { getClientIp, withRateLimit } from '@/lib/rate-limit';
+
+const updateCommentSchema = z.object({
+  content: z.string().trim().min(1, '评论内容不能为空').max(1000),
+});
+
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'comments:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 与发表评论相同，按配置要求验证邮箱后才能编辑
+    const verificationBlock = await getEmailVerificationBlock(
+      BigInt(session.user.id),
+      'comment'
+    );
+    if (verificationBlock) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: verificationBlock.code,
+            message: verificationBlock.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let commentId: bigint;
+    try {
+      commentId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '评论ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { content } = updateCommentSchema.parse(await request.json());
+
+    const comment = await prisma.comment.findFirst({
+      where: {
+        id: commentId,
+        deletedAt: null,
+        status: { in: ['PENDING', 'APPROVED'] },
+      },
+      include: { post: { select: { authorId: true } } },
+    });
+
+    if (!comment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '评论不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, 'comment.edit', { authorId: comment.userId })) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '只能编辑自己的评论',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isWithinEditWindow(comment.createdAt)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EDIT_WINDOW_EXPIRED',
+            message: '已超过评论可编辑时间',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 内容未变化时不生成编辑记录
+    let updated: Comment = comment;
+    if (content !== comment.content) {
+      // 新内容同样经过垃圾评论过滤（含发布频率检查），能审核该文章评论的用户不过滤
+      const ip = getClientIp(request.headers);
+      const spam = can(session.user, 'comment.moderate', {
+        authorId: comment.post?.authorId,
+      })
+        ? null
+        : await evaluateSpam({
+            userId: comment.userId,
+            ip: ip === 'anonymous' ? null : ip,
+            postId: comment.postId,
+            content,
+          });
+
+      updated = await editComment(comment, content, spam);
+    }
+
+    // 已公开的评论同步提及，只通知新增的被提及用户；转为待审核的评论不通知
+    if (updated !== comment && updated.status === 'APPROVED') {
+      await syncCommentMentions(updated, {
+        id: updated.userId,
+        username: session.user.username,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        comment: {
+          id: updated.id.toString(),
+          postId: updated.postId.toString(),
+          userId: updated.userId.toString(),
+          parentId: updated.parentId?.toString() || null,
+          content: updated.content,
+          contentHtml: updated.contentHtml,
+          status: updated.status,
+          createdAt: updated.createdAt,
+          editedAt: updated.editedAt,
+          editableUntil: getEditableUntil(updated.createdAt),
+        },
+      },
+      message:
+        updated.status === 'APPROVED'
+          ? '评论已更新'
+          : '评论已更新，审核通过后显示',
+    });
+  } catch (error) {
+    console.error('编辑评论失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '编辑评论失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withRateLimit('comment', handlePatch);
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'comments:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let commentId: bigint;
+    try {
+      commentId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '评论ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const comment = await prisma.comment.findFirst({
+      where: { id: commentId, deletedAt: null },
+      include: { post: { select: { authorId: true } } },
+    });
+
+    if (!comment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '评论不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      !can(session.user, 'comment.delete', { authorId: comment.userId }) &&
+      !can(session.user, 'comment.moderate', {
+        authorId: comment.post?.authorId,
+      })
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限删除此评论',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    await deleteComment(comment);
+
+    return NextResponse.json({
+      success: true,
+      message: '评论已删除',
+    });
+  } catch (error) {
+    console.error('删除评论失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '删除评论失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,267 @@
+/**
+ * 评论审核 API 路由 - 审核队列查询和批量审核
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取审核队列（默认待审核评论），支持按状态、文章筛选和分页
+ * - POST: 批量通过或拒绝评论
+ *
+ * 权限控制：
+ * - 需要 comment.moderate.own 或 comment.moderate.any 权限（默认作者和管理员）
+ * - 拥有 comment.moderate.any 权限可以审核所有评论，否则只能审核自己文章下的评论
+ *
+ * 验证规则：
+ * - ids：1-100 个评论ID
+ * - action：approve 或 reject
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Role } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { PolicyUser, can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { moderateComments, moderationScope } from '@/lib/comment-moderation';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const querySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).default('PENDING'),
+  postId: z
+    .string()
+    .regex(/^\d+$/)
+    .transform((val) => BigInt(val))
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const moderateSchema = z.object({
+  ids: z
+    .array(z.string().regex(/^\d+$/, '无效的评论ID'))
+    .min(1, '请选择评论')
+    .max(100, '一次最多处理100条评论'),
+  action: z.enum(['approve', 'reject']),
+});
+
+// 能审核自己文章下的评论或所有评论
+const canModerate = (user: PolicyUser) =>
+  can(user, 'comment.moderate.own') || can(user, 'comment.moderate.any');
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!canModerate(session.user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限审核评论',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status, postId, page, limit } = querySchema.parse({
+      status: searchParams.get('status') || undefined,
+      postId: searchParams.get('postId') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const where = {
+      status,
+      deletedAt: null,
+      ...(postId ? { postId } : {}),
+      ...moderationScope({
+        id: BigInt(session.user.id),
+        role: session.user.role as Role,
+        permissions: session.user.permissions,
+      }),
+    };
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              avatarUrl: true,
+            },
+          },
+          post: {
+            select: {
+              id: true,
+              title: true,
+            },
+          },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.comment.count({ where }),
+    ]);
+
+    const serializedComments = comments.map((comment) => ({
+      id: comment.id.toString(),
+      postId: comment.postId.toString(),
+      userId: comment.userId.toString(),
+      parentId: comment.parentId?.toString() || null,
+      content: comment.content,
+      contentHtml: comment.contentHtml,
+      status: comment.status,
+      createdAt: comment.createdAt,
+      moderatedAt: comment.moderatedAt,
+      spamScore: comment.spamScore,
+      spamReasons: comment.spamReasons,
+      user: comment.user
+        ? { ...comment.user, id: comment.user.id.toString() }
+        : null,
+      post: comment.post
+        ? { ...comment.post, id: comment.post.id.toString() }
+        : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        comments: serializedComments,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取审核队列失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取审核队列失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'comments:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!canModerate(session.user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限审核评论',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { ids, action } = moderateSchema.parse(await request.json());
+
+    const updated = await moderateComments({
+      ids: ids.map((id) => BigInt(id)),
+      action,
+      moderator: {
+        id: BigInt(session.user.id),
+        role: session.user.role as Role,
+        permissions: session.user.permissions,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { updated },
+      message: action === 'approve' ? '评论已通过' : '评论已拒绝',
+    });
+  } catch (error) {
+    console.error('审核评论失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '审核评论失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
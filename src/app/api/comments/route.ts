@@ -2,14 +2,39 @@
  * 评论系统 API
  *
  * 功能：
- * GET: 获取指定文章的评论列表
- * POST: 创建新评论
+ * GET: 获取指定文章的评论列表（已删除但仍有回复的评论以占位内容展示）
+ * POST: 创建新评论（服务端渲染 Markdown 生成 contentHtml，并通知相关用户）
+ *
+ * 审核流程：
+ * - 按文章或站点的审核模式决定评论是否需要审核
+ * - 垃圾评论过滤得分超过阈值的评论进入待审核（管理员和文章作者除外）
+ * - 待审核的评论不计入评论数和回复数，通过审核后才通知相关用户和被提及的用户
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { getEmailVerificationBlock } from '@/lib/email-verification';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { renderMarkdown } from '@/lib/markdown';
+import { notifyNewComment } from '@/lib/notifications';
+import {
+  getInitialCommentStatus,
+  resolveModerationMode,
+  updateApprovedCommentCounters,
+} from '@/lib/comment-moderation';
+import { Role } from '@prisma/client';
+import {
+  getEditableUntil,
+  maskDeletedComment,
+  omitModerationFields,
+  visibleCommentFilter,
+} from '@/lib/comments';
+import { evaluateSpam } from '@/lib/spam-filter';
+import { syncCommentMentions } from '@/lib/mentions';
+import { getClientIp, withRateLimit } from '@/lib/rate-limit';
 
 // 创建评论的验证schema
 const createCommentSchema = z.object({
@@ -34,7 +59,7 @@ const getCommentsSchema = z.object({
     .default('20'),
 });
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const url = new URL(request.url);
     const searchParams = Object.fromEntries(url.searchParams);
@@ -65,8 +90,7 @@ export async function GET(request: NextRequest) {
       where: {
         postId: postId,
         parentId: null,
-        status: 'APPROVED',
-        deletedAt: null,
+        ...visibleCommentFilter,
       },
       include: {
         user: {
@@ -107,38 +131,41 @@ export async function GET(request: NextRequest) {
       where: {
         postId: postId,
         parentId: null,
-        status: 'APPROVED',
-        deletedAt: null,
+        ...visibleCommentFilter,
       },
     });
 
     // 转换 BigInt 为字符串
-    const serializedComments = comments.map((comment) => ({
-      ...comment,
-      id: comment.id.toString(),
-      postId: comment.postId.toString(),
-      userId: comment.userId.toString(),
-      parentId: comment.parentId?.toString() || null,
-      user: comment.user
-        ? {
-            ...comment.user,
-            id: comment.user.id.toString(),
-          }
-        : null,
-      replies: comment.replies.map((reply) => ({
-        ...reply,
-        id: reply.id.toString(),
-        postId: reply.postId.toString(),
-        userId: reply.userId.toString(),
-        parentId: reply.parentId?.toString() || null,
-        user: reply.user
+    const serializedComments = comments.map((comment) =>
+      maskDeletedComment({
+        ...omitModerationFields(comment),
+        id: comment.id.toString(),
+        postId: comment.postId.toString(),
+        userId: comment.userId.toString(),
+        parentId: comment.parentId?.toString() || null,
+        editableUntil: getEditableUntil(comment.createdAt),
+        user: comment.user
           ? {
-              ...reply.user,
-              id: reply.user.id.toString(),
+              ...comment.user,
+              id: comment.user.id.toString(),
             }
           : null,
-      })),
-    }));
+        replies: comment.replies.map((reply) => ({
+          ...omitModerationFields(reply),
+          id: reply.id.toString(),
+          postId: reply.postId.toString(),
+          userId: reply.userId.toString(),
+          parentId: reply.parentId?.toString() || null,
+          editableUntil: getEditableUntil(reply.createdAt),
+          user: reply.user
+            ? {
+                ...reply.user,
+                id: reply.user.id.toString(),
+              }
+            : null,
+        })),
+      })
+    );
 
     return NextResponse.json({
       success: true,
@@ -169,9 +196,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'comments:write');
 
     if (!session?.user?.id) {
       return NextResponse.json(
@@ -180,6 +209,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.message },
+        { status: 403 }
+      );
+    }
+
+    // 按配置要求验证邮箱后才能评论
+    const verificationBlock = await getEmailVerificationBlock(
+      BigInt(session.user.id),
+      'comment'
+    );
+    if (verificationBlock) {
+      return NextResponse.json(
+        { success: false, error: verificationBlock.message },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const validatedData = createCommentSchema.parse(body);
     const { postId, content, parentId } = validatedData;
@@ -219,16 +269,51 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const userId = BigInt(session.user.id);
+    const commenter = {
+      id: userId,
+      role: session.user.role as Role,
+      permissions: session.user.permissions,
+    };
+
+    // 根据审核模式决定评论初始状态
+    let status = await getInitialCommentStatus({
+      mode: resolveModerationMode(post.commentModeration),
+      commenter,
+      postAuthorId: post.authorId,
+    });
+
+    // 垃圾评论过滤，疑似垃圾的评论进入待审核；能审核该文章评论的用户不过滤
+    // 取不到客户端 IP 时不按 IP 统计频率，避免所有此类请求共用一个计数
+    const ip = getClientIp(request.headers);
+    const spam = can(commenter, 'comment.moderate', {
+      authorId: post.authorId,
+    })
+      ? null
+      : await evaluateSpam({
+          userId,
+          ip: ip === 'anonymous' ? null : ip,
+          postId,
+          content,
+        });
+
+    if (spam?.isSpam) {
+      status = 'PENDING';
+    }
+
     // 创建评论
     const comment = await prisma.$transaction(async (tx) => {
       // 创建评论
       const newComment = await tx.comment.create({
         data: {
           postId,
-          userId: BigInt(session.user.id),
+          userId,
           parentId,
           content,
-          status: 'APPROVED', // 简化：直接审核通过，实际项目可能需要审核流程
+          contentHtml: renderMarkdown(content, 'comment'),
+          status,
+          spamScore: spam?.score || null,
+          spamReasons: spam?.reasons.length ? spam.reasons : undefined,
         },
         include: {
           user: {
@@ -241,34 +326,35 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // 更新文章评论数
-      await tx.post.update({
-        where: { id: postId },
-        data: {
-          commentsCount: {
-            increment: 1,
-          },
-        },
-      });
-
-      // 如果是回复，更新父评论的回复数
-      if (parentId) {
-        await tx.comment.update({
-          where: { id: parentId },
-          data: {
-            repliesCount: {
-              increment: 1,
-            },
-          },
-        });
+      // 只有通过审核的评论计入评论数和回复数
+      if (status === 'APPROVED') {
+        await updateApprovedCommentCounters(
+          tx,
+          { postId, parentId: parentId ?? null },
+          1
+        );
       }
 
       return newComment;
     });
 
+    // 通知文章作者和被回复的评论作者，待审核的评论在通过后再通知
+    if (status === 'APPROVED') {
+      await notifyNewComment({
+        postId,
+        commentId: comment.id,
+        parentId,
+        actor: { id: comment.userId, username: session.user.username },
+      });
+      await syncCommentMentions(comment, {
+        id: comment.userId,
+        username: session.user.username,
+      });
+    }
+
     // 转换 BigInt 为字符串
     const serializedComment = {
-      ...comment,
+      ...omitModerationFields(comment),
       id: comment.id.toString(),
       postId: comment.postId.toString(),
       userId: comment.userId.toString(),
@@ -285,6 +371,8 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         data: { comment: serializedComment },
+        message:
+          status === 'APPROVED' ? '评论成功' : '评论已提交，审核通过后显示',
       },
       { status: 201 }
     );
@@ -304,3 +392,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('comment', handlePost);
@@ -0,0 +1,138 @@
+/**
+ * 垃圾评论分类器 API 路由 - 查看和重新训练分类模型
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取当前模型的训练时间和样本数量
+ * - POST: 使用被拒绝和已通过的评论重新训练模型
+ *
+ * 权限控制：
+ * - 需要 comment.spam.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { loadSpamModel, trainSpamClassifier } from '@/lib/spam-filter';
+import { SpamModel } from '@/lib/spam-classifier';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const summarizeModel = (model: SpamModel | null) =>
+  model
+    ? {
+        trainedAt: model.trainedAt,
+        docs: model.docs,
+        vocabularySize: new Set([
+          ...Object.keys(model.tokens.spam),
+          ...Object.keys(model.tokens.ham),
+        ]).size,
+      }
+    : null;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'comment.spam.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限管理垃圾评论模型',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const model = await loadSpamModel();
+
+    return NextResponse.json({
+      success: true,
+      data: { model: summarizeModel(model) },
+    });
+  } catch (error) {
+    console.error('获取垃圾评论模型失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取垃圾评论模型失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'comment.spam.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限管理垃圾评论模型',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const model = await trainSpamClassifier();
+
+    return NextResponse.json({
+      success: true,
+      data: { model: summarizeModel(model) },
+      message: '垃圾评论模型已更新',
+    });
+  } catch (error) {
+    console.error('训练垃圾评论模型失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '训练垃圾评论模型失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
@@ -0,0 +1,305 @@
+/**
+ * 单个自定义角色 API 路由 - 修改和删除自定义角色
+ *
+ * 支持的HTTP方法：
+ * - PUT: 修改角色名称、描述或权限，已授予该角色的用户下次请求即按新权限生效
+ * - DELETE: 删除角色，已授予的用户自动解除该角色
+ *
+ * 业务规则：
+ * - 只能授予自己拥有的权限
+ *
+ * 权限控制：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足或授予自己没有的权限：403状态码
+ * - 角色不存在：404状态码
+ * - 角色名称已存在：409状态码
+ * - ID格式无效或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { PERMISSIONS, can, normalizePermissions } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const updateRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, '角色名称不能为空')
+    .max(50, '角色名称最多50个字符')
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(255, '角色描述最多255个字符')
+    .nullable()
+    .optional(),
+  permissions: z
+    .array(z.enum(PERMISSIONS))
+    .min(1, '请至少选择一项权限')
+    .optional(),
+});
+
+async function handlePut(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限修改角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    const roleId = parseInt(id);
+    if (isNaN(roleId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '角色ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = updateRoleSchema.parse(await request.json());
+    const permissions = data.permissions
+      ? normalizePermissions(data.permissions)
+      : undefined;
+
+    if (
+      permissions &&
+      !permissions.every((permission) => can(session.user, permission))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PERMISSION_NOT_GRANTED',
+            message: '不能授予自己没有的权限',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const existingRole = await prisma.customRole.findUnique({
+      where: { id: roleId },
+    });
+
+    if (!existingRole) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '角色不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (data.name && data.name !== existingRole.name) {
+      const conflictRole = await prisma.customRole.findUnique({
+        where: { name: data.name },
+        select: { id: true },
+      });
+
+      if (conflictRole) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'NAME_EXISTS',
+              message: '角色名称已存在',
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const role = await prisma.customRole.update({
+      where: { id: roleId },
+      data: {
+        name: data.name,
+        description:
+          data.description === undefined ? undefined : data.description || null,
+        permissions,
+      },
+      include: { _count: { select: { users: true } } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        role: {
+          id: role.id,
+          name: role.name,
+          description: role.description,
+          permissions: normalizePermissions(role.permissions),
+          usersCount: role._count.users,
+          createdAt: role.createdAt,
+          updatedAt: role.updatedAt,
+        },
+      },
+      message: '角色更新成功',
+    });
+  } catch (error) {
+    console.error('更新自定义角色失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '更新自定义角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限删除角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    const roleId = parseInt(id);
+    if (isNaN(roleId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '角色ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingRole = await prisma.customRole.findUnique({
+      where: { id: roleId },
+      select: { id: true },
+    });
+
+    if (!existingRole) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '角色不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // 先解除用户与该角色的关联，再删除角色
+    await prisma.$transaction([
+      prisma.user.updateMany({
+        where: { customRoleId: roleId },
+        data: { customRoleId: null },
+      }),
+      prisma.customRole.delete({ where: { id: roleId } }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      message: '角色已删除',
+    });
+  } catch (error) {
+    console.error('删除自定义角色失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '删除自定义角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('write', handlePut);
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,236 @@
+/**
+ * 自定义角色 API 路由 - 查询和创建自定义角色
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取自定义角色列表（含权限和已授予的用户数），同时返回内置角色的权限
+ * - POST: 创建自定义角色
+ *
+ * 验证规则：
+ * - name：1-50 字符，不能与已有角色重名
+ * - description：最多 255 字符
+ * - permissions：至少一项，只能是已定义的权限标识
+ *
+ * 业务规则：
+ * - 自定义角色授予用户后，与用户内置角色的权限合并生效
+ * - 只能授予自己拥有的权限，避免通过自定义角色提升权限
+ *
+ * 权限控制：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足或授予自己没有的权限：403状态码
+ * - 角色名称已存在：409状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  can,
+  normalizePermissions,
+} from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const createRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, '角色名称不能为空')
+    .max(50, '角色名称最多50个字符'),
+  description: z.string().trim().max(255, '角色描述最多255个字符').optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1, '请至少选择一项权限'),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const roles = await prisma.customRole.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        builtInRoles: Object.keys(ROLE_PERMISSIONS).map((role) => ({
+          role,
+          permissions: ROLE_PERMISSIONS[role],
+        })),
+        roles: roles.map((role) => ({
+          id: role.id,
+          name: role.name,
+          description: role.description,
+          permissions: normalizePermissions(role.permissions),
+          usersCount: role._count.users,
+          createdAt: role.createdAt,
+          updatedAt: role.updatedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('获取自定义角色失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取自定义角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限创建角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const data = createRoleSchema.parse(await request.json());
+    const permissions = normalizePermissions(data.permissions);
+
+    if (!permissions.every((permission) => can(session.user, permission))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PERMISSION_NOT_GRANTED',
+            message: '不能授予自己没有的权限',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.customRole.findUnique({
+      where: { name: data.name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NAME_EXISTS',
+            message: '角色名称已存在',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const role = await prisma.customRole.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        permissions,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          role: {
+            id: role.id,
+            name: role.name,
+            description: role.description,
+            permissions,
+            usersCount: 0,
+            createdAt: role.createdAt,
+            updatedAt: role.updatedAt,
+          },
+        },
+        message: '角色创建成功',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建自定义角色失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '创建自定义角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+export const POST = withRateLimit('write', handlePost);
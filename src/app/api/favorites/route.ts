@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { getAccountBlock } from '@/lib/user-status';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { notifyFavorite } from '@/lib/notifications';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const favoriteSchema = z.object({
   postId: z.string().transform((val) => BigInt(val)),
 });
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const url = new URL(request.url);
     const { postId } = favoriteSchema.parse(
@@ -18,7 +21,7 @@ export async function GET(request: NextRequest) {
     const count = await prisma.favorite.count({ where: { postId } });
 
     // 检查当前用户是否已收藏
-    const session = await auth();
+    const session = await getApiSession(request, 'read');
     let isFavorited = false;
 
     if (session?.user?.id) {
@@ -45,15 +48,26 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'social:write');
     if (!session?.user?.id) {
       return NextResponse.json(
         { success: false, error: '请先登录' },
         { status: 401 }
       );
     }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.message },
+        { status: 403 }
+      );
+    }
     const { postId } = favoriteSchema.parse(await request.json());
     await prisma.favorite.create({
       data: {
@@ -61,6 +75,10 @@ export async function POST(request: NextRequest) {
         postId,
       },
     });
+    await notifyFavorite({
+      postId,
+      actor: { id: BigInt(session.user.id), username: session.user.username },
+    });
     return NextResponse.json({ success: true });
   } catch {
     return NextResponse.json(
@@ -70,15 +88,26 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE(request: NextRequest) {
+export const POST = withRateLimit('write', handlePost);
+
+async function handleDelete(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'social:write');
     if (!session?.user?.id) {
       return NextResponse.json(
         { success: false, error: '请先登录' },
         { status: 401 }
       );
     }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.message },
+        { status: 403 }
+      );
+    }
     const { postId } = favoriteSchema.parse(await request.json());
     await prisma.favorite.delete({
       where: {
@@ -96,3 +125,5 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,148 @@
+/**
+ * 关注动态 API 路由 - 获取已关注作者发布的文章
+ *
+ * 主要功能：
+ * 1. 返回当前用户关注的作者已发布的文章
+ * 2. 按发布时间倒序排列
+ * 3. 支持分页（page、limit，limit 最大 50）
+ * 4. 包含作者、分类、标签和统计信息
+ *
+ * 安全特性：
+ * - 需要登录
+ * - 只返回已发布且未删除的文章
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || 10, 1),
+      50
+    );
+
+    const where: Prisma.PostWhereInput = {
+      status: 'PUBLISHED',
+      deletedAt: null,
+      author: {
+        followers: {
+          some: { followerId: BigInt(session.user.id) },
+        },
+      },
+    };
+
+    const [posts, total] = await Promise.all([
+      prisma.post.findMany({
+        where,
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              avatarUrl: true,
+            },
+          },
+          category: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              color: true,
+            },
+          },
+          tags: {
+            include: {
+              tag: {
+                select: {
+                  id: true,
+                  name: true,
+                  slug: true,
+                  color: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: {
+              comments: true,
+              favorites: true,
+            },
+          },
+        },
+        orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.post.count({ where }),
+    ]);
+
+    // 格式化数据，处理BigInt序列化
+    const formattedPosts = posts.map((post) => ({
+      ...post,
+      id: post.id.toString(),
+      authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
+      author: post.author
+        ? {
+            ...post.author,
+            id: post.author.id.toString(),
+          }
+        : null,
+      tags: post.tags.map((pt) => pt.tag),
+      commentsCount: post._count.comments,
+      favoritesCount: post._count.favorites,
+      _count: undefined,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        posts: formattedPosts,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取关注动态失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取关注动态失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { getAccountBlock } from '@/lib/user-status';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { notifyLike } from '@/lib/notifications';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const likeSchema = z.object({
   targetType: z.enum(['POST', 'COMMENT']),
   targetId: z.string().transform((val) => BigInt(val)),
 });
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const url = new URL(request.url);
     const { targetType, targetId } = likeSchema.parse(
@@ -21,7 +24,7 @@ export async function GET(request: NextRequest) {
     });
 
     // 检查当前用户是否已点赞
-    const session = await auth();
+    const session = await getApiSession(request, 'read');
     let isLiked = false;
 
     if (session?.user?.id) {
@@ -49,15 +52,26 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'social:write');
     if (!session?.user?.id) {
       return NextResponse.json(
         { success: false, error: '请先登录' },
         { status: 401 }
       );
     }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.message },
+        { status: 403 }
+      );
+    }
     const { targetType, targetId } = likeSchema.parse(await request.json());
     await prisma.like.create({
       data: {
@@ -66,6 +80,11 @@ export async function POST(request: NextRequest) {
         targetId,
       },
     });
+    await notifyLike({
+      targetType,
+      targetId,
+      actor: { id: BigInt(session.user.id), username: session.user.username },
+    });
     return NextResponse.json({ success: true });
   } catch {
     return NextResponse.json(
@@ -75,15 +94,26 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE(request: NextRequest) {
+export const POST = withRateLimit('write', handlePost);
+
+async function handleDelete(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'social:write');
     if (!session?.user?.id) {
       return NextResponse.json(
         { success: false, error: '请先登录' },
         { status: 401 }
       );
     }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.message },
+        { status: 403 }
+      );
+    }
     const { targetType, targetId } = likeSchema.parse(await request.json());
     await prisma.like.delete({
       where: {
@@ -102,3 +132,5 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,93 @@
+/**
+ * 全部已读 API 路由 - 将当前用户的未读通知全部标记为已读
+ *
+ * 主要功能：
+ * 1. 标记全部未读通知为已读
+ * 2. 可选按通知类型只标记某一类（请求体 { type }）
+ * 3. 标记后推送最新未读数
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationType, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { publishUnreadCount } from '@/lib/notification-stream';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const readAllSchema = z.object({
+  type: z.nativeEnum(NotificationType).optional(),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'social:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const userId = BigInt(session.user.id);
+    const body = await request.json().catch(() => ({}));
+    const { type } = readAllSchema.parse(body);
+
+    const where: Prisma.NotificationWhereInput = { userId, isRead: false };
+    if (type) {
+      where.type = type;
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where,
+      data: { isRead: true },
+    });
+
+    await publishUnreadCount(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { updated: count },
+    });
+  } catch (error) {
+    console.error('标记全部已读失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '通知类型无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '标记全部已读失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
@@ -1,49 +1,292 @@
+/**
+ * 通知 API 路由 - 站内通知收件箱管理
+ *
+ * 主要功能：
+ * 1. GET：游标分页获取通知列表，支持按类型和已读状态筛选
+ * 2. POST：将单条通知标记为已读
+ * 3. DELETE：批量删除通知
+ *
+ * 查询参数（GET）：
+ * - cursor：上一页最后一条通知的 ID
+ * - limit：每页数量，默认 20，最大 50
+ * - type：通知类型（COMMENT、REPLY、LIKE、FAVORITE、FOLLOW、MENTION、SYSTEM）
+ * - isRead：true/false，按已读状态筛选
+ *
+ * 安全特性：
+ * - 需要登录，只能访问自己的通知
+ * - Zod 数据验证
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误：400状态码
+ * - 通知不存在：404状态码
+ * - 服务器错误：500状态码
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { NotificationType, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
 import { prisma } from '@/lib/db';
+import {
+  publishUnreadCount,
+  serializeNotification,
+} from '@/lib/notification-stream';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const querySchema = z.object({
+  cursor: z
+    .string()
+    .regex(/^\d+$/, '游标格式无效')
+    .transform((val) => BigInt(val))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  type: z.nativeEnum(NotificationType).optional(),
+  isRead: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+const markReadSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform((val) => BigInt(val)),
+});
+
+const deleteSchema = z.object({
+  ids: z
+    .array(z.union([z.string(), z.number()]).transform((val) => BigInt(val)))
+    .min(1, '请选择要删除的通知')
+    .max(100, '一次最多删除100条通知'),
+});
 
-export async function GET() {
+async function handleGet(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'read');
     if (!session?.user?.id) {
       return NextResponse.json(
-        { success: false, error: '请先登录' },
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
         { status: 401 }
       );
     }
+
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({
+      cursor: searchParams.get('cursor') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      type: searchParams.get('type') || undefined,
+      isRead: searchParams.get('isRead') || undefined,
+    });
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: BigInt(session.user.id),
+    };
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    if (query.isRead !== undefined) {
+      where.isRead = query.isRead;
+    }
+
+    // 多取一条用于判断是否还有下一页
     const notifications = await prisma.notification.findMany({
-      where: { userId: BigInt(session.user.id) },
-      orderBy: { createdAt: 'desc' },
-      take: 50,
+      where,
+      orderBy: [{ lastActivityAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
     });
-    return NextResponse.json({ success: true, data: { notifications } });
-  } catch {
+
+    const hasMore = notifications.length > query.limit;
+    const items = hasMore ? notifications.slice(0, query.limit) : notifications;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        notifications: items.map(serializeNotification),
+        nextCursor: hasMore ? items[items.length - 1].id.toString() : null,
+        hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('获取通知失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '查询参数验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
-      { success: false, error: '获取通知失败' },
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取通知失败',
+        },
+      },
       { status: 500 }
     );
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'social:write');
     if (!session?.user?.id) {
       return NextResponse.json(
-        { success: false, error: '请先登录' },
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
         { status: 401 }
       );
     }
-    const { id } = await request.json();
-    await prisma.notification.update({
-      where: { id: BigInt(id), userId: BigInt(session.user.id) },
+
+    const userId = BigInt(session.user.id);
+    const { id } = markReadSchema.parse(await request.json());
+
+    const { count } = await prisma.notification.updateMany({
+      where: { id, userId },
       data: { isRead: true },
     });
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '通知不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    await publishUnreadCount(userId);
     return NextResponse.json({ success: true });
-  } catch {
+  } catch (error) {
+    console.error('标记已读失败:', error);
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '通知ID无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
-      { success: false, error: '标记已读失败' },
-      { status: 400 }
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '标记已读失败',
+        },
+      },
+      { status: 500 }
     );
   }
 }
+
+export const POST = withRateLimit('write', handlePost);
+
+async function handleDelete(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'social:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const userId = BigInt(session.user.id);
+    const { ids } = deleteSchema.parse(await request.json());
+
+    // 只删除属于当前用户的通知
+    const { count } = await prisma.notification.deleteMany({
+      where: { id: { in: ids }, userId },
+    });
+
+    await publishUnreadCount(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: count },
+    });
+  } catch (error) {
+    console.error('删除通知失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '通知ID无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '删除通知失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
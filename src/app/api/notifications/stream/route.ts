@@ -0,0 +1,140 @@
+/**
+ * 通知推送 API 路由 - 基于 Server-Sent Events 的实时通知流
+ *
+ * 主要功能：
+ * 1. 连接建立后立即推送当前未读数
+ * 2. 实时推送新通知和未读数变化
+ * 3. 定时发送心跳，防止代理断开空闲连接
+ *
+ * 事件格式：
+ * - event: notification，data 为 { notification, unreadCount }
+ * - event: unread，data 为 { unreadCount }
+ *
+ * 实现说明：
+ * - 通过 Redis 发布订阅接收事件，多个 Next.js 实例部署时同样有效
+ * - 客户端断开连接时取消订阅并停止心跳
+ * - 客户端使用 EventSource 自动重连
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - Redis 订阅失败：503状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  countUnreadNotifications,
+  subscribeNotifications,
+  type NotificationEvent,
+} from '@/lib/notification-stream';
+import { withRateLimit } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// 心跳间隔（毫秒）
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+async function handleGet(request: NextRequest) {
+  const session = await getApiSession(request, 'read');
+  if (!session?.user || !session.user.id) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: '未登录',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const userId = BigInt(session.user.id);
+  const encoder = new TextEncoder();
+
+  let streamController: ReadableStreamDefaultController<Uint8Array> | null =
+    null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const send = (event: NotificationEvent) => {
+    if (closed || !streamController) return;
+    const { type, ...data } = event;
+    streamController.enqueue(
+      encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+    );
+  };
+
+  let unsubscribe: () => Promise<void>;
+  let unreadCount: number;
+  try {
+    unsubscribe = await subscribeNotifications(userId, send);
+    unreadCount = await countUnreadNotifications(userId).catch(
+      async (error) => {
+        await unsubscribe();
+        throw error;
+      }
+    );
+  } catch (error) {
+    console.error('订阅通知失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SERVICE_UNAVAILABLE',
+          message: '通知推送暂不可用',
+        },
+      },
+      { status: 503 }
+    );
+  }
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      streamController = controller;
+
+      send({ type: 'unread', unreadCount });
+
+      heartbeat = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        }
+      }, HEARTBEAT_INTERVAL);
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // 流已关闭
+        }
+      });
+
+      if (request.signal.aborted) {
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,67 @@
+/**
+ * 未读数 API 路由 - 获取当前用户的未读通知数量
+ *
+ * 主要功能：
+ * 1. 返回未读通知总数
+ * 2. 返回按通知类型分组的未读数
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const groups = await prisma.notification.groupBy({
+      by: ['type'],
+      where: { userId: BigInt(session.user.id), isRead: false },
+      _count: { _all: true },
+    });
+
+    const byType = Object.fromEntries(
+      groups.map((group) => [group.type, group._count._all])
+    );
+    const unreadCount = groups.reduce(
+      (total, group) => total + group._count._all,
+      0
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { unreadCount, byType },
+    });
+  } catch (error) {
+    console.error('获取未读通知数失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取未读通知数失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
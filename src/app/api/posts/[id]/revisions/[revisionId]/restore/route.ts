@@ -0,0 +1,198 @@
+/**
+ * 恢复历史版本 API 路由 - 将文章恢复为指定的修订版本
+ *
+ * 主要功能：
+ * 1. 恢复前保存当前版本快照（恢复操作本身可撤销）
+ * 2. 用修订版本的标题、摘要和内容覆盖当前文章
+ * 3. 重新计算字数和阅读时间
+ *
+ * 说明：
+ * - 恢复不修改文章别名，保持已有链接可用
+ * - 恢复不改变发布状态、分类和标签
+ *
+ * 权限控制：
+ * - 需要 post.edit 权限（默认文章作者或管理员）
+ * - 封禁或停用的账号不能恢复
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { prisma } from '@/lib/db';
+import { createPostRevision, formatRevision } from '@/lib/post-revisions';
+import { renderMarkdown } from '@/lib/markdown';
+import { syncMentions } from '@/lib/mentions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'posts:write');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id, revisionId } = await params;
+
+    let postId: bigint;
+    let revisionIdValue: bigint;
+    try {
+      postId = BigInt(id);
+      revisionIdValue = BigInt(revisionId);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingPost = await prisma.post.findFirst({
+      where: { id: postId, deletedAt: null },
+    });
+
+    if (!existingPost) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '文章不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, 'post.edit', { authorId: existingPost.authorId })) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限修改此文章',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const revision = await prisma.postRevision.findFirst({
+      where: { id: revisionIdValue, postId },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '历史版本不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const wordCount = revision.content.length;
+    const readingTime = Math.ceil(wordCount / 200);
+
+    const [snapshot, updatedPost] = await prisma.$transaction(async (tx) => {
+      // 先保存当前版本，使恢复操作同样可以撤销
+      const currentRevision = await createPostRevision(tx, existingPost);
+
+      const post = await tx.post.update({
+        where: { id: postId },
+        data: {
+          title: revision.title,
+          summary: revision.summary,
+          content: revision.content,
+          contentHtml: renderMarkdown(revision.content),
+          wordCount,
+          readingTime,
+          lastEditorId: BigInt(session.user.id),
+        },
+        include: {
+          author: { select: { id: true, username: true } },
+        },
+      });
+
+      return [currentRevision, post];
+    });
+
+    // 已发布的文章同步恢复后正文中的提及
+    if (updatedPost.status === 'PUBLISHED' && updatedPost.author) {
+      await syncMentions({
+        postId,
+        content: updatedPost.content,
+        actor: updatedPost.author,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        post: {
+          ...updatedPost,
+          id: updatedPost.id.toString(),
+          authorId: updatedPost.authorId.toString(),
+          lastEditorId: updatedPost.lastEditorId?.toString() ?? null,
+          author: updatedPost.author
+            ? {
+                ...updatedPost.author,
+                id: updatedPost.author.id.toString(),
+              }
+            : null,
+        },
+        revision: formatRevision(snapshot),
+      },
+      message: '已恢复到所选版本',
+    });
+  } catch (error) {
+    console.error('恢复历史版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '恢复历史版本失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
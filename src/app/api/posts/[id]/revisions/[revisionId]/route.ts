@@ -0,0 +1,136 @@
+/**
+ * 单个修订版本 API 路由 - 获取某个历史版本的完整内容
+ *
+ * 权限控制：
+ * - 需要 post.edit 权限（默认文章作者或管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 文章或版本不存在：404状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { formatRevision } from '@/lib/post-revisions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id, revisionId } = await params;
+
+    let postId: bigint;
+    let revisionIdValue: bigint;
+    try {
+      postId = BigInt(id);
+      revisionIdValue = BigInt(revisionId);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findFirst({
+      where: { id: postId, deletedAt: null },
+      select: { id: true, authorId: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '文章不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, 'post.edit', { authorId: post.authorId })) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看此文章的历史版本',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const revision = await prisma.postRevision.findFirst({
+      where: { id: revisionIdValue, postId },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '历史版本不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { revision: formatRevision(revision) },
+    });
+  } catch (error) {
+    console.error('获取历史版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取历史版本失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,207 @@
+/**
+ * 修订版本对比 API 路由 - 比较任意两个版本的差异
+ *
+ * 查询参数：
+ * - from：起始版本ID，或 current 表示当前版本
+ * - to：目标版本ID，或 current 表示当前版本（默认 current）
+ *
+ * 返回内容：
+ * - 标题变化
+ * - 摘要和内容的行级差异
+ *
+ * 权限控制：
+ * - 需要 post.edit 权限（默认文章作者或管理员）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { diffLines } from '@/lib/diff';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const CURRENT_VERSION = 'current';
+
+const diffQuerySchema = z.object({
+  from: z.string().regex(/^(\d+|current)$/, '版本参数无效'),
+  to: z
+    .string()
+    .regex(/^(\d+|current)$/, '版本参数无效')
+    .nullable()
+    .transform((val) => val ?? CURRENT_VERSION),
+});
+
+interface VersionSnapshot {
+  id: string;
+  title: string;
+  summary: string | null;
+  content: string;
+  createdAt: Date;
+}
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let postId: bigint;
+    try {
+      postId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '文章ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = diffQuerySchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    const post = await prisma.post.findFirst({
+      where: { id: postId, deletedAt: null },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '文章不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, 'post.edit', { authorId: post.authorId })) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看此文章的历史版本',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 加载版本快照，current 表示文章当前内容
+    const loadVersion = async (
+      version: string
+    ): Promise<VersionSnapshot | null> => {
+      if (version === CURRENT_VERSION) {
+        return {
+          id: CURRENT_VERSION,
+          title: post.title,
+          summary: post.summary,
+          content: post.content,
+          createdAt: post.updatedAt,
+        };
+      }
+
+      const revision = await prisma.postRevision.findFirst({
+        where: { id: BigInt(version), postId },
+      });
+
+      return revision
+        ? {
+            id: revision.id.toString(),
+            title: revision.title,
+            summary: revision.summary,
+            content: revision.content,
+            createdAt: revision.createdAt,
+          }
+        : null;
+    };
+
+    const [from, to] = await Promise.all([
+      loadVersion(query.from),
+      loadVersion(query.to),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '历史版本不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: { id: from.id, title: from.title, createdAt: from.createdAt },
+        to: { id: to.id, title: to.title, createdAt: to.createdAt },
+        title: {
+          from: from.title,
+          to: to.title,
+          changed: from.title !== to.title,
+        },
+        summary: diffLines(from.summary || '', to.summary || ''),
+        content: diffLines(from.content, to.content),
+      },
+    });
+  } catch (error) {
+    console.error('比较历史版本失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '查询参数验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '比较历史版本失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,147 @@
+/**
+ * 文章修订历史 API 路由 - 获取文章的历史版本列表
+ *
+ * 主要功能：
+ * 1. 分页获取文章的修订记录
+ * 2. 包含编辑者信息
+ * 3. 按时间倒序排列
+ *
+ * 权限控制：
+ * - 需要 post.edit 权限（默认文章作者或管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 文章不存在：404状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { formatRevision } from '@/lib/post-revisions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let postId: bigint;
+    try {
+      postId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '文章ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findFirst({
+      where: { id: postId, deletedAt: null },
+      select: { id: true, authorId: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '文章不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!can(session.user, 'post.edit', { authorId: post.authorId })) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看此文章的历史版本',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || 20, 1),
+      50
+    );
+
+    const [revisions, total] = await Promise.all([
+      prisma.postRevision.findMany({
+        where: { postId },
+        include: {
+          editor: {
+            select: {
+              id: true,
+              username: true,
+              avatarUrl: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.postRevision.count({ where: { postId } }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        revisions: revisions.map(formatRevision),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取文章历史版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取文章历史版本失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
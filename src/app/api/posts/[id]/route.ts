@@ -27,9 +27,12 @@
  * - 更新文章基本信息
  * - 智能处理标签关联
  * - 自动重新计算字数和阅读时间
- * - 处理发布状态变更
+ * - 内容变化时重新渲染 contentHtml
+ * - 处理发布状态变更（含定时发布、取消定时）
  * - 更新分类文章统计
  * - 生成新的SEO友好URL
+ * - 标题、摘要或内容变化时保存修订快照
+ * - 设置文章的评论审核模式（为空时使用站点设置）
  *
  * DELETE功能：
  * - 软删除文章（设置deletedAt）
@@ -44,17 +47,20 @@
  * - 文章摘要：可选文本
  * - 分类ID：可选数字，可为null
  * - 标签：可选字符串数组
- * - 状态：DRAFT、PUBLISHED或ARCHIVED
+ * - 状态：DRAFT、SCHEDULED、PUBLISHED或ARCHIVED
+ * - 定时发布：SCHEDULED 状态必须提供未来的 publishAt
  * - 特色图片：可选URL，可为null
  *
  * 权限控制：
  * - GET：所有人可访问已发布文章
- * - PUT：仅作者或管理员可更新
- * - DELETE：仅作者或管理员可删除
+ * - PUT：需要 post.edit 权限（默认作者本人或管理员），改为发布或定时发布还需要 post.publish 权限
+ * - DELETE：需要 post.delete 权限（默认作者本人或管理员）
  *
  * 错误处理：
  * - 未授权：401状态码，未登录提示
  * - 权限不足：403状态码，无权限提示
+ * - 账号被封禁或停用：403状态码
+ * - 未验证邮箱（按配置）不能发布：403状态码
  * - 文章不存在：404状态码，不存在提示
  * - 验证错误：400状态码，详细错误信息
  * - 服务器错误：500状态码，通用错误信息
@@ -76,10 +82,22 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { getEmailVerificationBlock } from '@/lib/email-verification';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import slugify from 'slugify';
+import { createPostRevision, hasRevisionChanges } from '@/lib/post-revisions';
+import { renderMarkdown } from '@/lib/markdown';
+import { syncMentions } from '@/lib/mentions';
+import {
+  decrementPostCounters,
+  incrementPostCounters,
+  isCountedStatus,
+} from '@/lib/post-counters';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const updatePostSchema = z
   .object({
@@ -88,8 +106,13 @@ const updatePostSchema = z
     summary: z.string().optional(),
     categoryId: z.number().nullable().optional(),
     tags: z.array(z.string()).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+    status: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']).optional(),
+    publishAt: z.coerce.date().optional(),
     featuredImage: z.string().nullable().optional(),
+    commentModeration: z
+      .enum(['AUTO', 'FIRST_TIME', 'ALL'])
+      .nullable()
+      .optional(),
   })
   .refine(
     (data) => {
@@ -97,8 +120,8 @@ const updatePostSchema = z
       if (data.status === 'DRAFT') {
         return true; // 草稿允许任何内容
       }
-      // 对于发布，如果提供了标题或内容，都不能为空
-      if (data.status === 'PUBLISHED') {
+      // 对于发布和定时发布，如果提供了标题或内容，都不能为空
+      if (data.status === 'PUBLISHED' || data.status === 'SCHEDULED') {
         if (data.title !== undefined && !data.title.trim()) {
           return false;
         }
@@ -111,9 +134,19 @@ const updatePostSchema = z
     {
       message: '发布文章的标题和内容不能为空',
     }
+  )
+  .refine(
+    (data) =>
+      data.publishAt !== undefined
+        ? data.publishAt > new Date()
+        : data.status !== 'SCHEDULED',
+    {
+      message: '定时发布需要设置一个未来的发布时间',
+      path: ['publishAt'],
+    }
   );
 
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -151,7 +184,7 @@ export async function GET(
     }
 
     // 获取当前用户会话
-    const session = await auth();
+    const session = await getApiSession(request, 'read');
 
     // 构建查询条件：已发布的文章任何人都可以查看，草稿只有作者可以查看
     const post = await prisma.post.findFirst({
@@ -162,7 +195,7 @@ export async function GET(
             OR: [
               { status: 'PUBLISHED' },
               {
-                status: 'DRAFT',
+                status: { in: ['DRAFT', 'SCHEDULED'] },
                 authorId: BigInt(session.user.id),
               },
             ],
@@ -233,6 +266,7 @@ export async function GET(
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       author: post.author
         ? {
             ...post.author,
@@ -264,12 +298,14 @@ export async function GET(
   }
 }
 
-export async function PUT(
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePut(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'posts:write');
     if (!session?.user || !session.user.id) {
       return NextResponse.json(
         {
@@ -283,6 +319,21 @@ export async function PUT(
       );
     }
 
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     const { id } = await params;
     // 验证 id 参数
     if (!id || id === 'undefined' || id === 'null') {
@@ -342,10 +393,7 @@ export async function PUT(
       );
     }
 
-    if (
-      existingPost.authorId.toString() !== session.user.id &&
-      session.user.role !== 'ADMIN'
-    ) {
+    if (!can(session.user, 'post.edit', { authorId: existingPost.authorId })) {
       return NextResponse.json(
         {
           success: false,
@@ -358,6 +406,39 @@ export async function PUT(
       );
     }
 
+    // 按配置要求验证邮箱后才能发布
+    if (
+      (data.status === 'PUBLISHED' || data.status === 'SCHEDULED') &&
+      data.status !== existingPost.status
+    ) {
+      if (!can(session.user, 'post.publish')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: '无权限发布文章',
+            },
+          },
+          { status: 403 }
+        );
+      }
+
+      const verificationBlock = await getEmailVerificationBlock(
+        BigInt(session.user.id),
+        'publish'
+      );
+      if (verificationBlock) {
+        return NextResponse.json(
+          { success: false, error: verificationBlock },
+          { status: 403 }
+        );
+      }
+    }
+
+    // 标题、摘要或内容变化时保存旧版本快照，便于查看历史和恢复
+    const hasChanges = hasRevisionChanges(existingPost, data);
+
     // 处理slug更新
     let slug = existingPost.slug;
     if (data.title && data.title !== existingPost.title) {
@@ -390,15 +471,19 @@ export async function PUT(
     const updateData: {
       title?: string;
       content?: string;
+      contentHtml?: string;
       summary?: string;
       categoryId?: number | null;
-      status?: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+      status?: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
       featuredImage?: string | null;
+      commentModeration?: 'AUTO' | 'FIRST_TIME' | 'ALL' | null;
       slug: string;
       wordCount: number;
       readingTime: number;
       updatedAt: Date;
       publishedAt?: Date;
+      publishAt?: Date | null;
+      lastEditorId?: bigint;
     } = {
       ...data,
       slug,
@@ -407,31 +492,68 @@ export async function PUT(
       updatedAt: new Date(),
     };
 
-    // 如果状态从DRAFT变为PUBLISHED，设置发布时间
-    if (data.status === 'PUBLISHED' && existingPost.status === 'DRAFT') {
+    // 内容变化时重新生成 HTML
+    if (data.content !== undefined) {
+      updateData.contentHtml = renderMarkdown(content);
+    }
+
+    // 记录新版本内容的编写者，下次修改时作为快照的编写者
+    if (hasChanges) {
+      updateData.lastEditorId = BigInt(session.user.id);
+    }
+
+    // 如果状态从DRAFT或SCHEDULED变为PUBLISHED，设置发布时间
+    if (
+      data.status === 'PUBLISHED' &&
+      (existingPost.status === 'DRAFT' || existingPost.status === 'SCHEDULED')
+    ) {
       updateData.publishedAt = new Date();
     }
 
-    const updatedPost = await prisma.post.update({
-      where: { id: postId },
-      data: updateData,
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            avatarUrl: true,
+    // 离开定时发布状态（取消定时或直接发布）时清除定时发布时间
+    const nextStatus = data.status ?? existingPost.status;
+    if (nextStatus !== 'SCHEDULED') {
+      updateData.publishAt = null;
+    }
+
+    // 定时文章不计入统计：进入定时状态时先扣除原有计数
+    const wasCounted = isCountedStatus(existingPost.status);
+    const isCounted = isCountedStatus(nextStatus);
+    if (wasCounted && !isCounted) {
+      await decrementPostCounters(prisma, {
+        authorId: existingPost.authorId,
+        categoryId: existingPost.categoryId,
+        tagIds: existingPost.tags.map((tag) => tag.tagId),
+      });
+    }
+
+    // 快照和更新在同一事务中完成，更新失败时不留下多余的快照
+    const updatedPost = await prisma.$transaction(async (tx) => {
+      if (hasChanges) {
+        await createPostRevision(tx, existingPost);
+      }
+
+      return tx.post.update({
+        where: { id: postId },
+        data: updateData,
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              avatarUrl: true,
+            },
           },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            color: true,
+          category: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              color: true,
+            },
           },
         },
-      },
+      });
     });
 
     // 处理标签更新
@@ -442,11 +564,13 @@ export async function PUT(
       });
 
       // 更新原标签的文章数量
-      for (const existingTag of existingPost.tags) {
-        await prisma.tag.update({
-          where: { id: existingTag.tagId },
-          data: { postsCount: { decrement: 1 } },
-        });
+      if (wasCounted && isCounted) {
+        for (const existingTag of existingPost.tags) {
+          await prisma.tag.update({
+            where: { id: existingTag.tagId },
+            data: { postsCount: { decrement: 1 } },
+          });
+        }
       }
 
       // 添加新标签关联
@@ -472,16 +596,18 @@ export async function PUT(
             },
           });
 
-          await prisma.tag.update({
-            where: { id: tag.id },
-            data: { postsCount: { increment: 1 } },
-          });
+          if (wasCounted && isCounted) {
+            await prisma.tag.update({
+              where: { id: tag.id },
+              data: { postsCount: { increment: 1 } },
+            });
+          }
         }
       }
     }
 
     // 处理分类更新
-    if (data.categoryId !== undefined) {
+    if (data.categoryId !== undefined && wasCounted && isCounted) {
       if (
         existingPost.categoryId &&
         existingPost.categoryId !== data.categoryId
@@ -500,11 +626,34 @@ export async function PUT(
       }
     }
 
+    // 离开定时状态（取消定时或直接发布）时按最新的分类和标签计入统计
+    if (!wasCounted && isCounted) {
+      const currentTags = await prisma.postTag.findMany({
+        where: { postId },
+        select: { tagId: true },
+      });
+      await incrementPostCounters(prisma, {
+        authorId: updatedPost.authorId,
+        categoryId: updatedPost.categoryId,
+        tagIds: currentTags.map((tag) => tag.tagId),
+      });
+    }
+
+    // 已发布的文章同步正文中的提及
+    if (updatedPost.status === 'PUBLISHED' && updatedPost.author) {
+      await syncMentions({
+        postId,
+        content: updatedPost.content,
+        actor: updatedPost.author,
+      });
+    }
+
     // 处理BigInt序列化
     const formattedPost = {
       ...updatedPost,
       id: updatedPost.id.toString(),
       authorId: updatedPost.authorId.toString(),
+      lastEditorId: updatedPost.lastEditorId?.toString() ?? null,
       author: updatedPost.author
         ? {
             ...updatedPost.author,
@@ -548,12 +697,14 @@ export async function PUT(
   }
 }
 
-export async function DELETE(
+export const PUT = withRateLimit('write', handlePut);
+
+async function handleDelete(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'posts:write');
     if (!session?.user || !session.user.id) {
       return NextResponse.json(
         {
@@ -567,6 +718,21 @@ export async function DELETE(
       );
     }
 
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     const { id } = await params;
     // 验证 id 参数
     if (!id || id === 'undefined' || id === 'null') {
@@ -624,8 +790,7 @@ export async function DELETE(
     }
 
     if (
-      existingPost.authorId.toString() !== session.user.id &&
-      session.user.role !== 'ADMIN'
+      !can(session.user, 'post.delete', { authorId: existingPost.authorId })
     ) {
       return NextResponse.json(
         {
@@ -645,32 +810,20 @@ export async function DELETE(
       data: { deletedAt: new Date() },
     });
 
-    // 删除标签关联并更新标签计数
+    // 删除标签关联
     await prisma.postTag.deleteMany({
       where: { postId },
     });
 
-    for (const tag of existingPost.tags) {
-      await prisma.tag.update({
-        where: { id: tag.tagId },
-        data: { postsCount: { decrement: 1 } },
+    // 更新标签、分类和用户的文章数量（未发布的定时文章未计入统计）
+    if (isCountedStatus(existingPost.status)) {
+      await decrementPostCounters(prisma, {
+        authorId: existingPost.authorId,
+        categoryId: existingPost.categoryId,
+        tagIds: existingPost.tags.map((tag) => tag.tagId),
       });
     }
 
-    // 更新分类文章数量
-    if (existingPost.categoryId) {
-      await prisma.category.update({
-        where: { id: existingPost.categoryId },
-        data: { postsCount: { decrement: 1 } },
-      });
-    }
-
-    // 更新用户文章数量
-    await prisma.userProfile.update({
-      where: { userId: existingPost.authorId },
-      data: { postsCount: { decrement: 1 } },
-    });
-
     return NextResponse.json({
       success: true,
       message: '文章删除成功',
@@ -689,3 +842,5 @@ export async function DELETE(
     );
   }
 }
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,84 @@
+/**
+ * 文章预览 API 路由 - 编辑器预览时在服务端渲染 Markdown
+ *
+ * 支持的HTTP方法：
+ * - POST: 将 Markdown 正文渲染为清洗后的 HTML，不保存
+ *
+ * 验证规则：
+ * - content：Markdown 正文
+ *
+ * 设计说明：
+ * - 与保存文章时生成 contentHtml 使用同一渲染管线，预览与发布后的显示一致
+ * - 渲染器只在服务端加载，不打包进编辑器的客户端代码
+ *
+ * 权限控制：
+ * - 需要登录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { renderMarkdown } from '@/lib/markdown';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const previewSchema = z.object({
+  content: z.string(),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'posts:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { content } = previewSchema.parse(await request.json());
+
+    return NextResponse.json({
+      success: true,
+      data: { html: renderMarkdown(content) },
+    });
+  } catch (error) {
+    console.error('渲染文章预览失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '渲染文章预览失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
@@ -4,20 +4,22 @@
  * 主要功能：
  * 1. 获取文章列表（支持分页、筛选、搜索）
  * 2. 创建新文章（包含标签和分类管理）
- * 3. 文章状态管理（草稿、已发布）
+ * 3. 文章状态管理（草稿、定时发布、已发布）
  * 4. 字数统计和阅读时间计算
- * 5. SEO友好的URL别名生成
+ * 5. 服务端渲染 Markdown 生成 contentHtml
+ * 6. SEO友好的URL别名生成
  *
  * 安全特性：
  * - 身份验证检查（需要登录才能创建）
  * - Zod 数据验证（防止无效数据）
  * - 别名唯一性检查（避免冲突）
- * - 权限控制（作者和管理员）
+ * - 权限控制（创建需要 post.create 权限，直接发布或定时发布还需要 post.publish 权限）
  * - 软删除机制（数据安全）
  *
  * 查询功能：
  * - 支持分页查询（page、limit）
- * - 按状态筛选（DRAFT、PUBLISHED、ARCHIVED）
+ * - 按状态筛选（DRAFT、SCHEDULED、PUBLISHED、ARCHIVED），
+ *   未发布的文章只返回当前用户自己的，拥有 post.edit.any 权限时返回全部
  * - 按分类筛选（categoryId）
  * - 按作者筛选（authorId）
  * - 全文搜索（标题、内容、摘要）
@@ -29,7 +31,8 @@
  * - 文章摘要：可选文本
  * - 分类ID：可选数字
  * - 标签：可选字符串数组
- * - 状态：DRAFT或PUBLISHED，默认DRAFT
+ * - 状态：DRAFT、SCHEDULED或PUBLISHED，默认DRAFT
+ * - 定时发布：SCHEDULED 状态必须提供未来的 publishAt
  * - 特色图片：可选URL
  *
  * 数据库操作：
@@ -42,6 +45,9 @@
  *
  * 错误处理：
  * - 未授权：401状态码，未登录提示
+ * - 无创建或发布权限：403状态码
+ * - 账号被封禁或停用：403状态码
+ * - 未验证邮箱（按配置）不能发布：403状态码
  * - 验证错误：400状态码，详细错误信息
  * - 服务器错误：500状态码，通用错误信息
  *
@@ -55,11 +61,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { getEmailVerificationBlock } from '@/lib/email-verification';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import slugify from 'slugify';
 import { PostStatus, Prisma } from '@prisma/client';
+import { incrementPostCounters, isCountedStatus } from '@/lib/post-counters';
+import { renderMarkdown } from '@/lib/markdown';
+import { syncMentions } from '@/lib/mentions';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // 文章创建验证schema
 const createPostSchema = z
@@ -69,7 +82,8 @@ const createPostSchema = z
     summary: z.string().optional(),
     categoryId: z.number().optional(),
     tags: z.array(z.string()).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED']).default('DRAFT'),
+    status: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED']).default('DRAFT'),
+    publishAt: z.coerce.date().optional(),
     featuredImage: z.string().optional(),
   })
   .refine(
@@ -78,13 +92,22 @@ const createPostSchema = z
       if (data.status === 'DRAFT') {
         return data.title?.trim() || data.content?.trim();
       }
-      // 对于发布，标题和内容都不能为空
+      // 对于发布和定时发布，标题和内容都不能为空
       return data.title?.trim() && data.content?.trim();
     },
     {
       message:
         '草稿需要标题或内容其中一个不为空，发布文章需要标题和内容都不为空',
     }
+  )
+  .refine(
+    (data) =>
+      data.status !== 'SCHEDULED' ||
+      (data.publishAt !== undefined && data.publishAt > new Date()),
+    {
+      message: '定时发布需要设置一个未来的发布时间',
+      path: ['publishAt'],
+    }
   );
 
 // 文章查询参数schema
@@ -158,7 +181,7 @@ type PostWithRelations = Prisma.PostGetPayload<{
   };
 }>;
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = querySchema.parse({
@@ -172,11 +195,26 @@ export async function GET(request: NextRequest) {
 
     const skip = (query.page - 1) * query.limit;
 
+    // 获取当前用户会话
+    const session = await getApiSession(request, 'read');
+
     // 构建查询条件
     const where: Prisma.PostWhereInput = {
       deletedAt: null,
     };
 
+    // 已发布的文章任何人都可以查看，未发布的文章只有作者或能编辑所有文章的用户可以查看
+    if (!can(session?.user, 'post.edit.any')) {
+      where.AND = session?.user?.id
+        ? {
+            OR: [
+              { status: 'PUBLISHED' },
+              { authorId: BigInt(session.user.id) },
+            ],
+          }
+        : { status: 'PUBLISHED' };
+    }
+
     if (query.status) {
       where.status = query.status;
     }
@@ -236,9 +274,11 @@ export async function GET(request: NextRequest) {
             },
           },
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
+        // 定时文章按发布时间先后排列，其余按创建时间倒序
+        orderBy:
+          query.status === 'SCHEDULED'
+            ? { publishAt: 'asc' }
+            : { createdAt: 'desc' },
         skip,
         take: query.limit,
       }),
@@ -250,6 +290,7 @@ export async function GET(request: NextRequest) {
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       author: post.author
         ? {
             ...post.author,
@@ -304,9 +345,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'posts:write');
     if (!session?.user || !session.user.id) {
       return NextResponse.json(
         {
@@ -323,6 +366,32 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createPostSchema.parse(body);
 
+    if (!can(session.user, 'post.create')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限创建文章',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (data.status !== 'DRAFT' && !can(session.user, 'post.publish')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限发布文章',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     // 验证并转换用户ID
     let authorId: bigint;
     try {
@@ -340,6 +409,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(authorId);
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 按配置要求验证邮箱后才能发布
+    if (data.status !== 'DRAFT') {
+      const verificationBlock = await getEmailVerificationBlock(
+        authorId,
+        'publish'
+      );
+      if (verificationBlock) {
+        return NextResponse.json(
+          { success: false, error: verificationBlock },
+          { status: 403 }
+        );
+      }
+    }
+
     // 生成唯一的slug
     const title = data.title?.trim() || '';
     const content = data.content?.trim() || '';
@@ -374,6 +472,7 @@ export async function POST(request: NextRequest) {
         title: title || displayTitle,
         slug,
         content: content,
+        contentHtml: renderMarkdown(content),
         summary: data.summary,
         status: data.status,
         featuredImage: data.featuredImage,
@@ -382,6 +481,7 @@ export async function POST(request: NextRequest) {
         authorId,
         categoryId: data.categoryId,
         publishedAt: data.status === 'PUBLISHED' ? new Date() : null,
+        publishAt: data.status === 'SCHEDULED' ? data.publishAt : null,
       },
       include: {
         author: {
@@ -403,6 +503,7 @@ export async function POST(request: NextRequest) {
     });
 
     // 处理标签
+    const tagIds: number[] = [];
     if (data.tags && data.tags.length > 0) {
       for (const tagName of data.tags) {
         // 查找或创建标签
@@ -427,37 +528,34 @@ export async function POST(request: NextRequest) {
           },
         });
 
-        // 更新标签文章数量
-        await prisma.tag.update({
-          where: { id: tag.id },
-          data: { postsCount: { increment: 1 } },
-        });
+        tagIds.push(tag.id);
       }
     }
 
-    // 更新分类文章数量
-    if (data.categoryId) {
-      await prisma.category.update({
-        where: { id: data.categoryId },
-        data: { postsCount: { increment: 1 } },
+    // 更新标签、分类和用户的文章数量（定时文章在发布时再计入）
+    if (isCountedStatus(data.status)) {
+      await incrementPostCounters(prisma, {
+        authorId,
+        categoryId: data.categoryId ?? null,
+        tagIds,
       });
     }
 
-    // 更新用户文章数量
-    await prisma.userProfile.upsert({
-      where: { userId: authorId },
-      update: { postsCount: { increment: 1 } },
-      create: {
-        userId: authorId,
-        postsCount: 1,
-      },
-    });
+    // 直接发布的文章同步正文中的提及
+    if (post.status === 'PUBLISHED' && post.author) {
+      await syncMentions({
+        postId: post.id,
+        content: post.content,
+        actor: post.author,
+      });
+    }
 
     // 处理BigInt序列化
     const formattedPost = {
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       author: post.author
         ? {
             ...post.author,
@@ -503,3 +601,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('write', handlePost);
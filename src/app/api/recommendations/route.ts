@@ -26,6 +26,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // 推荐参数验证
 const recommendationSchema = z.object({
@@ -613,7 +614,7 @@ async function getPopularRecommendations(
   }));
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = recommendationSchema.parse({
@@ -765,6 +766,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withRateLimit('read', handleGet);
+
 // 将算法字符串映射到 Prisma 枚举值
 function getRecommendationTypeEnum(
   algorithm: string
@@ -0,0 +1,269 @@
+/**
+ * 举报处理 API 路由 - 管理员处理举报案件
+ *
+ * 支持的HTTP方法：
+ * - POST: 处理举报（驳回、隐藏内容或封禁作者），同一对象的待处理举报一并关闭
+ *
+ * 验证规则：
+ * - action：DISMISS、HIDE 或 BAN_USER
+ * - note：处理备注，最多 500 字
+ *
+ * 业务规则：
+ * - 只能处理待处理的举报
+ * - 用户举报不能隐藏内容，只能驳回或封禁
+ * - 不能封禁权限不低于自己的用户（如管理员之间）
+ * - 每次处理都写入管理操作日志
+ *
+ * 权限控制：
+ * - 需要 report.handle 权限（默认仅管理员）
+ * - 隐藏或封禁时还需要处置对象的权限：评论需要 comment.moderate.any，
+ *   文章需要 post.delete.any，封禁作者需要 user.ban
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足或缺少处置对象的权限：403状态码
+ * - 举报不存在：404状态码
+ * - 举报已处理：409状态码
+ * - ID格式无效或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ReportTargetType, Role } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  Permission,
+  can,
+  normalizePermissions,
+  outranks,
+  permissionLabels,
+} from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { resolveReport } from '@/lib/reports';
+import { withRateLimit } from '@/lib/rate-limit';
+
+// 解除封禁不属于举报处理，通过用户封禁接口操作
+const resolveSchema = z.object({
+  action: z.enum(['DISMISS', 'HIDE', 'BAN_USER']),
+  note: z.string().trim().max(500, '处理备注最多500字').optional(),
+});
+
+const actionMessages: Record<z.infer<typeof resolveSchema>['action'], string> =
+  {
+    DISMISS: '举报已驳回',
+    HIDE: '内容已隐藏',
+    BAN_USER: '作者已封禁',
+  };
+
+// 处理方式需要的处置权限，隐藏评论走评论审核流程，隐藏文章等同删除文章
+function requiredPermissions(
+  action: z.infer<typeof resolveSchema>['action'],
+  targetType: ReportTargetType
+) {
+  const required: Permission[] = [];
+  if (action !== 'DISMISS' && targetType === 'COMMENT') {
+    required.push('comment.moderate.any');
+  }
+  if (action !== 'DISMISS' && targetType === 'POST') {
+    required.push('post.delete.any');
+  }
+  if (action === 'BAN_USER') {
+    required.push('user.ban');
+  }
+  return required;
+}
+
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'report.handle')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限处理举报',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let reportId: bigint;
+    try {
+      reportId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '举报ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, note } = resolveSchema.parse(await request.json());
+
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '举报不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (report.status !== 'OPEN') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'REPORT_CLOSED',
+            message: '该举报已处理',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    if (action === 'HIDE' && report.targetType === 'USER') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ACTION',
+            message: '用户举报不能隐藏内容，请选择驳回或封禁',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const missing = requiredPermissions(action, report.targetType).find(
+      (permission) => !can(session.user, permission)
+    );
+    if (missing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `无权限执行该处理（需要${permissionLabels[missing]}权限）`,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (action === 'BAN_USER') {
+      const targetUser = await prisma.user.findUnique({
+        where: { id: report.targetUserId },
+        select: {
+          role: true,
+          customRole: { select: { permissions: true } },
+        },
+      });
+
+      if (
+        targetUser &&
+        !outranks(session.user, {
+          role: targetUser.role,
+          permissions: normalizePermissions(targetUser.customRole?.permissions),
+        })
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'CANNOT_BAN_PRIVILEGED',
+              message: '不能封禁权限不低于自己的用户',
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const log = await resolveReport({
+      report,
+      action,
+      note: note || undefined,
+      moderator: {
+        id: BigInt(session.user.id),
+        role: session.user.role as Role,
+        permissions: session.user.permissions,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        log: {
+          id: log.id.toString(),
+          action: log.action,
+          reportIds: log.reportIds,
+          createdAt: log.createdAt,
+        },
+      },
+      message: actionMessages[action],
+    });
+  } catch (error) {
+    console.error('处理举报失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '处理举报失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
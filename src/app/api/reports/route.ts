@@ -0,0 +1,309 @@
+/**
+ * 举报 API 路由 - 提交举报和管理员查询举报列表
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取举报列表（默认待处理），支持按状态、对象类型筛选和分页（需要 report.handle 权限）
+ * - POST: 举报文章、评论或用户（登录用户）
+ *
+ * 验证规则：
+ * - targetType：POST、COMMENT 或 USER
+ * - reason：举报原因枚举
+ * - details：补充说明，最多 1000 字
+ *
+ * 业务规则：
+ * - 只能举报已发布的文章、公开的评论和存在的用户
+ * - 不能举报自己或自己的内容
+ * - 同一对象的举报处理前不能重复提交
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 举报对象不存在：404状态码
+ * - 重复举报：409状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ReportReason, ReportStatus, ReportTargetType } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { findReportTarget, getReportTargetSummaries } from '@/lib/reports';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const createReportSchema = z.object({
+  targetType: z.nativeEnum(ReportTargetType),
+  targetId: z
+    .union([z.string().regex(/^\d+$/, '无效的对象ID'), z.number().int()])
+    .transform((val) => BigInt(val)),
+  reason: z.nativeEnum(ReportReason),
+  details: z.string().trim().max(1000, '补充说明最多1000字').optional(),
+});
+
+const querySchema = z.object({
+  status: z.nativeEnum(ReportStatus).default('OPEN'),
+  targetType: z.nativeEnum(ReportTargetType).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'report.handle')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看举报',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status, targetType, page, limit } = querySchema.parse({
+      status: searchParams.get('status') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const where = { status, ...(targetType ? { targetType } : {}) };
+
+    const [reports, total] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        include: {
+          reporter: { select: { id: true, username: true } },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.report.count({ where }),
+    ]);
+
+    const summaries = await getReportTargetSummaries(reports);
+
+    // 同一对象的待处理举报数量，便于判断案件严重程度
+    const openCounts = await prisma.report.groupBy({
+      by: ['targetType', 'targetId'],
+      where: {
+        status: 'OPEN',
+        OR: reports.map((report) => ({
+          targetType: report.targetType,
+          targetId: report.targetId,
+        })),
+      },
+      _count: { _all: true },
+    });
+    const openCountOf = (report: (typeof reports)[number]) =>
+      openCounts.find(
+        (item) =>
+          item.targetType === report.targetType &&
+          item.targetId === report.targetId
+      )?._count._all ?? 0;
+
+    const serializedReports = reports.map((report) => ({
+      id: report.id.toString(),
+      targetType: report.targetType,
+      targetId: report.targetId.toString(),
+      targetUserId: report.targetUserId.toString(),
+      reason: report.reason,
+      details: report.details,
+      status: report.status,
+      createdAt: report.createdAt,
+      resolvedAt: report.resolvedAt,
+      openReports: openCountOf(report),
+      target: summaries.get(`${report.targetType}:${report.targetId}`) ?? null,
+      reporter: report.reporter
+        ? { ...report.reporter, id: report.reporter.id.toString() }
+        : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reports: serializedReports,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取举报列表失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取举报列表失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'social:write');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { targetType, targetId, reason, details } = createReportSchema.parse(
+      await request.json()
+    );
+    const reporterId = BigInt(session.user.id);
+
+    const target = await findReportTarget(targetType, targetId);
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '举报对象不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (target.ownerId === reporterId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_REPORT_SELF',
+            message: '不能举报自己或自己的内容',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.report.findFirst({
+      where: { reporterId, targetType, targetId, status: 'OPEN' },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'DUPLICATE_REPORT',
+            message: '你已举报过该内容，请等待管理员处理',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const report = await prisma.report.create({
+      data: {
+        reporterId,
+        targetType,
+        targetId,
+        targetUserId: target.ownerId,
+        reason,
+        details: details || null,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          report: {
+            id: report.id.toString(),
+            targetType: report.targetType,
+            targetId: report.targetId.toString(),
+            reason: report.reason,
+            status: report.status,
+            createdAt: report.createdAt,
+          },
+        },
+        message: '举报已提交，感谢你的反馈',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('提交举报失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '提交举报失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
@@ -0,0 +1,142 @@
+/**
+ * 角色变更记录 API 路由 - 查询管理员修改用户角色的记录
+ *
+ * 查询参数：
+ * - userId：只查询指定用户的记录（可选）
+ * - page：页码，默认 1
+ * - limit：每页数量，默认 20，最大 50
+ *
+ * 权限控制：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const querySchema = z.object({
+  userId: z
+    .string()
+    .regex(/^\d+$/, '无效的用户ID')
+    .transform((val) => BigInt(val))
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看角色变更记录',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { userId, page, limit } = querySchema.parse({
+      userId: searchParams.get('userId') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const where = userId ? { userId } : {};
+
+    const [logs, total] = await Promise.all([
+      prisma.roleChangeLog.findMany({
+        where,
+        include: {
+          user: { select: { id: true, username: true } },
+          operator: { select: { id: true, username: true } },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.roleChangeLog.count({ where }),
+    ]);
+
+    const serializedLogs = logs.map((log) => ({
+      id: log.id.toString(),
+      fromRole: log.fromRole,
+      toRole: log.toRole,
+      reason: log.reason,
+      applicationId: log.applicationId?.toString() || null,
+      createdAt: log.createdAt,
+      user: { ...log.user, id: log.user.id.toString() },
+      operator: log.operator
+        ? { ...log.operator, id: log.operator.id.toString() }
+        : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        logs: serializedLogs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('获取角色变更记录失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取角色变更记录失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -26,6 +26,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // 热门搜索参数验证
 const popularSchema = z.object({
@@ -80,7 +81,7 @@ function calculateTrend(
   return 'stable';
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = popularSchema.parse({
@@ -410,3 +411,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit('read', handleGet);
@@ -30,6 +30,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
 import { headers } from 'next/headers';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getApiSession } from '@/lib/api-auth';
 
 // 搜索参数验证schema
 const searchSchema = z.object({
@@ -198,7 +200,7 @@ async function logSearch(
   }
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const startTime = Date.now();
 
   try {
@@ -222,17 +224,9 @@ export async function GET(request: NextRequest) {
     const userAgent = headersList.get('user-agent');
     const ipAddress = getClientIP(request);
 
-    // 从授权头获取用户ID (如果已登录)
-    const userId: bigint | null = null;
-    try {
-      const authHeader = headersList.get('authorization');
-      if (authHeader) {
-        // 这里需要解析JWT token获取用户ID
-        // 暂时设为null，实际应用中需要实现JWT解析
-      }
-    } catch {
-      // 忽略认证错误
-    }
+    // 获取当前用户ID用于搜索日志（支持登录会话和访问令牌，未登录时为null）
+    const session = await getApiSession(request, 'read');
+    const userId = session?.user?.id ? BigInt(session.user.id) : null;
 
     // 构建基础查询条件
     const baseWhere: Record<string, unknown> = {
@@ -397,6 +391,7 @@ export async function GET(request: NextRequest) {
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       author: post.author
         ? {
             ...post.author,
@@ -479,3 +474,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit('read', handleGet);
@@ -25,6 +25,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 // 搜索建议参数验证
 const suggestionSchema = z.object({
@@ -103,7 +104,7 @@ function calculateSuggestionScore(
   return score;
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = suggestionSchema.parse({
@@ -357,3 +358,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit('read', handleGet);
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const statsSchema = z.object({
   postId: z.string().transform((val) => BigInt(val)),
 });
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const url = new URL(request.url);
     const { postId } = statsSchema.parse(Object.fromEntries(url.searchParams));
@@ -41,3 +42,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit('read', handleGet);
@@ -49,8 +49,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import slugify from 'slugify';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
 import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const createTagSchema = z.object({
   name: z.string().min(1, '标签名称不能为空').max(50, '标签名称最多50个字符'),
@@ -71,7 +72,7 @@ const querySchema = z.object({
     .default('20'),
 });
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const query = querySchema.parse({
@@ -127,9 +128,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'posts:write');
     if (!session?.user) {
       return NextResponse.json(
         {
@@ -206,3 +209,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('write', handlePost);
@@ -0,0 +1,182 @@
+/**
+ * 关闭两步验证 API 路由 - 校验密码和验证码后关闭两步验证
+ *
+ * 支持的HTTP方法：
+ * - POST: 关闭两步验证，删除密钥和全部恢复码
+ *
+ * 验证规则：
+ * - password：当前密码
+ * - code：身份验证器验证码或恢复码
+ *
+ * 业务规则：
+ * - 管理员要求当前角色必须启用两步验证时不能关闭
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 角色要求启用：403状态码
+ * - 未启用、未设置密码、密码错误、验证码错误或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import {
+  disableTwoFactor,
+  isTwoFactorRequiredFor,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const disableSchema = z.object({
+  password: z.string().min(1, '请输入当前密码'),
+  code: z.string().trim().min(1, '请输入验证码'),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { password, code } = disableSchema.parse(await request.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: {
+        id: true,
+        role: true,
+        passwordHash: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_ENABLED',
+            message: '两步验证未启用',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (await isTwoFactorRequiredFor(user.role)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'TWO_FACTOR_REQUIRED',
+            message: '当前角色必须启用两步验证，不能关闭',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 通过第三方账号注册的用户没有密码，需先通过找回密码设置
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PASSWORD_NOT_SET',
+            message: '账号尚未设置密码，请先通过找回密码设置',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    if (!isPasswordValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PASSWORD',
+            message: '当前密码错误',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyTwoFactorCode(user, code))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_CODE',
+            message: '验证码错误',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: '两步验证已关闭',
+    });
+  } catch (error) {
+    console.error('关闭两步验证失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '关闭两步验证失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
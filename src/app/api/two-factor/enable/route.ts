@@ -0,0 +1,102 @@
+/**
+ * 启用两步验证 API 路由 - 校验身份验证器中的验证码后启用
+ *
+ * 支持的HTTP方法：
+ * - POST: 校验验证码，启用两步验证并返回恢复码
+ *
+ * 验证规则：
+ * - code：身份验证器显示的 6 位验证码
+ *
+ * 业务规则：
+ * - 恢复码只在启用时返回一次，每个恢复码只能登录一次
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 未生成密钥、已启用、验证码错误或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { enableTwoFactor } from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const enableSchema = z.object({
+  code: z.string().trim().min(1, '请输入验证码'),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { code } = enableSchema.parse(await request.json());
+
+    const result = await enableTwoFactor(BigInt(session.user.id), code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            result.reason === 'NOT_PENDING'
+              ? {
+                  code: 'NOT_PENDING',
+                  message: '请先生成两步验证密钥',
+                }
+              : {
+                  code: 'INVALID_CODE',
+                  message: '验证码错误',
+                },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes: result.recoveryCodes },
+      message: '两步验证已启用',
+    });
+  } catch (error) {
+    console.error('启用两步验证失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '启用两步验证失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -0,0 +1,156 @@
+/**
+ * 两步验证策略 API 路由 - 管理员设置必须启用两步验证的角色
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取必须启用两步验证的角色
+ * - PUT: 更新必须启用两步验证的角色
+ *
+ * 验证规则：
+ * - requiredRoles：角色数组，可选 ADMIN、AUTHOR
+ *
+ * 业务规则：
+ * - 对应角色中未启用两步验证的用户，下次访问时会被引导到个人资料页完成绑定
+ * - 对应角色的用户不能关闭两步验证
+ *
+ * 权限控制：
+ * - 需要 security.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import {
+  TWO_FACTOR_ROLES,
+  getTwoFactorRequiredRoles,
+  setTwoFactorRequiredRoles,
+} from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const policySchema = z.object({
+  requiredRoles: z.array(z.enum(TWO_FACTOR_ROLES)),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'security.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限查看两步验证策略',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const requiredRoles = await getTwoFactorRequiredRoles();
+
+    return NextResponse.json({ success: true, data: { requiredRoles } });
+  } catch (error) {
+    console.error('获取两步验证策略失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取两步验证策略失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePut(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'security.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限修改两步验证策略',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { requiredRoles } = policySchema.parse(await request.json());
+
+    await setTwoFactorRequiredRoles(requiredRoles);
+
+    return NextResponse.json({
+      success: true,
+      data: { requiredRoles: await getTwoFactorRequiredRoles() },
+      message: '两步验证策略已更新',
+    });
+  } catch (error) {
+    console.error('更新两步验证策略失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '更新两步验证策略失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('write', handlePut);
@@ -0,0 +1,112 @@
+/**
+ * 两步验证恢复码 API 路由 - 重新生成恢复码
+ *
+ * 支持的HTTP方法：
+ * - POST: 校验验证码后重新生成恢复码，旧恢复码全部作废
+ *
+ * 验证规则：
+ * - code：身份验证器显示的 6 位验证码
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 未启用、验证码错误或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, '请输入验证码'),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { code } = regenerateSchema.parse(await request.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: { id: true, twoFactorSecret: true, twoFactorEnabledAt: true },
+    });
+
+    if (!user?.twoFactorEnabledAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_ENABLED',
+            message: '两步验证未启用',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyTwoFactorCode(user, code))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_CODE',
+            message: '验证码错误',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: '恢复码已重新生成，旧恢复码已失效',
+    });
+  } catch (error) {
+    console.error('重新生成恢复码失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '重新生成恢复码失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -0,0 +1,62 @@
+/**
+ * 两步验证状态 API 路由 - 查询当前账号的两步验证设置
+ *
+ * 支持的HTTP方法：
+ * - GET: 返回是否已启用、启用时间、剩余恢复码数量，以及当前角色是否必须启用
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { getTwoFactorStatus } from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const status = await getTwoFactorStatus(BigInt(session.user.id));
+    if (!status) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    console.error('获取两步验证状态失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取两步验证状态失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
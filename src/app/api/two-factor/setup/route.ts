@@ -0,0 +1,87 @@
+/**
+ * 两步验证绑定 API 路由 - 生成 TOTP 密钥和扫码二维码
+ *
+ * 支持的HTTP方法：
+ * - POST: 生成新的 TOTP 密钥，返回二维码（data URL）和手动输入的密钥
+ *
+ * 业务规则：
+ * - 密钥生成后处于待确认状态，提交验证码启用后才生效
+ * - 重复调用会生成新的密钥，之前未确认的密钥作废
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 已启用两步验证：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { beginTwoFactorSetup } from '@/lib/two-factor';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: { id: true, email: true, twoFactorEnabledAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ALREADY_ENABLED',
+            message: '两步验证已启用',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const setup = await beginTwoFactorSetup(user);
+
+    return NextResponse.json({ success: true, data: setup });
+  } catch (error) {
+    console.error('生成两步验证密钥失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '生成两步验证密钥失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
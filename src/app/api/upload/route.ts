@@ -42,6 +42,7 @@
  *
  * 错误处理：
  * - 未授权：401状态码，未登录提示
+ * - 账号被封禁或停用：403状态码
  * - 文件缺失：400状态码，文件选择提示
  * - 格式错误：400状态码，支持格式提示
  * - 大小超限：400状态码，大小限制提示
@@ -57,16 +58,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
+import { getAccountBlock } from '@/lib/user-status';
 import { put } from '@vercel/blob';
 import { nanoid } from 'nanoid';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'uploads:write');
     if (!session?.user) {
       return NextResponse.json(
         {
@@ -80,6 +83,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 封禁或停用的账号不能执行写操作
+    const block = await getAccountBlock(BigInt(session.user.id));
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -176,3 +194,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('upload', handlePost);
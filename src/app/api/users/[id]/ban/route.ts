@@ -0,0 +1,355 @@
+/**
+ * 用户封禁 API 路由 - 管理员封禁、暂停和解除封禁用户
+ *
+ * 支持的HTTP方法：
+ * - POST: 封禁用户，指定到期时间时为暂停使用，到期后自动恢复
+ * - DELETE: 解除封禁
+ *
+ * 验证规则：
+ * - reason：封禁原因，1-500 字
+ * - until：到期时间（ISO 格式，必须晚于当前时间），不填为永久封禁
+ *
+ * 业务规则：
+ * - 不能封禁自己，也不能封禁或解除封禁权限不低于自己的用户（如管理员之间）
+ * - 封禁立即生效，已登录的会话在下次请求时失效
+ * - 每次操作都写入管理操作日志
+ *
+ * 权限控制：
+ * - 需要 user.ban 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足：403状态码
+ * - 用户不存在：404状态码
+ * - ID格式无效、验证错误或封禁对象无效：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can, normalizePermissions, outranks } from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { banUser, unbanUser } from '@/lib/user-status';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const banSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, '请填写封禁原因')
+    .max(500, '封禁原因最多500字'),
+  until: z
+    .string()
+    .datetime({ offset: true, message: '到期时间格式无效' })
+    .transform((val) => new Date(val))
+    .refine((date) => date > new Date(), '到期时间必须晚于当前时间')
+    .optional(),
+});
+
+const serializeUser = (user: {
+  id: bigint;
+  status: string;
+  bannedUntil: Date | null;
+  banReason: string | null;
+}) => ({
+  id: user.id.toString(),
+  status: user.status,
+  bannedUntil: user.bannedUntil,
+  banReason: user.banReason,
+});
+
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.ban')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限封禁用户',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reason, until } = banSchema.parse(await request.json());
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (targetUser.id.toString() === session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_BAN_SELF',
+            message: '不能封禁自己',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !outranks(session.user, {
+        role: targetUser.role,
+        permissions: normalizePermissions(targetUser.customRole?.permissions),
+      })
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_BAN_PRIVILEGED',
+            message: '不能封禁权限不低于自己的用户',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await banUser(userId, { until, reason });
+
+    await prisma.moderationLog.create({
+      data: {
+        moderatorId: BigInt(session.user.id),
+        action: 'BAN_USER',
+        targetType: 'USER',
+        targetId: userId,
+        targetUserId: userId,
+        reportIds: [],
+        note: until
+          ? `${reason}（至 ${until.toLocaleString('zh-CN')}）`
+          : reason,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { user: serializeUser(user) },
+      message: until ? '用户已暂停使用' : '用户已封禁',
+    });
+  } catch (error) {
+    console.error('封禁用户失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '封禁用户失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.ban')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限解除封禁',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        status: true,
+        role: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      !outranks(session.user, {
+        role: targetUser.role,
+        permissions: normalizePermissions(targetUser.customRole?.permissions),
+      })
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_UNBAN_PRIVILEGED',
+            message: '不能解除权限不低于自己的用户的封禁',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (targetUser.status !== 'BANNED') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_BANNED',
+            message: '该用户未被封禁',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await unbanUser(userId);
+
+    await prisma.moderationLog.create({
+      data: {
+        moderatorId: BigInt(session.user.id),
+        action: 'UNBAN_USER',
+        targetType: 'USER',
+        targetId: userId,
+        targetUserId: userId,
+        reportIds: [],
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { user: serializeUser(user) },
+      message: '已解除封禁',
+    });
+  } catch (error) {
+    console.error('解除封禁失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '解除封禁失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,222 @@
+/**
+ * 用户自定义角色 API 路由 - 管理员授予或解除用户的自定义角色
+ *
+ * 支持的HTTP方法：
+ * - PUT: 设置用户的自定义角色，customRoleId 为 null 时解除
+ *
+ * 业务规则：
+ * - 不能修改自己的自定义角色
+ * - 只能授予权限都在自己权限范围内的角色
+ * - 不能修改权限超出自己范围的用户
+ * - 修改后该用户下次请求即按新权限控制访问，无需重新登录
+ *
+ * 权限控制：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足或授予自己没有的权限：403状态码
+ * - 用户或角色不存在：404状态码
+ * - ID格式无效、修改自己或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  can,
+  hasAllPermissions,
+  normalizePermissions,
+  permissionsOf,
+} from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const assignRoleSchema = z.object({
+  customRoleId: z.number().int().positive().nullable(),
+});
+
+async function handlePut(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限修改用户角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (userId === BigInt(session.user.id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_CHANGE_SELF',
+            message: '不能修改自己的角色',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { customRoleId } = assignRoleSchema.parse(await request.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      !hasAllPermissions(
+        session.user,
+        permissionsOf({
+          role: user.role,
+          permissions: normalizePermissions(user.customRole?.permissions),
+        })
+      )
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PERMISSION_NOT_GRANTED',
+            message: '不能修改权限超出自己范围的用户',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (customRoleId !== null) {
+      const role = await prisma.customRole.findUnique({
+        where: { id: customRoleId },
+        select: { permissions: true },
+      });
+
+      if (!role) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'ROLE_NOT_FOUND',
+              message: '角色不存在',
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (
+        !hasAllPermissions(session.user, normalizePermissions(role.permissions))
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'PERMISSION_NOT_GRANTED',
+              message: '不能授予包含自己没有的权限的角色',
+            },
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { customRoleId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { userId: userId.toString(), customRoleId },
+      message: customRoleId === null ? '已解除自定义角色' : '已授予自定义角色',
+    });
+  } catch (error) {
+    console.error('修改用户自定义角色失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '修改用户自定义角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('write', handlePut);
@@ -0,0 +1,330 @@
+/**
+ * 关注 API 路由 - 关注和取消关注作者
+ *
+ * 主要功能：
+ * 1. GET：获取当前用户是否已关注该用户及关注统计
+ * 2. POST：关注用户，并向被关注者发送 FOLLOW 通知
+ * 3. DELETE：取消关注
+ *
+ * 数据一致性：
+ * - 关注关系和双方 UserProfile 的 followersCount/followingCount 在同一事务中更新
+ * - 重复关注或取消未关注的用户不会改变计数
+ *
+ * 安全特性：
+ * - 关注和取消关注需要登录
+ * - 不能关注自己
+ * - 只能关注正常状态的用户
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - ID格式无效、关注自己：400状态码
+ * - 用户不存在、未关注：404状态码
+ * - 重复关注：409状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { notifyFollow } from '@/lib/notifications';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await getApiSession(request, 'read');
+
+    const [profile, follow] = await Promise.all([
+      prisma.userProfile.findUnique({
+        where: { userId },
+        select: { followersCount: true, followingCount: true },
+      }),
+      session?.user?.id
+        ? prisma.follow.findUnique({
+            where: {
+              followerId_followingId: {
+                followerId: BigInt(session.user.id),
+                followingId: userId,
+              },
+            },
+          })
+        : null,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        isFollowing: !!follow,
+        followersCount: profile?.followersCount ?? 0,
+        followingCount: profile?.followingCount ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error('获取关注状态失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取关注状态失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'social:write');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let followingId: bigint;
+    try {
+      followingId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const followerId = BigInt(session.user.id);
+
+    if (followerId === followingId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_FOLLOW_SELF',
+            message: '不能关注自己',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const targetUser = await prisma.user.findFirst({
+      where: { id: followingId, status: 'ACTIVE' },
+      select: { id: true },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.follow.create({
+          data: { followerId, followingId },
+        });
+
+        await tx.userProfile.upsert({
+          where: { userId: followerId },
+          update: { followingCount: { increment: 1 } },
+          create: { userId: followerId, followingCount: 1 },
+        });
+
+        await tx.userProfile.upsert({
+          where: { userId: followingId },
+          update: { followersCount: { increment: 1 } },
+          create: { userId: followingId, followersCount: 1 },
+        });
+      });
+    } catch (error) {
+      // 唯一约束冲突：已经关注过
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'ALREADY_FOLLOWING',
+              message: '已经关注了该用户',
+            },
+          },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await notifyFollow({
+      followingId,
+      actor: { id: followerId, username: session.user.username },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { isFollowing: true },
+      message: '关注成功',
+    });
+  } catch (error) {
+    console.error('关注用户失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '关注用户失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('write', handlePost);
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'social:write');
+    if (!session?.user || !session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let followingId: bigint;
+    try {
+      followingId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const followerId = BigInt(session.user.id);
+
+    const removed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.follow.deleteMany({
+        where: { followerId, followingId },
+      });
+
+      // 并发取消时只有删除成功的请求更新计数
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.userProfile.update({
+        where: { userId: followerId },
+        data: { followingCount: { decrement: 1 } },
+      });
+
+      await tx.userProfile.update({
+        where: { userId: followingId },
+        data: { followersCount: { decrement: 1 } },
+      });
+
+      return true;
+    });
+
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOLLOWING',
+            message: '尚未关注该用户',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { isFollowing: false },
+      message: '已取消关注',
+    });
+  } catch (error) {
+    console.error('取消关注失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '取消关注失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
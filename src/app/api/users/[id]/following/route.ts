@@ -0,0 +1,86 @@
+/**
+ * 关注列表 API 路由 - 获取该用户关注的用户列表
+ *
+ * 主要功能：
+ * 1. 分页获取关注列表（page、limit，limit 最大 50）
+ * 2. 按关注时间倒序排列
+ * 3. 返回用户基本信息和关注时间
+ *
+ * 错误处理：
+ * - ID格式无效：400状态码
+ * - 用户不存在：404状态码
+ * - 服务器错误：500状态码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getFollowList } from '@/lib/follows';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || 20, 1),
+      50
+    );
+
+    const data = await getFollowList(userId, 'following', page, limit);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('获取关注列表失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取关注列表失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,224 @@
+/**
+ * 用户角色 API 路由 - 管理员修改用户角色
+ *
+ * 支持的HTTP方法：
+ * - PUT: 修改指定用户的角色，写入角色变更记录并通知该用户
+ *
+ * 验证规则：
+ * - role：USER、AUTHOR 或 ADMIN
+ * - reason：变更原因，最多 500 字
+ *
+ * 业务规则：
+ * - 不能修改自己的角色，避免误操作导致没有管理员
+ * - 不能修改权限超出自己范围的用户，修改后该用户的权限也不能超出自己的范围
+ * - 角色没有变化时返回 400
+ * - 修改后该用户下次请求即按新角色控制访问，无需重新登录
+ *
+ * 权限控制：
+ * - 需要 user.role.manage 权限（默认仅管理员）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 权限不足或越权修改：403状态码
+ * - 用户不存在：404状态码
+ * - ID格式无效、修改自己、角色未变化或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Role } from '@prisma/client';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  can,
+  hasAllPermissions,
+  normalizePermissions,
+  permissionsOf,
+} from '@/lib/permissions';
+import { prisma } from '@/lib/db';
+import { notifyRoleChanged } from '@/lib/notifications';
+import { changeUserRole } from '@/lib/user-roles';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const changeRoleSchema = z.object({
+  role: z.nativeEnum(Role),
+  reason: z.string().trim().max(500, '变更原因最多500字').optional(),
+});
+
+async function handlePut(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request, 'admin');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!can(session.user, 'user.role.manage')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '无权限修改用户角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    let userId: bigint;
+    try {
+      userId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '用户ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const operatorId = BigInt(session.user.id);
+    if (userId === operatorId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CANNOT_CHANGE_SELF',
+            message: '不能修改自己的角色',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { role, reason } = changeRoleSchema.parse(await request.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '用户不存在',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // 自定义角色的权限在修改后仍然保留，一并计入目标用户的权限
+    const permissions = normalizePermissions(user.customRole?.permissions);
+    if (
+      !hasAllPermissions(
+        session.user,
+        permissionsOf({ role: user.role, permissions })
+      ) ||
+      !hasAllPermissions(session.user, permissionsOf({ role, permissions }))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PERMISSION_NOT_GRANTED',
+            message:
+              '不能修改权限超出自己范围的用户，也不能授予超出自己范围的角色',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const log = await prisma.$transaction((tx) =>
+      changeUserRole(tx, { userId, role, operatorId, reason })
+    );
+
+    if (!log) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ROLE_UNCHANGED',
+            message: '用户已经是该角色',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await notifyRoleChanged({
+      userId,
+      role,
+      actor: { id: operatorId, username: session.user.username },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        log: {
+          id: log.id.toString(),
+          userId: log.userId.toString(),
+          fromRole: log.fromRole,
+          toRole: log.toRole,
+          reason: log.reason,
+          createdAt: log.createdAt,
+        },
+      },
+      message: '角色已修改',
+    });
+  } catch (error) {
+    console.error('修改用户角色失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '修改用户角色失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('write', handlePut);
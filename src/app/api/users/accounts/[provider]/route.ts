@@ -0,0 +1,105 @@
+/**
+ * 单个第三方账号关联 API 路由 - 解除关联
+ *
+ * 支持的HTTP方法：
+ * - DELETE: 解除当前账号与指定第三方登录方式的关联
+ *
+ * 业务规则：
+ * - 只接受登录会话
+ * - 未设置密码时不能解除最后一个关联，避免账号无法登录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 解除后无法登录：400状态码
+ * - 未关联该登录方式：404状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { provider } = await params;
+    const userId = BigInt(session.user.id);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        passwordHash: true,
+        accounts: {
+          select: { provider: true },
+        },
+      },
+    });
+
+    const linkedCount =
+      user?.accounts.filter((item) => item.provider === provider).length ?? 0;
+
+    if (!user || linkedCount === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '未关联该登录方式',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!user.passwordHash && user.accounts.length === linkedCount) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LAST_LOGIN_METHOD',
+            message:
+              '这是账号唯一的登录方式，请先通过找回密码设置密码后再解除关联',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.account.deleteMany({ where: { userId, provider } });
+
+    return NextResponse.json({
+      success: true,
+      message: '已解除关联',
+    });
+  } catch (error) {
+    console.error('解除关联失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '解除关联失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,94 @@
+/**
+ * 第三方账号关联 API 路由 - 查看当前账号关联的第三方登录方式
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取已启用的第三方登录方式及当前账号的关联状态
+ *
+ * 业务规则：
+ * - 只接受登录会话
+ * - 关联新账号通过在已登录状态下使用第三方登录完成
+ * - hasPassword 表示账号是否设置了密码，未设置密码时不能解除最后一个关联
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { getOAuthProviderInfo } from '@/lib/oauth-providers';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: {
+        passwordHash: true,
+        accounts: {
+          select: { provider: true, createdAt: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const providers = getOAuthProviderInfo().map((provider) => {
+      const account = user.accounts.find(
+        (item) => item.provider === provider.id
+      );
+      return {
+        ...provider,
+        linked: Boolean(account),
+        linkedAt: account?.createdAt ?? null,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        providers,
+        hasPassword: Boolean(user.passwordHash),
+      },
+    });
+  } catch (error) {
+    console.error('获取关联账号失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取关联账号失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
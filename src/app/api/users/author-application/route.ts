@@ -0,0 +1,67 @@
+/**
+ * 我的作者申请 API 路由 - 查看当前账号最近一次作者申请
+ *
+ * 支持的HTTP方法：
+ * - GET: 返回当前角色和最近一次申请（没有申请时为 null）
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { getLatestAuthorApplication } from '@/lib/author-applications';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const application = await getLatestAuthorApplication(
+      BigInt(session.user.id)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        role: session.user.role,
+        application: application
+          ? {
+              id: application.id.toString(),
+              motivation: application.motivation,
+              status: application.status,
+              reviewNote: application.reviewNote,
+              reviewedAt: application.reviewedAt,
+              createdAt: application.createdAt,
+            }
+          : null,
+      },
+    });
+  } catch (error) {
+    console.error('获取作者申请失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取作者申请失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
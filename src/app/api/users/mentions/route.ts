@@ -0,0 +1,94 @@
+/**
+ * 提及记录 API 路由 - 获取当前用户被 @提及的记录
+ *
+ * 查询参数：
+ * - cursor：上一页最后一条记录的 ID
+ * - limit：每页数量，默认 20，最大 50
+ *
+ * 说明：
+ * - 按提及时间倒序排列
+ * - 只返回已发布文章和公开评论中的提及
+ *
+ * 权限控制：
+ * - 需要登录，只能查看自己被提及的记录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { getUserMentions } from '@/lib/mentions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const querySchema = z.object({
+  cursor: z
+    .string()
+    .regex(/^\d+$/, '游标格式无效')
+    .transform((val) => BigInt(val))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '请先登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({
+      cursor: searchParams.get('cursor') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const data = await getUserMentions(
+      BigInt(session.user.id),
+      query.cursor,
+      query.limit
+    );
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('获取提及记录失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取提及记录失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
@@ -0,0 +1,135 @@
+/**
+ * 通知偏好 API 路由 - 获取和更新当前用户的通知设置
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取各类型通知的站内、邮件开关和邮件摘要频率
+ * - PUT: 更新通知偏好（只更新请求中包含的类型）
+ *
+ * 验证规则：
+ * - types：通知类型设置数组，type 为可设置的通知类型
+ * - digestFrequency：NEVER、DAILY 或 WEEKLY
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import {
+  CONFIGURABLE_NOTIFICATION_TYPES,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notification-preferences';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const updatePreferencesSchema = z.object({
+  types: z
+    .array(
+      z.object({
+        type: z.enum(CONFIGURABLE_NOTIFICATION_TYPES),
+        inApp: z.boolean(),
+        email: z.boolean(),
+      })
+    )
+    .optional(),
+  digestFrequency: z.enum(['NEVER', 'DAILY', 'WEEKLY']).optional(),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await getNotificationPreferences(
+      BigInt(session.user.id)
+    );
+
+    return NextResponse.json({ success: true, data: { preferences } });
+  } catch (error) {
+    console.error('获取通知偏好失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取通知偏好失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handlePut(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const data = updatePreferencesSchema.parse(await request.json());
+    const preferences = await updateNotificationPreferences(
+      BigInt(session.user.id),
+      data
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences },
+      message: '通知设置已更新',
+    });
+  } catch (error) {
+    console.error('更新通知偏好失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '更新通知偏好失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRateLimit('write', handlePut);
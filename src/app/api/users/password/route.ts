@@ -0,0 +1,151 @@
+/**
+ * 修改密码 API 路由 - 登录用户修改自己的密码
+ *
+ * 支持的HTTP方法：
+ * - POST: 校验当前密码后设置新密码
+ *
+ * 验证规则：
+ * - currentPassword：当前密码
+ * - newPassword：6-50字符，必须包含字母和数字，不能与当前密码相同
+ *
+ * 业务规则：
+ * - 修改成功后其他设备上的登录全部退出，当前会话保留
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 未设置密码、当前密码错误或验证错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { updatePassword } from '@/lib/password-reset';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, '请输入当前密码'),
+    newPassword: z
+      .string()
+      .min(6, '密码至少6个字符')
+      .max(50, '密码最多50个字符')
+      .regex(/^(?=.*[a-zA-Z])(?=.*\d)/, '密码必须包含字母和数字'),
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: '新密码不能与当前密码相同',
+    path: ['newPassword'],
+  });
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { currentPassword, newPassword } = changePasswordSchema.parse(
+      await request.json()
+    );
+
+    const user = await prisma.user.findUnique({
+      where: { id: BigInt(session.user.id) },
+      select: { id: true, passwordHash: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // 通过第三方账号注册的用户没有密码，需先通过找回密码设置
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PASSWORD_NOT_SET',
+            message: '账号尚未设置密码，请先通过找回密码设置',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const isPasswordValid = await bcrypt.compare(
+      currentPassword,
+      user.passwordHash
+    );
+
+    if (!isPasswordValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PASSWORD',
+            message: '当前密码错误',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await updatePassword(user.id, newPassword, {
+      keepSessionId: session.user.sessionId
+        ? BigInt(session.user.sessionId)
+        : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '密码已修改，其他设备上的登录已退出',
+    });
+  } catch (error) {
+    console.error('修改密码失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '修改密码失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePost);
@@ -47,8 +47,9 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { auth } from '@/lib/auth';
+import { getApiSession } from '@/lib/api-auth';
 import { z } from 'zod';
+import { withRateLimit } from '@/lib/rate-limit';
 
 const updateProfileSchema = z.object({
   username: z
@@ -67,9 +68,9 @@ const updateProfileSchema = z.object({
 });
 
 // 获取用户资料
-export async function GET() {
+async function handleGet(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request, 'read');
 
     if (!session?.user?.id) {
       return NextResponse.json(
@@ -90,6 +91,7 @@ export async function GET() {
         id: true,
         username: true,
         email: true,
+        emailVerified: true,
         avatarUrl: true,
         bio: true,
         role: true,
@@ -148,10 +150,12 @@ export async function GET() {
   }
 }
 
+export const GET = withRateLimit('read', handleGet);
+
 // 更新用户资料
-export async function PUT(request: NextRequest) {
+async function handlePut(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getApiSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json(
@@ -221,6 +225,7 @@ export async function PUT(request: NextRequest) {
         id: true,
         username: true,
         email: true,
+        emailVerified: true,
         avatarUrl: true,
         bio: true,
         role: true,
@@ -280,3 +285,5 @@ export async function PUT(request: NextRequest) {
     );
   }
 }
+
+export const PUT = withRateLimit('write', handlePut);
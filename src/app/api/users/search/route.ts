@@ -0,0 +1,100 @@
+/**
+ * 用户搜索 API 路由 - 按用户名前缀搜索用户（用于 @提及自动补全）
+ *
+ * 查询参数：
+ * - q：用户名前缀，1-20 个字母、数字或下划线（按数据库排序规则，不区分大小写）
+ * - limit：返回数量，默认 8，最大 20
+ *
+ * 说明：
+ * - 只返回状态正常的用户
+ * - 按粉丝数倒序排列，粉丝数相同时按用户名排序
+ *
+ * 权限控制：
+ * - 需要登录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 参数错误：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { prisma } from '@/lib/db';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const searchSchema = z.object({
+  q: z
+    .string()
+    .regex(/^[A-Za-z0-9_]{1,20}$/, '用户名只能包含字母、数字和下划线'),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request, 'read');
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { q, limit } = searchSchema.parse({
+      q: searchParams.get('q') ?? '',
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const users = await prisma.user.findMany({
+      where: {
+        username: { startsWith: q },
+        status: 'ACTIVE',
+      },
+      select: { id: true, username: true, avatarUrl: true },
+      orderBy: [{ profile: { followersCount: 'desc' } }, { username: 'asc' }],
+      take: limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        users: users.map((user) => ({ ...user, id: user.id.toString() })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数无效',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('搜索用户失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '搜索用户失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
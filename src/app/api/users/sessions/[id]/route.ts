@@ -0,0 +1,94 @@
+/**
+ * 单个登录会话 API 路由 - 退出指定设备
+ *
+ * 支持的HTTP方法：
+ * - DELETE: 撤销指定会话，对应设备下次请求时需要重新登录
+ *
+ * 业务规则：
+ * - 只能退出自己账号的会话
+ * - 退出当前会话等同于退出登录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - ID格式无效：400状态码
+ * - 会话不存在或已退出：404状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { revokeUserSession } from '@/lib/user-sessions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let sessionId: bigint;
+    try {
+      sessionId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '会话ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeUserSession(BigInt(session.user.id), sessionId);
+
+    if (!revoked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '会话不存在或已退出',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { current: sessionId.toString() === session.user.sessionId },
+      message: '已退出该设备',
+    });
+  } catch (error) {
+    console.error('退出设备失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '退出设备失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
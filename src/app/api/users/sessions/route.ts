@@ -0,0 +1,106 @@
+/**
+ * 登录设备 API 路由 - 查看和退出当前账号的登录会话
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取当前账号的有效会话（IP、客户端信息、最近活动时间），标记当前会话
+ * - DELETE: 退出除当前会话外的全部会话
+ *
+ * 业务规则：
+ * - 被退出的会话下次请求时立即失效，需要重新登录
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { listUserSessions, revokeOtherUserSessions } from '@/lib/user-sessions';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listUserSessions(BigInt(session.user.id));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sessions: sessions.map((item) => ({
+          ...item,
+          id: item.id.toString(),
+          current: item.id.toString() === session.user.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('获取登录设备失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取登录设备失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+
+async function handleDelete(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const count = await revokeOtherUserSessions(
+      BigInt(session.user.id),
+      session.user.sessionId ? BigInt(session.user.sessionId) : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { count },
+      message: count > 0 ? `已退出 ${count} 个其他设备` : '没有其他登录设备',
+    });
+  } catch (error) {
+    console.error('退出其他设备失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '退出其他设备失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
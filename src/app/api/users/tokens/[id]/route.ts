@@ -0,0 +1,95 @@
+/**
+ * 单个个人访问令牌 API 路由 - 撤销指定令牌
+ *
+ * 支持的HTTP方法：
+ * - DELETE: 撤销指定令牌，撤销后使用该令牌的请求立即失效
+ *
+ * 业务规则：
+ * - 只接受登录会话，只能撤销自己账号的令牌
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - ID格式无效：400状态码
+ * - 令牌不存在或已撤销：404状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiSession } from '@/lib/api-auth';
+import { revokePersonalAccessToken } from '@/lib/personal-access-tokens';
+import { withRateLimit } from '@/lib/rate-limit';
+
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    let tokenId: bigint;
+    try {
+      tokenId = BigInt(id);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ID',
+            message: '令牌ID格式无效',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokePersonalAccessToken(
+      BigInt(session.user.id),
+      tokenId
+    );
+
+    if (!revoked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: '令牌不存在或已撤销',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '令牌已撤销',
+    });
+  } catch (error) {
+    console.error('撤销访问令牌失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '撤销访问令牌失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRateLimit('write', handleDelete);
@@ -0,0 +1,184 @@
+/**
+ * 个人访问令牌 API 路由 - 查看和创建当前账号的 API 访问令牌
+ *
+ * 支持的HTTP方法：
+ * - GET: 获取当前账号未过期、未撤销的令牌（不包含令牌明文）
+ * - POST: 创建令牌，明文只在本次响应中返回
+ *
+ * 验证规则：
+ * - name：1-100个字符
+ * - scopes：至少选择一个权限范围
+ * - expiresInDays：有效期天数（7、30、90、365）
+ *
+ * 业务规则：
+ * - 只接受登录会话，不能使用令牌管理令牌
+ * - 只有拥有后台管理权限（admin.access）的账号可以创建 admin 权限范围的令牌
+ * - 每个账号最多同时拥有 20 个有效令牌
+ *
+ * 错误处理：
+ * - 未授权：401状态码
+ * - 验证错误、权限范围无效或令牌数量超限：400状态码
+ * - 服务器错误：500状态码
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getApiSession } from '@/lib/api-auth';
+import { can } from '@/lib/permissions';
+import {
+  MAX_ACTIVE_TOKENS,
+  TOKEN_EXPIRY_DAYS,
+  countActiveTokens,
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+} from '@/lib/personal-access-tokens';
+import { TOKEN_SCOPES } from '@/lib/token-scopes';
+import { withRateLimit } from '@/lib/rate-limit';
+
+const createTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, '令牌名称不能为空')
+    .max(100, '令牌名称最多100个字符'),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1, '请至少选择一个权限范围'),
+  expiresInDays: z
+    .number()
+    .refine(
+      (days) => (TOKEN_EXPIRY_DAYS as readonly number[]).includes(days),
+      '有效期无效'
+    ),
+});
+
+async function handleGet(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await listPersonalAccessTokens(BigInt(session.user.id));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokens: tokens.map((token) => ({
+          ...token,
+          id: token.id.toString(),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('获取访问令牌失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取访问令牌失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const session = await getApiSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: '未登录',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const data = createTokenSchema.parse(await request.json());
+
+    if (data.scopes.includes('admin') && !can(session.user, 'admin.access')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_SCOPE',
+            message: '没有后台管理权限，不能创建管理权限的令牌',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = BigInt(session.user.id);
+
+    if ((await countActiveTokens(userId)) >= MAX_ACTIVE_TOKENS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'TOO_MANY_TOKENS',
+            message: `最多同时拥有 ${MAX_ACTIVE_TOKENS} 个有效令牌`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, record } = await createPersonalAccessToken(userId, data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          token,
+          record: { ...record, id: record.id.toString() },
+        },
+        message: '令牌已创建，请立即复制保存，关闭后将无法再次查看',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建访问令牌失败:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '数据验证失败',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '创建访问令牌失败',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit('read', handleGet);
+export const POST = withRateLimit('write', handlePost);
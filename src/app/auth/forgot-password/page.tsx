@@ -0,0 +1,100 @@
+/**
+ * 忘记密码页面 - 申请密码重置邮件
+ *
+ * 主要功能：
+ * 1. 输入注册邮箱申请重置密码
+ * 2. 提交后统一提示查收邮件（不透露邮箱是否注册）
+ *
+ * 使用技术：
+ * - Next.js 客户端组件
+ * - React Hooks 状态管理
+ */
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setError('邮箱格式不正确');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setMessage(result.message);
+      } else {
+        setError(result.error?.message || '发送失败，请稍后重试');
+      }
+    } catch (error) {
+      console.error('申请密码重置失败:', error);
+      setError('发送失败，请稍后重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-md px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-center text-2xl">忘记密码</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {message ? (
+            <p className="text-center text-green-600">{message}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="邮箱"
+                type="email"
+                name="email"
+                value={email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEmail(e.target.value)
+                }
+                error={error}
+                placeholder="请输入注册邮箱"
+                required
+              />
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? '发送中...' : '发送重置邮件'}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center text-sm text-gray-600">
+            想起密码了？
+            <Link
+              href="/auth/login"
+              className="ml-1 text-blue-600 hover:text-blue-800"
+            >
+              返回登录
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
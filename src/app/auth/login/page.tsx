@@ -7,6 +7,10 @@
  * 3. 登录状态管理和错误处理
  * 4. 登录成功后的页面重定向
  * 5. 注册页面链接引导
+ * 6. 封禁、暂停和停用账号的提示
+ * 7. 忘记密码入口
+ * 8. 开启两步验证的账号在密码正确后输入验证码或恢复码
+ * 9. 已配置的第三方登录（GitHub、OIDC）入口和登录失败提示
  *
  * 表单验证：
  * - 邮箱格式验证
@@ -34,23 +38,70 @@
  */
 'use client';
 
-import { useState } from 'react';
-import { signIn } from 'next-auth/react';
+import { useState, useEffect } from 'react';
+import { signIn, getProviders } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 
+// 登录被拒绝的错误码对应的提示，来自登录接口或中间件重定向
+const accountErrorMessages: Record<string, string> = {
+  ACCOUNT_BANNED: '账号已被封禁，如有疑问请联系管理员',
+  ACCOUNT_SUSPENDED: '账号已被暂停使用，请在暂停结束后再登录',
+  ACCOUNT_INACTIVE: '账号已停用',
+  SESSION_SIGNED_OUT: '该设备的登录已被退出，请重新登录',
+  ACCOUNT_LOCKED: '登录失败次数过多，账号已临时锁定，请稍后再试或重置密码',
+  RATE_LIMITED: '登录尝试过于频繁，请稍后再试',
+  INVALID_TWO_FACTOR_CODE: '验证码错误',
+  OAUTH_EMAIL_REQUIRED: '第三方账号没有提供邮箱，无法登录',
+  OAUTH_TWO_FACTOR_ENABLED:
+    '该账号已启用两步验证，请使用邮箱、密码和验证码登录',
+  OAuthAccountNotLinked:
+    '该邮箱已注册或第三方账号已关联其他用户，请先用密码登录后在个人资料页关联',
+  OAuthCallbackError: '第三方登录失败，请稍后重试',
+  Configuration: '第三方登录失败，请稍后重试',
+};
+
+interface OAuthProvider {
+  id: string;
+  name: string;
+}
+
 export default function LoginPage() {
   const [formData, setFormData] = useState({
     email: '',
     password: '',
+    code: '',
   });
+  // 密码校验通过后需要两步验证时进入第二步
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [oauthProviders, setOAuthProviders] = useState<OAuthProvider[]>([]);
   const router = useRouter();
 
+  // 被封禁后会话失效，中间件会带上错误码重定向到登录页
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get('error');
+    if (error && accountErrorMessages[error]) {
+      setErrors({ submit: accountErrorMessages[error] });
+    }
+  }, []);
+
+  useEffect(() => {
+    getProviders()
+      .then((providers) =>
+        setOAuthProviders(
+          Object.values(providers ?? {}).filter(
+            (provider) => provider.type === 'oauth' || provider.type === 'oidc'
+          )
+        )
+      )
+      .catch((error) => console.error('获取第三方登录方式失败:', error));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
@@ -81,6 +132,10 @@ export default function LoginPage() {
       newErrors.password = '密码至少6个字符';
     }
 
+    if (needsTwoFactor && !formData.code.trim()) {
+      newErrors.code = '请输入验证码';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -96,11 +151,19 @@ export default function LoginPage() {
       const result = await signIn('credentials', {
         email: formData.email,
         password: formData.password,
+        ...(needsTwoFactor ? { code: formData.code } : {}),
         redirect: false,
       });
 
-      if (result?.error) {
-        setErrors({ submit: '邮箱或密码错误' });
+      if (result?.code === 'TWO_FACTOR_REQUIRED') {
+        setNeedsTwoFactor(true);
+        setErrors({});
+      } else if (result?.error) {
+        setErrors({
+          submit:
+            (result.code && accountErrorMessages[result.code]) ||
+            '邮箱或密码错误',
+        });
       } else {
         // 登录成功，重定向到首页
         router.push('/');
@@ -144,6 +207,29 @@ export default function LoginPage() {
               required
             />
 
+            {needsTwoFactor && (
+              <Input
+                label="两步验证码"
+                name="code"
+                value={formData.code}
+                onChange={handleChange}
+                error={errors.code}
+                placeholder="身份验证器中的 6 位验证码或恢复码"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            )}
+
+            <div className="text-right text-sm">
+              <Link
+                href="/auth/forgot-password"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                忘记密码？
+              </Link>
+            </div>
+
             {errors.submit && (
               <div className="text-center text-sm text-red-600">
                 {errors.submit}
@@ -155,6 +241,27 @@ export default function LoginPage() {
             </Button>
           </form>
 
+          {oauthProviders.length > 0 && (
+            <div className="mt-6">
+              <div className="mb-4 text-center text-sm text-gray-500">
+                或使用以下方式登录
+              </div>
+              <div className="space-y-2">
+                {oauthProviders.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => signIn(provider.id, { callbackUrl: '/' })}
+                  >
+                    使用 {provider.name} 登录
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="mt-6 text-center text-sm text-gray-600">
             还没有账户？
             <Link
@@ -75,7 +75,7 @@ export default function RegisterPage() {
       setState(result);
 
       if (result.success) {
-        router.push('/auth/login?message=注册成功，请登录');
+        router.push('/auth/login?message=注册成功，请查收验证邮件后登录');
       }
     });
   };
@@ -0,0 +1,167 @@
+/**
+ * 重置密码页面 - 通过重置邮件中的链接设置新密码
+ *
+ * 主要功能：
+ * 1. 读取链接中的重置令牌
+ * 2. 输入并确认新密码
+ * 3. 重置成功后引导重新登录
+ *
+ * 表单验证：
+ * - 密码长度和复杂度验证
+ * - 两次输入一致性验证
+ *
+ * 使用技术：
+ * - Next.js 客户端组件
+ * - React Hooks 状态管理
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    password: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token') || '');
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (formData.password.length < 6) {
+      newErrors.password = '密码至少6个字符';
+    } else if (!/^(?=.*[a-zA-Z])(?=.*\d)/.test(formData.password)) {
+      newErrors.password = '密码必须包含字母和数字';
+    }
+
+    if (formData.confirmPassword !== formData.password) {
+      newErrors.confirmPassword = '两次输入的密码不一致';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password: formData.password }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setIsDone(true);
+      } else {
+        setErrors({ submit: result.error?.message || '重置失败' });
+      }
+    } catch (error) {
+      console.error('重置密码失败:', error);
+      setErrors({ submit: '重置失败，请稍后重试' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-md px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-center text-2xl">重置密码</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isDone ? (
+            <div className="space-y-4 text-center">
+              <p className="text-green-600">密码已重置，请使用新密码登录</p>
+              <Link
+                href="/auth/login"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                前往登录
+              </Link>
+            </div>
+          ) : token === '' ? (
+            <div className="space-y-4 text-center">
+              <p className="text-red-600">重置链接无效</p>
+              <Link
+                href="/auth/forgot-password"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                重新申请
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="新密码"
+                type="password"
+                name="password"
+                value={formData.password}
+                onChange={handleChange}
+                error={errors.password}
+                placeholder="至少6个字符，包含字母和数字"
+                required
+              />
+
+              <Input
+                label="确认新密码"
+                type="password"
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                error={errors.confirmPassword}
+                placeholder="再次输入新密码"
+                required
+              />
+
+              {errors.submit && (
+                <div className="text-center text-sm text-red-600">
+                  {errors.submit}
+                  <Link
+                    href="/auth/forgot-password"
+                    className="ml-1 text-blue-600 hover:text-blue-800"
+                  >
+                    重新申请
+                  </Link>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || token === null}
+              >
+                {isLoading ? '提交中...' : '重置密码'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
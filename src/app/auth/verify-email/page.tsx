@@ -0,0 +1,135 @@
+/**
+ * 邮箱验证页面 - 处理验证邮件中的链接
+ *
+ * 主要功能：
+ * 1. 读取链接中的令牌并调用验证接口
+ * 2. 显示验证成功、已验证、链接无效或过期
+ * 3. 已登录用户可重新发送验证邮件
+ *
+ * 使用技术：
+ * - Next.js 客户端组件
+ * - NextAuth.js useSession
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+
+type VerifyState = 'loading' | 'success' | 'error';
+
+export default function VerifyEmailPage() {
+  const { status } = useSession();
+  const [state, setState] = useState<VerifyState>('loading');
+  const [message, setMessage] = useState('');
+  const [resendMessage, setResendMessage] = useState('');
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState('error');
+      setMessage('验证链接无效');
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await fetch(
+          `/api/auth/verify-email?token=${encodeURIComponent(token)}`
+        );
+        const result = await response.json();
+        if (result.success) {
+          setState('success');
+          setMessage(result.message);
+        } else {
+          setState('error');
+          setMessage(result.error?.message || '验证失败');
+        }
+      } catch (error) {
+        console.error('邮箱验证失败:', error);
+        setState('error');
+        setMessage('验证失败，请稍后重试');
+      }
+    };
+
+    verify();
+  }, []);
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+      const result = await response.json();
+      setResendMessage(
+        result.success ? result.message : result.error?.message || '发送失败'
+      );
+    } catch (error) {
+      console.error('发送验证邮件失败:', error);
+      setResendMessage('发送失败，请稍后重试');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-md px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-center text-2xl">邮箱验证</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {state === 'loading' ? (
+            <div className="flex justify-center py-4">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+            </div>
+          ) : (
+            <p
+              className={
+                state === 'success' ? 'text-green-600' : 'text-red-600'
+              }
+            >
+              {message}
+            </p>
+          )}
+
+          {state === 'success' && (
+            <Link href="/" className="text-blue-600 hover:text-blue-800">
+              返回首页
+            </Link>
+          )}
+
+          {state === 'error' &&
+            (status === 'authenticated' ? (
+              <div className="space-y-2">
+                <Button
+                  className="w-full"
+                  disabled={isResending}
+                  onClick={handleResend}
+                >
+                  {isResending ? '发送中...' : '重新发送验证邮件'}
+                </Button>
+                {resendMessage && (
+                  <p className="text-sm text-gray-600">{resendMessage}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                <Link
+                  href="/auth/login"
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  登录
+                </Link>
+                后可重新发送验证邮件
+              </p>
+            ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
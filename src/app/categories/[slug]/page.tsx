@@ -107,6 +107,7 @@ async function getCategoryPosts(
         ...post,
         id: post.id.toString(),
         authorId: post.authorId.toString(),
+        lastEditorId: post.lastEditorId?.toString() ?? null,
         author: {
           ...post.author!,
           id: post.author!.id.toString(),
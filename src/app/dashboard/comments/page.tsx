@@ -0,0 +1,386 @@
+/**
+ * 评论审核页面 - 审核文章下的评论
+ *
+ * 主要功能：
+ * 1. 按状态查看评论（待审核、已通过、已拒绝）
+ * 2. 单条通过或拒绝评论
+ * 3. 多选批量通过、拒绝
+ * 4. 分页浏览审核队列
+ * 5. 显示疑似垃圾评论的得分和原因
+ * 6. 重新训练垃圾评论分类模型（需要 comment.spam.manage 权限）
+ *
+ * 权限要求：
+ * - 需要 AUTHOR 或 ADMIN 角色
+ * - 作者只能看到自己文章下的评论，拥有 comment.moderate.any 权限（默认管理员）可以看到所有评论
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { can } from '@/lib/permissions';
+import { sanitizeHtml } from '@/lib/sanitize';
+import { cn } from '@/lib/utils';
+
+type ModerationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+type ModerationAction = 'approve' | 'reject';
+
+interface ModerationComment {
+  id: string;
+  content: string;
+  contentHtml?: string | null;
+  status: ModerationStatus;
+  createdAt: string;
+  parentId: string | null;
+  spamScore?: number | null;
+  spamReasons?: string[] | null;
+  user: { id: string; username: string; avatarUrl?: string | null } | null;
+  post: { id: string; title: string } | null;
+}
+
+interface SpamModelInfo {
+  trainedAt: string;
+  docs: { spam: number; ham: number };
+}
+
+const statusTabs: Array<{ value: ModerationStatus; label: string }> = [
+  { value: 'PENDING', label: '待审核' },
+  { value: 'APPROVED', label: '已通过' },
+  { value: 'REJECTED', label: '已拒绝' },
+];
+
+export default function CommentModerationPage() {
+  const { data: session } = useSession();
+  const [status, setStatus] = useState<ModerationStatus>('PENDING');
+  const [comments, setComments] = useState<ModerationComment[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [modelInfo, setModelInfo] = useState<SpamModelInfo | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+  const canModerateAll = can(session?.user, 'comment.moderate.any');
+  const canManageSpamModel = can(session?.user, 'comment.spam.manage');
+
+  const loadComments = useCallback(async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({
+        status,
+        page: page.toString(),
+        limit: '20',
+      });
+      const response = await fetch(`/api/comments/moderation?${params}`);
+      const result = await response.json();
+      if (result.success) {
+        setComments(result.data.comments);
+        setTotal(result.data.pagination.total);
+        setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+      }
+    } catch (error) {
+      console.error('加载审核队列失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session?.user?.id, status, page]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadComments();
+  }, [loadComments]);
+
+  // 查看垃圾评论模型状态
+  useEffect(() => {
+    if (!canManageSpamModel) return;
+
+    const loadModel = async () => {
+      try {
+        const response = await fetch('/api/comments/spam-model');
+        const result = await response.json();
+        if (result.success) {
+          setModelInfo(result.data.model);
+        }
+      } catch (error) {
+        console.error('获取垃圾评论模型失败:', error);
+      }
+    };
+
+    loadModel();
+  }, [canManageSpamModel]);
+
+  const handleTrain = async () => {
+    try {
+      setIsTraining(true);
+      const response = await fetch('/api/comments/spam-model', {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (result.success) {
+        setModelInfo(result.data.model);
+      } else {
+        alert(result.error?.message || '训练失败');
+      }
+    } catch (error) {
+      console.error('训练垃圾评论模型失败:', error);
+      alert('训练失败');
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const changeStatus = (value: ModerationStatus) => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds((prev) =>
+      prev.size === comments.length
+        ? new Set()
+        : new Set(comments.map((comment) => comment.id))
+    );
+  };
+
+  const handleModerate = async (ids: string[], action: ModerationAction) => {
+    if (ids.length === 0) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch('/api/comments/moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, action }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        await loadComments();
+        setSelectedIds(new Set());
+      } else {
+        alert(result.error?.message || '操作失败');
+      }
+    } catch (error) {
+      console.error('审核评论失败:', error);
+      alert('操作失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const selected = Array.from(selectedIds);
+
+  return (
+    <div className="p-6 pb-20 lg:pb-6">
+      <div className="mb-6 flex flex-col items-start justify-between space-y-4 sm:flex-row sm:space-y-0">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">评论审核</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {canModerateAll ? '审核全站文章下的评论' : '审核你的文章下的评论'}
+          </p>
+        </div>
+        {canManageSpamModel && (
+          <div className="text-right">
+            <Button
+              variant="outline"
+              size="sm"
+              loading={isTraining}
+              onClick={handleTrain}
+            >
+              重新训练垃圾评论模型
+            </Button>
+            <p className="mt-1 text-xs text-gray-500">
+              {modelInfo
+                ? `上次训练：${new Date(modelInfo.trainedAt).toLocaleString()}（垃圾 ${modelInfo.docs.spam} 条，正常 ${modelInfo.docs.ham} 条）`
+                : '尚未训练'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* 状态切换 */}
+      <div className="mb-4 flex space-x-2 border-b border-gray-200">
+        {statusTabs.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            onClick={() => changeStatus(tab.value)}
+            className={cn(
+              '-mb-px border-b-2 px-4 py-2 text-sm font-medium',
+              status === tab.value
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            )}
+          >
+            {tab.label}
+            {status === tab.value && ` (${total})`}
+          </button>
+        ))}
+      </div>
+
+      {/* 批量操作 */}
+      {comments.length > 0 && (
+        <div className="mb-4 flex items-center space-x-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={selectedIds.size === comments.length}
+              onChange={toggleAll}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <span>全选</span>
+          </label>
+          {status !== 'APPROVED' && (
+            <Button
+              size="sm"
+              disabled={selected.length === 0 || isSubmitting}
+              onClick={() => handleModerate(selected, 'approve')}
+            >
+              批量通过{selected.length > 0 ? ` (${selected.length})` : ''}
+            </Button>
+          )}
+          {status !== 'REJECTED' && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={selected.length === 0 || isSubmitting}
+              onClick={() => handleModerate(selected, 'reject')}
+            >
+              批量拒绝{selected.length > 0 ? ` (${selected.length})` : ''}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* 评论列表 */}
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+        </div>
+      ) : comments.length === 0 ? (
+        <Card className="p-12 text-center">
+          <p className="text-gray-500">暂无评论</p>
+        </Card>
+      ) : (
+        <Card className="divide-y divide-gray-100">
+          {comments.map((comment) => (
+            <div key={comment.id} className="flex items-start space-x-3 p-4">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(comment.id)}
+                onChange={() => toggleSelected(comment.id)}
+                className="mt-1 h-4 w-4 rounded border-gray-300"
+                aria-label="选择评论"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-x-2 text-sm text-gray-500">
+                  <span className="font-medium text-gray-900">
+                    {comment.user?.username || '已注销用户'}
+                  </span>
+                  <span>{comment.parentId ? '回复于' : '评论于'}</span>
+                  {comment.post && (
+                    <Link
+                      href={`/posts/${comment.post.id}`}
+                      className="truncate text-blue-600 hover:underline"
+                    >
+                      {comment.post.title || '无标题'}
+                    </Link>
+                  )}
+                  <span>
+                    {formatDistanceToNow(new Date(comment.createdAt), {
+                      addSuffix: true,
+                      locale: zhCN,
+                    })}
+                  </span>
+                </div>
+                {comment.spamReasons && comment.spamReasons.length > 0 && (
+                  <p className="mt-1 text-xs text-orange-600">
+                    疑似垃圾评论（得分 {comment.spamScore}）：
+                    {comment.spamReasons.join('；')}
+                  </p>
+                )}
+                {comment.contentHtml ? (
+                  <div
+                    className="markdown-body mt-2 text-sm text-gray-800"
+                    dangerouslySetInnerHTML={{
+                      __html: sanitizeHtml(comment.contentHtml, 'comment'),
+                    }}
+                  />
+                ) : (
+                  <p className="mt-2 whitespace-pre-wrap text-sm text-gray-800">
+                    {comment.content}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 space-x-2">
+                {comment.status !== 'APPROVED' && (
+                  <Button
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => handleModerate([comment.id], 'approve')}
+                  >
+                    通过
+                  </Button>
+                )}
+                {comment.status !== 'REJECTED' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isSubmitting}
+                    onClick={() => handleModerate([comment.id], 'reject')}
+                  >
+                    拒绝
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {/* 分页 */}
+      {totalPages > 1 && (
+        <div className="mt-6 flex items-center justify-center space-x-4">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            上一页
+          </Button>
+          <span className="text-sm text-gray-600">
+            {page} / {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            下一页
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ interface DashboardLayoutProps {
 const navigation = [
   { name: '我的文章', href: '/dashboard/posts', icon: '📝' },
   { name: '草稿箱', href: '/dashboard/drafts', icon: '📄' },
+  { name: '评论审核', href: '/dashboard/comments', icon: '💬' },
   { name: '统计分析', href: '/dashboard/analytics', icon: '📊' },
   { name: '个人设置', href: '/profile', icon: '⚙️' },
 ];
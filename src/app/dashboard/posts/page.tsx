@@ -8,6 +8,7 @@
  * 4. 删除文章
  * 5. 管理文章状态
  * 6. 搜索文章
+ * 7. 查看即将发布的定时文章，改期或取消定时
  *
  * 权限要求：
  * - 需要登录
@@ -24,12 +25,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 
+type PostStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
+
 interface Post {
   id: string;
   title: string;
   summary?: string;
   content: string;
-  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  status: PostStatus;
   featuredImage?: string;
   views: number;
   likesCount: number;
@@ -37,6 +40,7 @@ interface Post {
   wordCount: number;
   readingTime: number;
   publishedAt?: string;
+  publishAt?: string | null;
   createdAt: string;
   updatedAt: string;
   category?: {
@@ -67,16 +71,25 @@ interface PostsResponse {
 const statusOptions = [
   { value: '', label: '全部状态' },
   { value: 'DRAFT', label: '草稿' },
+  { value: 'SCHEDULED', label: '定时发布' },
   { value: 'PUBLISHED', label: '已发布' },
   { value: 'ARCHIVED', label: '已归档' },
 ];
 
 const statusConfig = {
   DRAFT: { label: '草稿', color: 'bg-gray-100 text-gray-800' },
+  SCHEDULED: { label: '定时发布', color: 'bg-blue-100 text-blue-800' },
   PUBLISHED: { label: '已发布', color: 'bg-green-100 text-green-800' },
   ARCHIVED: { label: '已归档', color: 'bg-yellow-100 text-yellow-800' },
 };
 
+// 转换为 datetime-local 输入框使用的本地时间格式
+const toDateTimeLocal = (dateString: string) => {
+  const date = new Date(dateString);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
 export default function MyPostsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -87,6 +100,10 @@ export default function MyPostsPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
+  const [scheduledPosts, setScheduledPosts] = useState<Post[]>([]);
+  const [rescheduleValues, setRescheduleValues] = useState<
+    Record<string, string>
+  >({});
 
   // 权限检查
   useEffect(() => {
@@ -141,6 +158,108 @@ export default function MyPostsPage() {
     }
   }, [session?.user?.id, statusFilter, searchTerm, loadPosts]);
 
+  // 加载即将发布的定时文章
+  const loadScheduledPosts = useCallback(async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const params = new URLSearchParams({
+        limit: '50',
+        authorId: session.user.id,
+        status: 'SCHEDULED',
+      });
+
+      const response = await fetch(`/api/posts?${params}`);
+      if (response.ok) {
+        const data: PostsResponse = await response.json();
+        if (data.success) {
+          setScheduledPosts(data.data.posts);
+          setRescheduleValues(
+            Object.fromEntries(
+              data.data.posts.map((post) => [
+                post.id,
+                post.publishAt ? toDateTimeLocal(post.publishAt) : '',
+              ])
+            )
+          );
+        }
+      }
+    } catch (error) {
+      console.error('加载定时文章失败:', error);
+    }
+  }, [session?.user?.id]);
+
+  useEffect(() => {
+    loadScheduledPosts();
+  }, [loadScheduledPosts]);
+
+  // 修改定时发布时间
+  const handleReschedule = async (postId: string) => {
+    const value = rescheduleValues[postId];
+    if (!value || new Date(value) <= new Date()) {
+      alert('请选择一个未来的发布时间');
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/posts/${postId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          status: 'SCHEDULED',
+          publishAt: new Date(value).toISOString(),
+        }),
+      });
+
+      if (response.ok) {
+        await loadScheduledPosts();
+        alert('发布时间已更新');
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || '改期失败');
+      }
+    } catch (error) {
+      console.error('修改发布时间失败:', error);
+      alert('改期失败');
+    }
+  };
+
+  // 取消定时发布，文章转为草稿
+  const handleCancelSchedule = async (postId: string) => {
+    if (!confirm('确定要取消定时发布吗？文章将转为草稿。')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/posts/${postId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'DRAFT' }),
+      });
+
+      if (response.ok) {
+        setScheduledPosts(scheduledPosts.filter((post) => post.id !== postId));
+        setPosts(
+          posts.map((post) =>
+            post.id === postId
+              ? { ...post, status: 'DRAFT', publishAt: null }
+              : post
+          )
+        );
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || '取消失败');
+      }
+    } catch (error) {
+      console.error('取消定时发布失败:', error);
+      alert('取消失败');
+    }
+  };
+
   // 删除文章
   const handleDeletePost = async (postId: string) => {
     if (!confirm('确定要删除这篇文章吗？此操作不可恢复。')) {
@@ -185,11 +304,14 @@ export default function MyPostsPage() {
               post.id === postId
                 ? {
                     ...post,
-                    status: newStatus as 'DRAFT' | 'PUBLISHED' | 'ARCHIVED',
+                    status: newStatus as PostStatus,
                   }
                 : post
             )
           );
+          setScheduledPosts(
+            scheduledPosts.filter((post) => post.id !== postId)
+          );
           alert('状态更新成功');
         }
       } else {
@@ -267,6 +389,65 @@ export default function MyPostsPage() {
           </div>
         </div>
 
+        {/* 即将发布 */}
+        {scheduledPosts.length > 0 && (
+          <Card className="mb-8 p-6">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">
+              即将发布
+            </h2>
+            <div className="divide-y divide-gray-100">
+              {scheduledPosts.map((post) => (
+                <div
+                  key={post.id}
+                  className="flex flex-col space-y-3 py-3 sm:flex-row sm:items-center sm:justify-between sm:space-y-0"
+                >
+                  <div>
+                    <Link href={`/posts/${post.id}`}>
+                      <p className="font-medium text-gray-900 hover:text-blue-600">
+                        {post.title}
+                      </p>
+                    </Link>
+                    {post.publishAt && (
+                      <p className="text-sm text-gray-500">
+                        将于 {new Date(post.publishAt).toLocaleString('zh-CN')}{' '}
+                        发布
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="datetime-local"
+                      value={rescheduleValues[post.id] || ''}
+                      onChange={(e) =>
+                        setRescheduleValues({
+                          ...rescheduleValues,
+                          [post.id]: e.target.value,
+                        })
+                      }
+                      className="rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReschedule(post.id)}
+                    >
+                      改期
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancelSchedule(post.id)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      取消定时
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* 文章列表 */}
         {isLoading ? (
           <div className="flex justify-center">
@@ -379,6 +560,9 @@ export default function MyPostsPage() {
                         className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                       >
                         <option value="DRAFT">草稿</option>
+                        <option value="SCHEDULED" disabled>
+                          定时发布
+                        </option>
                         <option value="PUBLISHED">已发布</option>
                         <option value="ARCHIVED">已归档</option>
                       </select>
@@ -0,0 +1,172 @@
+/**
+ * 提及记录页面 - 查看自己在文章和评论中被 @提及的记录
+ *
+ * 主要功能：
+ * 1. 按时间倒序展示提及记录（提及人、所在文章、评论内容摘要）
+ * 2. 游标分页加载更多
+ * 3. 点击跳转到对应文章或评论
+ *
+ * 权限要求：
+ * - 需要登录
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+
+interface MentionItem {
+  id: string;
+  createdAt: string;
+  link: string;
+  actor: { id: string; username: string; avatarUrl?: string | null } | null;
+  post: { id: string; title: string } | null;
+  comment: { id: string; content: string } | null;
+}
+
+// 评论摘要最大长度
+const EXCERPT_LENGTH = 120;
+
+export default function MentionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [mentions, setMentions] = useState<MentionItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    }
+  }, [status, router]);
+
+  // 加载提及记录，传入游标时追加到列表末尾
+  const loadMentions = useCallback(
+    async (cursor?: string) => {
+      if (!session?.user?.id) return;
+
+      try {
+        if (cursor) {
+          setIsLoadingMore(true);
+        } else {
+          setIsLoading(true);
+        }
+
+        const params = new URLSearchParams({ limit: '20' });
+        if (cursor) params.append('cursor', cursor);
+
+        const response = await fetch(`/api/users/mentions?${params}`);
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success) {
+            setMentions((prev) =>
+              cursor ? [...prev, ...result.data.mentions] : result.data.mentions
+            );
+            setNextCursor(result.data.nextCursor);
+          }
+        }
+      } catch (error) {
+        console.error('加载提及记录失败:', error);
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [session?.user?.id]
+  );
+
+  useEffect(() => {
+    loadMentions();
+  }, [loadMentions]);
+
+  if (status === 'loading') {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 lg:pb-0">
+      <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* 页面头部 */}
+        <div className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">提到我的</h1>
+          <Link
+            href="/notifications"
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            返回通知
+          </Link>
+        </div>
+
+        {/* 提及列表 */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : mentions.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-gray-500">还没有人提到你</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <Card className="divide-y divide-gray-100">
+              {mentions.map((mention) => (
+                <Link
+                  key={mention.id}
+                  href={mention.link}
+                  className="block p-4 hover:bg-gray-50"
+                >
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {mention.actor?.username ?? '未知用户'}
+                    </span>{' '}
+                    在{mention.comment ? '文章的评论中' : '文章'}《
+                    {mention.post?.title}》中提到了你
+                  </p>
+                  {mention.comment && (
+                    <p className="mt-1 line-clamp-2 text-sm text-gray-600">
+                      {mention.comment.content.slice(0, EXCERPT_LENGTH)}
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(mention.createdAt), {
+                      addSuffix: true,
+                      locale: zhCN,
+                    })}
+                  </p>
+                </Link>
+              ))}
+            </Card>
+
+            {nextCursor && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  loading={isLoadingMore}
+                  onClick={() => loadMentions(nextCursor)}
+                >
+                  加载更多
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
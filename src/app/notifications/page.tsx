@@ -0,0 +1,364 @@
+/**
+ * 通知中心页面 - 查看和管理站内通知
+ *
+ * 主要功能：
+ * 1. 按天分组展示通知（今天、昨天、具体日期）
+ * 2. 按通知类型和已读状态筛选
+ * 3. 游标分页加载更多
+ * 4. 全部标记为已读
+ * 5. 多选批量删除
+ * 6. 点击通知标记已读并跳转到对应内容
+ * 7. 入口链接到提及记录页面
+ *
+ * 权限要求：
+ * - 需要登录
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { format, isToday, isYesterday } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  content: string;
+  isRead: boolean;
+  lastActivityAt: string;
+  data?: { link?: string } | null;
+}
+
+const typeOptions = [
+  { value: '', label: '全部类型' },
+  { value: 'COMMENT', label: '评论' },
+  { value: 'REPLY', label: '回复' },
+  { value: 'LIKE', label: '点赞' },
+  { value: 'FAVORITE', label: '收藏' },
+  { value: 'FOLLOW', label: '关注' },
+  { value: 'MENTION', label: '提及' },
+  { value: 'SYSTEM', label: '系统' },
+];
+
+const readOptions = [
+  { value: '', label: '全部' },
+  { value: 'false', label: '未读' },
+  { value: 'true', label: '已读' },
+];
+
+// 按天分组的标题
+const dayLabel = (date: Date) => {
+  if (isToday(date)) return '今天';
+  if (isYesterday(date)) return '昨天';
+  return format(date, 'yyyy年M月d日', { locale: zhCN });
+};
+
+export default function NotificationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [readFilter, setReadFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // 权限检查
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    }
+  }, [status, router]);
+
+  // 加载通知，传入游标时追加到列表末尾
+  const loadNotifications = useCallback(
+    async (cursor?: string) => {
+      if (!session?.user?.id) return;
+
+      try {
+        if (cursor) {
+          setIsLoadingMore(true);
+        } else {
+          setIsLoading(true);
+        }
+
+        const params = new URLSearchParams({ limit: '20' });
+        if (cursor) params.append('cursor', cursor);
+        if (typeFilter) params.append('type', typeFilter);
+        if (readFilter) params.append('isRead', readFilter);
+
+        const response = await fetch(`/api/notifications?${params}`);
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success) {
+            setNotifications((prev) =>
+              cursor
+                ? [...prev, ...result.data.notifications]
+                : result.data.notifications
+            );
+            setNextCursor(result.data.nextCursor);
+          }
+        }
+      } catch (error) {
+        console.error('加载通知失败:', error);
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [session?.user?.id, typeFilter, readFilter]
+  );
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadNotifications();
+  }, [loadNotifications]);
+
+  // 按天分组
+  const groups = useMemo(() => {
+    const result: Array<{ label: string; items: NotificationItem[] }> = [];
+    for (const notification of notifications) {
+      const label = dayLabel(new Date(notification.lastActivityAt));
+      const last = result[result.length - 1];
+      if (last && last.label === label) {
+        last.items.push(notification);
+      } else {
+        result.push({ label, items: [notification] });
+      }
+    }
+    return result;
+  }, [notifications]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // 全部标记为已读
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/read-all', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(typeFilter ? { type: typeFilter } : {}),
+      });
+      const result = await response.json();
+      if (result.success) {
+        await loadNotifications();
+      } else {
+        alert(result.error?.message || '操作失败');
+      }
+    } catch (error) {
+      console.error('标记全部已读失败:', error);
+      alert('操作失败');
+    }
+  };
+
+  // 批量删除
+  const handleDeleteSelected = async () => {
+    if (selectedIds.size === 0) return;
+    if (!confirm(`确定要删除选中的 ${selectedIds.size} 条通知吗？`)) return;
+
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: Array.from(selectedIds) }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setNotifications((prev) =>
+          prev.filter((item) => !selectedIds.has(item.id))
+        );
+        setSelectedIds(new Set());
+      } else {
+        alert(result.error?.message || '删除失败');
+      }
+    } catch (error) {
+      console.error('删除通知失败:', error);
+      alert('删除失败');
+    }
+  };
+
+  // 点击通知：标记已读并跳转
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((item) =>
+          item.id === notification.id ? { ...item, isRead: true } : item
+        )
+      );
+      try {
+        await fetch('/api/notifications', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: notification.id }),
+        });
+      } catch (error) {
+        console.error('标记已读失败:', error);
+      }
+    }
+
+    if (notification.data?.link) {
+      router.push(notification.data.link);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 lg:pb-0">
+      <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* 页面头部 */}
+        <div className="mb-8">
+          <div className="flex flex-col items-start justify-between space-y-4 sm:flex-row sm:items-center sm:space-y-0">
+            <h1 className="text-3xl font-bold text-gray-900">通知</h1>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/mentions')}
+              >
+                提到我的
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
+                全部标记为已读
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedIds.size === 0}
+                onClick={handleDeleteSelected}
+              >
+                删除选中{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+              </Button>
+            </div>
+          </div>
+
+          {/* 筛选 */}
+          <div className="mt-6 flex flex-col space-y-4 sm:flex-row sm:space-x-4 sm:space-y-0">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:w-48"
+            >
+              {typeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={readFilter}
+              onChange={(e) => setReadFilter(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:w-48"
+            >
+              {readOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* 通知列表 */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-gray-500">暂无通知</p>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <div key={group.label}>
+                <h2 className="mb-2 text-sm font-medium text-gray-500">
+                  {group.label}
+                </h2>
+                <Card className="divide-y divide-gray-100">
+                  {group.items.map((notification) => (
+                    <div
+                      key={notification.id}
+                      className={cn(
+                        'flex items-start space-x-3 p-4',
+                        !notification.isRead && 'bg-blue-50'
+                      )}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(notification.id)}
+                        onChange={() => toggleSelected(notification.id)}
+                        className="mt-1 h-4 w-4 rounded border-gray-300"
+                        aria-label="选择通知"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(notification)}
+                        className="flex-1 text-left"
+                      >
+                        <p className="text-sm font-medium text-gray-900">
+                          {notification.title}
+                        </p>
+                        <p className="mt-1 text-sm text-gray-700">
+                          {notification.content}
+                        </p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {format(
+                            new Date(notification.lastActivityAt),
+                            'HH:mm'
+                          )}
+                        </p>
+                      </button>
+                      {!notification.isRead && (
+                        <span className="mt-2 h-2 w-2 flex-shrink-0 rounded-full bg-blue-500" />
+                      )}
+                    </div>
+                  ))}
+                </Card>
+              </div>
+            ))}
+
+            {nextCursor && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  loading={isLoadingMore}
+                  onClick={() => loadNotifications(nextCursor)}
+                >
+                  加载更多
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
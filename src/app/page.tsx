@@ -119,6 +119,7 @@ async function getPosts(): Promise<Post[]> {
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       author: {
         ...post.author!,
         id: post.author!.id.toString(),
@@ -3,30 +3,31 @@
  *
  * 主要功能：
  * 1. 文章内容渲染
- * 2. 作者信息显示
+ * 2. 作者信息显示和关注
  * 3. 分类和标签展示
  * 4. 阅读统计
  * 5. SEO优化
+ * 6. 举报文章
  *
  * 使用技术：
  * - Next.js App Router
  * - 服务端渲染 (SSR)
- * - Markdown渲染
+ * - 服务端 Markdown 渲染（src/lib/markdown）
  * - 动态元数据
  */
 
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import Image from 'next/image';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import rehypeHighlight from 'rehype-highlight';
-import rehypeRaw from 'rehype-raw';
 import { prisma } from '@/lib/db';
+import { renderMarkdown } from '@/lib/markdown';
+import { sanitizeHtml } from '@/lib/sanitize';
 import { formatDistanceToNow } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import { Comments } from '@/components/ui/Comments';
 import { LikeAndFavorite } from '@/components/ui/LikeAndFavorite';
+import { FollowButton } from '@/components/ui/FollowButton';
+import { ReportButton } from '@/components/ui/ReportButton';
 import { auth } from '@/lib/auth';
 
 interface PageProps {
@@ -55,7 +56,7 @@ async function getPost(id: string) {
     const session = await auth();
 
     // 如果是已发布的文章，任何人都可以查看
-    // 如果是草稿，只有作者才能查看
+    // 如果是草稿或定时文章，只有作者才能查看
     const post = await prisma.post.findFirst({
       where: session?.user?.id
         ? {
@@ -64,7 +65,7 @@ async function getPost(id: string) {
             OR: [
               { status: 'PUBLISHED' },
               {
-                status: 'DRAFT',
+                status: { in: ['DRAFT', 'SCHEDULED'] },
                 authorId: BigInt(session.user.id),
               },
             ],
@@ -125,6 +126,7 @@ async function getPost(id: string) {
       ...post,
       id: post.id.toString(),
       authorId: post.authorId.toString(),
+      lastEditorId: post.lastEditorId?.toString() ?? null,
       favoritesCount,
       tags: post.tags.map((pt) => pt.tag),
     };
@@ -200,6 +202,11 @@ export default async function PostPage({ params }: PageProps) {
                 草稿
               </span>
             )}
+            {post.status === 'SCHEDULED' && post.publishAt && (
+              <span className="inline-flex items-center rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800">
+                定时发布：{new Date(post.publishAt).toLocaleString('zh-CN')}
+              </span>
+            )}
           </div>
 
           {/* 标题 */}
@@ -247,8 +254,10 @@ export default async function PostPage({ params }: PageProps) {
                           locale: zhCN,
                         })}
                       {post.status === 'DRAFT' && '草稿'}
+                      {post.status === 'SCHEDULED' && '定时发布'}
                     </p>
                   </div>
+                  <FollowButton userId={post.authorId} />
                 </div>
               )}
             </div>
@@ -298,77 +307,15 @@ export default async function PostPage({ params }: PageProps) {
           </div>
         )}
 
-        {/* 文章内容 */}
-        <article className="prose prose-lg mb-12 max-w-none">
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            rehypePlugins={[rehypeHighlight, rehypeRaw]}
-            components={{
-              h1: ({ children }) => (
-                <h1 className="mb-6 text-3xl font-bold text-gray-900">
-                  {children}
-                </h1>
-              ),
-              h2: ({ children }) => (
-                <h2 className="mb-4 border-b border-gray-200 pb-2 text-2xl font-semibold text-gray-900">
-                  {children}
-                </h2>
-              ),
-              h3: ({ children }) => (
-                <h3 className="mb-3 text-xl font-medium text-gray-900">
-                  {children}
-                </h3>
-              ),
-              p: ({ children }) => (
-                <p className="mb-6 leading-relaxed text-gray-700">{children}</p>
-              ),
-              img: ({ src, alt }) => {
-                if (!src || typeof src !== 'string') return null;
-                return (
-                  <Image
-                    src={src}
-                    alt={alt || ''}
-                    width={800}
-                    height={400}
-                    className="my-8 h-auto w-full rounded-lg shadow-md"
-                  />
-                );
-              },
-              code: ({ children, className }) => {
-                const isInline = !className;
-                return isInline ? (
-                  <code className="rounded bg-gray-100 px-1 py-0.5 font-mono text-sm text-gray-800">
-                    {children}
-                  </code>
-                ) : (
-                  <code className={className}>{children}</code>
-                );
-              },
-              pre: ({ children }) => (
-                <pre className="my-8 overflow-x-auto rounded-lg bg-gray-900 p-6 text-sm text-gray-100">
-                  {children}
-                </pre>
-              ),
-              blockquote: ({ children }) => (
-                <blockquote className="my-8 border-l-4 border-blue-500 pl-6 italic text-gray-700">
-                  {children}
-                </blockquote>
-              ),
-              ul: ({ children }) => (
-                <ul className="mb-6 list-inside list-disc space-y-2 text-gray-700">
-                  {children}
-                </ul>
-              ),
-              ol: ({ children }) => (
-                <ol className="mb-6 list-inside list-decimal space-y-2 text-gray-700">
-                  {children}
-                </ol>
-              ),
-            }}
-          >
-            {post.content}
-          </ReactMarkdown>
-        </article>
+        {/* 文章内容（优先使用保存时生成的 HTML，旧文章回退到实时渲染） */}
+        <article
+          className="markdown-body prose prose-lg mb-12 max-w-none"
+          dangerouslySetInnerHTML={{
+            __html: post.contentHtml
+              ? sanitizeHtml(post.contentHtml, 'post')
+              : renderMarkdown(post.content),
+          }}
+        />
 
         {/* 标签 */}
         {post.tags.length > 0 && (
@@ -400,11 +347,24 @@ export default async function PostPage({ params }: PageProps) {
               className="justify-center"
             />
           </div>
+          {post.status === 'PUBLISHED' && (
+            <div className="mt-4 flex justify-center">
+              <ReportButton
+                targetType="POST"
+                targetId={post.id}
+                ownerId={post.authorId}
+              />
+            </div>
+          )}
         </div>
 
         {/* 评论系统 */}
         <div className="border-t border-gray-200 pt-8">
-          <Comments postId={post.id} initialCount={post.commentsCount} />
+          <Comments
+            postId={post.id}
+            postAuthorId={post.authorId}
+            initialCount={post.commentsCount}
+          />
         </div>
 
         {/* 作者简介 */}
@@ -5,7 +5,7 @@
  * 1. Markdown编辑器
  * 2. 文章元信息编辑
  * 3. 分类和标签选择
- * 4. 草稿保存和发布
+ * 4. 草稿保存、定时发布和发布
  * 5. 图片上传
  *
  * 使用技术：
@@ -33,6 +33,8 @@ import {
 } from '@/components/ui/select';
 import Image from 'next/image';
 
+type PostStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
+
 interface Category {
   id: number;
   name: string;
@@ -55,7 +57,8 @@ export default function CreatePostPage() {
     content: '',
     categoryId: '',
     featuredImage: '',
-    status: 'DRAFT' as 'DRAFT' | 'PUBLISHED',
+    publishAt: '',
+    status: 'DRAFT' as PostStatus,
   });
 
   // 加载分类和标签
@@ -86,7 +89,7 @@ export default function CreatePostPage() {
     }
   }, [status, router]);
 
-  const handleSubmit = async (status: 'DRAFT' | 'PUBLISHED') => {
+  const handleSubmit = async (status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED') => {
     // 对于草稿，只需要标题或内容其中一个不为空即可
     if (status === 'DRAFT') {
       if (!formData.title.trim() && !formData.content.trim()) {
@@ -101,12 +104,25 @@ export default function CreatePostPage() {
       }
     }
 
+    // 定时发布需要一个未来的发布时间
+    if (
+      status === 'SCHEDULED' &&
+      (!formData.publishAt || new Date(formData.publishAt) <= new Date())
+    ) {
+      alert('请选择一个未来的发布时间');
+      return;
+    }
+
     setIsLoading(true);
 
     try {
       const submitData = {
         ...formData,
         status,
+        publishAt:
+          status === 'SCHEDULED'
+            ? new Date(formData.publishAt).toISOString()
+            : undefined,
         categoryId: formData.categoryId
           ? parseInt(formData.categoryId)
           : undefined,
@@ -253,6 +269,28 @@ export default function CreatePostPage() {
                 >
                   立即发布
                 </Button>
+                <div className="border-t border-gray-200 pt-3">
+                  <label className="mb-1 block text-sm font-medium text-gray-700">
+                    定时发布时间
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={formData.publishAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, publishAt: e.target.value })
+                    }
+                    className="mb-3 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Button
+                    onClick={() => handleSubmit('SCHEDULED')}
+                    variant="outline"
+                    className="w-full"
+                    loading={isLoading}
+                    disabled={!formData.publishAt}
+                  >
+                    定时发布
+                  </Button>
+                </div>
               </div>
             </Card>
 
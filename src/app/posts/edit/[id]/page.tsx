@@ -6,8 +6,10 @@
  * 2. Markdown编辑器
  * 3. 文章元信息编辑
  * 4. 分类和标签选择
- * 5. 草稿保存和发布
+ * 5. 草稿保存、定时发布和发布
  * 6. 图片上传
+ * 7. 历史版本查看、对比和恢复
+ * 8. 设置文章评论审核模式
  *
  * 使用技术：
  * - Next.js App Router
@@ -25,6 +27,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { FileUpload } from '@/components/ui/FileUpload';
+import { RevisionHistory } from '@/components/ui/RevisionHistory';
 import {
   Select,
   SelectContent,
@@ -34,6 +37,8 @@ import {
 } from '@/components/ui/select';
 import Image from 'next/image';
 
+type PostStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
+
 interface Category {
   id: number;
   name: string;
@@ -41,6 +46,23 @@ interface Category {
   color: string;
 }
 
+// 使用站点审核设置（提交时转换为 null）
+const SITE_MODERATION = 'SITE';
+
+const moderationOptions = [
+  { value: SITE_MODERATION, label: '使用站点设置' },
+  { value: 'AUTO', label: '自动通过' },
+  { value: 'FIRST_TIME', label: '首次评论需要审核' },
+  { value: 'ALL', label: '全部评论需要审核' },
+];
+
+// 转换为 datetime-local 输入框使用的本地时间格式
+const toDateTimeLocal = (dateString: string) => {
+  const date = new Date(dateString);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
 interface PageProps {
   params: Promise<{
     id: string;
@@ -64,7 +86,9 @@ export default function EditPostPage({ params }: PageProps) {
     content: '',
     categoryId: '',
     featuredImage: '',
-    status: 'DRAFT' as 'DRAFT' | 'PUBLISHED',
+    publishAt: '',
+    commentModeration: SITE_MODERATION,
+    status: 'DRAFT' as PostStatus,
   });
 
   // 加载文章ID
@@ -93,6 +117,8 @@ export default function EditPostPage({ params }: PageProps) {
               content: post.content || '',
               categoryId: post.categoryId ? post.categoryId.toString() : '',
               featuredImage: post.featuredImage || '',
+              publishAt: post.publishAt ? toDateTimeLocal(post.publishAt) : '',
+              commentModeration: post.commentModeration || SITE_MODERATION,
               status: post.status,
             });
             setSelectedTags(
@@ -142,7 +168,7 @@ export default function EditPostPage({ params }: PageProps) {
     }
   }, [status, router]);
 
-  const handleSubmit = async (status: 'DRAFT' | 'PUBLISHED') => {
+  const handleSubmit = async (status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED') => {
     // 对于草稿，只需要标题或内容其中一个不为空即可
     if (status === 'DRAFT') {
       if (!formData.title.trim() && !formData.content.trim()) {
@@ -157,16 +183,33 @@ export default function EditPostPage({ params }: PageProps) {
       }
     }
 
+    // 定时发布需要一个未来的发布时间
+    if (
+      status === 'SCHEDULED' &&
+      (!formData.publishAt || new Date(formData.publishAt) <= new Date())
+    ) {
+      alert('请选择一个未来的发布时间');
+      return;
+    }
+
     setIsLoading(true);
 
     try {
       const submitData = {
         ...formData,
         status,
+        publishAt:
+          status === 'SCHEDULED'
+            ? new Date(formData.publishAt).toISOString()
+            : undefined,
         categoryId: formData.categoryId
           ? parseInt(formData.categoryId)
           : undefined,
         tags: selectedTags,
+        commentModeration:
+          formData.commentModeration === SITE_MODERATION
+            ? null
+            : formData.commentModeration,
       };
 
       const response = await fetch(`/api/posts/${postId}`, {
@@ -309,9 +352,49 @@ export default function EditPostPage({ params }: PageProps) {
                 >
                   {formData.status === 'PUBLISHED' ? '更新发布' : '立即发布'}
                 </Button>
+                <div className="border-t border-gray-200 pt-3">
+                  <label className="mb-1 block text-sm font-medium text-gray-700">
+                    定时发布时间
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={formData.publishAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, publishAt: e.target.value })
+                    }
+                    className="mb-3 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Button
+                    onClick={() => handleSubmit('SCHEDULED')}
+                    variant="outline"
+                    className="w-full"
+                    loading={isLoading}
+                    disabled={!formData.publishAt}
+                  >
+                    {formData.status === 'SCHEDULED' ? '更新定时' : '定时发布'}
+                  </Button>
+                </div>
               </div>
             </Card>
 
+            {/* 历史版本 */}
+            <Card className="p-6">
+              <h3 className="mb-4 text-lg font-medium text-gray-900">
+                历史版本
+              </h3>
+              <RevisionHistory
+                postId={postId}
+                onRestored={(post) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    title: post.title,
+                    summary: post.summary || '',
+                    content: post.content,
+                  }))
+                }
+              />
+            </Card>
+
             {/* 分类选择 */}
             <Card className="p-6">
               <h3 className="mb-4 text-lg font-medium text-gray-900">分类</h3>
@@ -337,6 +420,30 @@ export default function EditPostPage({ params }: PageProps) {
               </Select>
             </Card>
 
+            {/* 评论审核 */}
+            <Card className="p-6">
+              <h3 className="mb-4 text-lg font-medium text-gray-900">
+                评论审核
+              </h3>
+              <Select
+                value={formData.commentModeration}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, commentModeration: value })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {moderationOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Card>
+
             {/* 标签 */}
             <Card className="p-6">
               <h3 className="mb-4 text-lg font-medium text-gray-900">标签</h3>
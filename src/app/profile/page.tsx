@@ -7,10 +7,18 @@
  * 3. 头像显示和社交链接展示
  * 4. 实时表单验证和错误处理
  * 5. 响应式布局和用户体验
+ * 6. 通知偏好设置（站内/邮件开关、邮件摘要频率）
+ * 7. 邮箱验证状态和重新发送验证邮件
+ * 8. 修改密码
+ * 9. 两步验证（绑定身份验证器、恢复码）
+ * 10. 登录设备管理（查看会话、退出单个或其他所有设备）
+ * 11. 个人访问令牌管理（创建带权限范围和有效期的 API 令牌、撤销令牌）
+ * 12. 第三方账号关联（关联、解除 GitHub 或 OIDC 登录）
+ * 13. 申请成为作者（普通用户填写申请理由，查看审核结果）
  *
  * 页面结构：
  * - 左侧：用户头像、基本信息、统计数据
- * - 右侧：详细资料编辑表单
+ * - 右侧：详细资料编辑表单、通知设置
  * - 编辑模式：可编辑的表单控件
  * - 查看模式：只读信息展示
  *
@@ -48,11 +56,20 @@ import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { NotificationPreferences } from '@/components/ui/NotificationPreferences';
+import { ChangePasswordForm } from '@/components/ui/ChangePasswordForm';
+import { TwoFactorSettings } from '@/components/ui/TwoFactorSettings';
+import { ActiveSessions } from '@/components/ui/ActiveSessions';
+import { AccessTokens } from '@/components/ui/AccessTokens';
+import { LinkedAccounts } from '@/components/ui/LinkedAccounts';
+import { AuthorApplication } from '@/components/ui/AuthorApplication';
+import { can } from '@/lib/permissions';
 
 interface UserProfile {
   id: string;
   username: string;
   email: string;
+  emailVerified: boolean;
   avatarUrl?: string;
   bio?: string;
   role: string;
@@ -70,13 +87,14 @@ interface UserProfile {
 }
 
 export default function ProfilePage() {
-  const { status } = useSession();
+  const { data: session, status } = useSession();
   const router = useRouter();
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [verifyMessage, setVerifyMessage] = useState('');
 
   const [formData, setFormData] = useState({
     username: '',
@@ -184,6 +202,21 @@ export default function ProfilePage() {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+      const result = await response.json();
+      setVerifyMessage(
+        result.success ? result.message : result.error?.message || '发送失败'
+      );
+    } catch (error) {
+      console.error('发送验证邮件失败:', error);
+      setVerifyMessage('发送失败，请稍后重试');
+    }
+  };
+
   const handleCancel = () => {
     if (user) {
       setFormData({
@@ -272,7 +305,7 @@ export default function ProfilePage() {
         </div>
 
         {/* 编辑资料表单 */}
-        <div className="lg:col-span-2">
+        <div className="space-y-8 lg:col-span-2">
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -395,7 +428,32 @@ export default function ProfilePage() {
                       <label className="text-sm font-medium text-gray-500">
                         邮箱
                       </label>
-                      <p className="mt-1">{user.email}</p>
+                      <p className="mt-1">
+                        {user.email}
+                        {user.emailVerified ? (
+                          <span className="ml-2 text-xs text-green-600">
+                            已验证
+                          </span>
+                        ) : (
+                          <>
+                            <span className="ml-2 text-xs text-orange-600">
+                              未验证
+                            </span>
+                            <button
+                              type="button"
+                              onClick={handleResendVerification}
+                              className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              重新发送验证邮件
+                            </button>
+                          </>
+                        )}
+                      </p>
+                      {verifyMessage && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {verifyMessage}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500">
@@ -464,6 +522,27 @@ export default function ProfilePage() {
               )}
             </CardContent>
           </Card>
+
+          {/* 作者申请 */}
+          {user.role === 'USER' && <AuthorApplication />}
+
+          {/* 通知设置 */}
+          <NotificationPreferences />
+
+          {/* 修改密码 */}
+          <ChangePasswordForm />
+
+          {/* 两步验证 */}
+          <TwoFactorSettings />
+
+          {/* 关联账号 */}
+          <LinkedAccounts />
+
+          {/* 登录设备 */}
+          <ActiveSessions />
+
+          {/* 访问令牌 */}
+          <AccessTokens canUseAdminScope={can(session?.user, 'admin.access')} />
         </div>
       </div>
     </div>
@@ -0,0 +1,213 @@
+/**
+ * 用户主页 - 公开展示用户信息和已发布的文章
+ *
+ * 主要功能：
+ * 1. 用户头像、简介和统计数据
+ * 2. 关注和举报按钮
+ * 3. 最近发布的文章列表
+ *
+ * 说明：
+ * - @提及 链接指向此页面（/users/用户名）
+ * - 只展示状态正常的用户，用户名不存在时返回 404
+ *
+ * 使用技术：
+ * - Next.js App Router
+ * - 服务端渲染 (SSR)
+ * - 动态元数据
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { prisma } from '@/lib/db';
+import { FollowButton } from '@/components/ui/FollowButton';
+import { ReportButton } from '@/components/ui/ReportButton';
+
+interface PageProps {
+  params: Promise<{
+    username: string;
+  }>;
+}
+
+// 最近文章数量
+const RECENT_POSTS_LIMIT = 10;
+
+// 获取用户数据
+async function getUser(username: string) {
+  try {
+    const user = await prisma.user.findFirst({
+      where: {
+        username: decodeURIComponent(username),
+        status: 'ACTIVE',
+      },
+      select: {
+        id: true,
+        username: true,
+        avatarUrl: true,
+        bio: true,
+        createdAt: true,
+        profile: {
+          select: {
+            postsCount: true,
+            followersCount: true,
+            followingCount: true,
+          },
+        },
+        posts: {
+          where: { status: 'PUBLISHED', deletedAt: null },
+          select: {
+            id: true,
+            title: true,
+            summary: true,
+            publishedAt: true,
+          },
+          orderBy: { publishedAt: 'desc' },
+          take: RECENT_POSTS_LIMIT,
+        },
+      },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      ...user,
+      id: user.id.toString(),
+      posts: user.posts.map((post) => ({ ...post, id: post.id.toString() })),
+    };
+  } catch (error) {
+    console.error('获取用户主页失败:', error);
+    return null;
+  }
+}
+
+// 动态生成元数据
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { username } = await params;
+  const user = await getUser(username);
+
+  if (!user) {
+    return {
+      title: '用户不存在',
+    };
+  }
+
+  return {
+    title: `${user.username} 的主页`,
+  };
+}
+
+export default async function UserPage({ params }: PageProps) {
+  const { username } = await params;
+  const user = await getUser(username);
+
+  if (!user) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* 用户信息 */}
+        <header className="mb-8 flex items-start space-x-6 border-b border-gray-200 pb-8">
+          {user.avatarUrl ? (
+            <Image
+              src={user.avatarUrl}
+              alt={user.username}
+              width={80}
+              height={80}
+              className="h-20 w-20 rounded-full object-cover"
+            />
+          ) : (
+            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-gray-300">
+              <span className="text-2xl font-bold text-gray-600">
+                {user.username[0].toUpperCase()}
+              </span>
+            </div>
+          )}
+          <div className="flex-1">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-2xl font-bold text-gray-900">
+                {user.username}
+              </h1>
+              <FollowButton userId={user.id} />
+              <ReportButton
+                targetType="USER"
+                targetId={user.id}
+                ownerId={user.id}
+              />
+            </div>
+            {user.bio && <p className="mt-2 text-gray-700">{user.bio}</p>}
+            <div className="mt-4 flex space-x-6 text-sm text-gray-600">
+              <span>
+                <strong className="text-gray-900">
+                  {user.profile?.postsCount || 0}
+                </strong>{' '}
+                文章
+              </span>
+              <span>
+                <strong className="text-gray-900">
+                  {user.profile?.followersCount || 0}
+                </strong>{' '}
+                关注者
+              </span>
+              <span>
+                <strong className="text-gray-900">
+                  {user.profile?.followingCount || 0}
+                </strong>{' '}
+                关注中
+              </span>
+              <span>
+                {formatDistanceToNow(user.createdAt, {
+                  addSuffix: true,
+                  locale: zhCN,
+                })}
+                加入
+              </span>
+            </div>
+          </div>
+        </header>
+
+        {/* 最近文章 */}
+        <section>
+          <h2 className="mb-4 text-lg font-medium text-gray-900">最近文章</h2>
+          {user.posts.length === 0 ? (
+            <p className="text-gray-500">还没有发布文章</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {user.posts.map((post) => (
+                <li key={post.id} className="py-4">
+                  <Link
+                    href={`/posts/${post.id}`}
+                    className="text-lg font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {post.title}
+                  </Link>
+                  {post.summary && (
+                    <p className="mt-1 line-clamp-2 text-sm text-gray-600">
+                      {post.summary}
+                    </p>
+                  )}
+                  {post.publishedAt && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formatDistanceToNow(post.publishedAt, {
+                        addSuffix: true,
+                        locale: zhCN,
+                      })}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
  * 3. 用户头像和下拉菜单
  * 4. 响应式移动端菜单
  * 5. 用户登录登出操作
+ * 6. 通知铃铛和实时未读数
  *
  * 导航结构：
  * - 左侧：网站Logo和标题
@@ -16,7 +17,7 @@
  * 用户状态：
  * - 未登录：显示登录/注册按钮
  * - 已登录：显示用户头像和下拉菜单
- * - 角色相关：控制台、写文章等功能链接
+ * - 权限相关：按 can() 判断显示控制台、后台管理等功能链接
  *
  * 特性：
  * - 客户端组件（useSession）
@@ -38,6 +39,8 @@ import { useSession, signOut } from 'next-auth/react';
 import { useState, useEffect, useRef } from 'react';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { can } from '@/lib/permissions';
+import { NotificationBell } from '@/components/ui/NotificationBell';
 
 export function Navbar() {
   const { data: session, status } = useSession();
@@ -53,11 +56,46 @@ export function Navbar() {
 
   const userNavigation = [
     { name: '个人资料', href: '/profile' },
-    { name: '我的文章', href: '/dashboard/posts' },
+    ...(can(session?.user, 'dashboard.access')
+      ? [{ name: '我的文章', href: '/dashboard/posts' }]
+      : []),
   ];
 
-  // 管理员专用菜单
-  const adminNavigation = [{ name: '分类管理', href: '/admin/categories' }];
+  // 后台管理菜单，只显示拥有对应权限的项目
+  const adminNavigation = can(session?.user, 'admin.access')
+    ? [
+        {
+          name: '分类管理',
+          href: '/admin/categories',
+          permission: 'category.manage' as const,
+        },
+        {
+          name: '举报处理',
+          href: '/admin/reports',
+          permission: 'report.handle' as const,
+        },
+        {
+          name: '登录审计',
+          href: '/admin/auth-events',
+          permission: 'audit.view' as const,
+        },
+        {
+          name: '安全设置',
+          href: '/admin/security',
+          permission: 'security.manage' as const,
+        },
+        {
+          name: '作者申请',
+          href: '/admin/author-applications',
+          permission: 'author.review' as const,
+        },
+        {
+          name: '角色权限',
+          href: '/admin/roles',
+          permission: 'user.role.manage' as const,
+        },
+      ].filter((item) => can(session?.user, item.permission))
+    : [];
 
   const isActivePath = (path: string) => {
     if (path === '/') {
@@ -146,6 +184,9 @@ export function Navbar() {
                   写文章
                 </Link>
 
+                {/* 通知铃铛 */}
+                <NotificationBell />
+
                 {/* 用户菜单 */}
                 <div className="relative ml-3" ref={userMenuRef}>
                   <div>
@@ -204,8 +245,8 @@ export function Navbar() {
                           {item.name}
                         </Link>
                       ))}
-                      {/* 管理员专用菜单 */}
-                      {session.user?.role === 'ADMIN' && (
+                      {/* 后台管理菜单 */}
+                      {adminNavigation.length > 0 && (
                         <>
                           <div className="my-1 border-t border-gray-200"></div>
                           {adminNavigation.map((item) => (
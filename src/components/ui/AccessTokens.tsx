@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from './button';
+import { Input } from './input';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+import { TOKEN_SCOPES, TokenScope, tokenScopeLabels } from '@/lib/token-scopes';
+
+interface TokenItem {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const expiryOptions = [
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 365, label: '1 年' },
+];
+
+const emptyForm = {
+  name: '',
+  scopes: ['read'] as TokenScope[],
+  expiresInDays: 30,
+};
+
+export function AccessTokens({
+  canUseAdminScope,
+}: {
+  canUseAdminScope: boolean;
+}) {
+  const [tokens, setTokens] = useState<TokenItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState('');
+  const [message, setMessage] = useState('');
+
+  const availableScopes = TOKEN_SCOPES.filter(
+    (scope) => scope !== 'admin' || canUseAdminScope
+  );
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/users/tokens');
+      const result = await response.json();
+      if (result.success) {
+        setTokens(result.data.tokens);
+      }
+    } catch (error) {
+      console.error('获取访问令牌失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: TokenScope, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: checked
+        ? [...prev.scopes, scope]
+        : prev.scopes.filter((item) => item !== scope),
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    setNewToken('');
+
+    if (!formData.name.trim()) {
+      setMessage('请输入令牌名称');
+      return;
+    }
+    if (formData.scopes.length === 0) {
+      setMessage('请至少选择一个权限范围');
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const response = await fetch('/api/users/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setNewToken(result.data.token);
+        setTokens((prev) => [result.data.record, ...prev]);
+        setFormData(emptyForm);
+      } else {
+        setMessage(result.error?.message || '创建失败');
+      }
+    } catch (error) {
+      console.error('创建访问令牌失败:', error);
+      setMessage('创建失败，请稍后重试');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (item: TokenItem) => {
+    if (
+      !confirm(
+        `确定撤销令牌「${item.name}」吗？使用该令牌的程序将无法继续访问。`
+      )
+    ) {
+      return;
+    }
+
+    setRevokingId(item.id);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/users/tokens/${item.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setTokens((prev) => prev.filter((token) => token.id !== item.id));
+      } else {
+        setMessage(result.error?.message || '撤销失败');
+      }
+    } catch (error) {
+      console.error('撤销访问令牌失败:', error);
+      setMessage('撤销失败，请稍后重试');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>访问令牌</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600">
+            访问令牌用于脚本或第三方工具调用 API，请求时在请求头中携带{' '}
+            <code className="rounded bg-gray-100 px-1">
+              Authorization: Bearer &lt;令牌&gt;
+            </code>
+            。令牌只能访问所选的权限范围，不能用于修改密码、两步验证等账号安全操作。
+          </p>
+
+          {newToken && (
+            <div className="rounded-md border border-green-200 bg-green-50 p-4">
+              <p className="text-sm font-medium text-green-800">
+                令牌已创建，请立即复制保存，关闭后将无法再次查看
+              </p>
+              <code className="mt-2 block break-all rounded bg-white px-3 py-2 font-mono text-sm text-gray-900">
+                {newToken}
+              </code>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              label="令牌名称"
+              name="name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="例如：发布脚本"
+              maxLength={100}
+            />
+
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700">
+                权限范围
+              </legend>
+              <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                {availableScopes.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-center space-x-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={formData.scopes.includes(scope)}
+                      onChange={(e) => toggleScope(scope, e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <span>
+                      {tokenScopeLabels[scope]}
+                      <span className="ml-1 text-xs text-gray-400">
+                        {scope}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div>
+              <label
+                htmlFor="expiresInDays"
+                className="block text-sm font-medium text-gray-700"
+              >
+                有效期
+              </label>
+              <select
+                id="expiresInDays"
+                value={formData.expiresInDays}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    expiresInDays: Number(e.target.value),
+                  }))
+                }
+                className="mt-1 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:w-48"
+              >
+                {expiryOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <Button type="submit" loading={isCreating}>
+                创建令牌
+              </Button>
+              {message && (
+                <span className="text-sm text-gray-600">{message}</span>
+              )}
+            </div>
+          </form>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+            </div>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-gray-500">还没有创建访问令牌</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {tokens.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      {item.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500">
+                        {item.tokenPrefix}…
+                      </span>
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {item.scopes.join('、')}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(item.expiresAt), {
+                        addSuffix: true,
+                        locale: zhCN,
+                      })}
+                      过期 ·{' '}
+                      {item.lastUsedAt
+                        ? `最近使用 ${formatDistanceToNow(
+                            new Date(item.lastUsedAt),
+                            { addSuffix: true, locale: zhCN }
+                          )}`
+                        : '从未使用'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(item)}
+                    loading={revokingId === item.id}
+                    disabled={revokingId !== null}
+                  >
+                    撤销
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
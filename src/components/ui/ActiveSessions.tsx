@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { signOut } from 'next-auth/react';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Button } from './button';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+import { describeUserAgent } from '@/lib/user-agent';
+
+interface SessionItem {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastActiveAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/users/sessions');
+      const result = await response.json();
+      if (result.success) {
+        setSessions(result.data.sessions);
+      }
+    } catch (error) {
+      console.error('获取登录设备失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (item: SessionItem) => {
+    if (item.current && !confirm('退出当前设备后需要重新登录，确定退出吗？')) {
+      return;
+    }
+
+    setRevokingId(item.id);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/users/sessions/${item.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setMessage(result.error?.message || '退出失败');
+      } else if (result.data.current) {
+        await signOut({ callbackUrl: '/auth/login' });
+      } else {
+        setSessions((prev) => prev.filter((session) => session.id !== item.id));
+      }
+    } catch (error) {
+      console.error('退出设备失败:', error);
+      setMessage('退出失败，请稍后重试');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('确定退出除当前设备外的所有设备吗？')) return;
+
+    setRevokingId('others');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/users/sessions', {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSessions((prev) => prev.filter((session) => session.current));
+        setMessage(result.message);
+      } else {
+        setMessage(result.error?.message || '退出失败');
+      }
+    } catch (error) {
+      console.error('退出其他设备失败:', error);
+      setMessage('退出失败，请稍后重试');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>登录设备</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="divide-y divide-gray-100">
+              {sessions.map((item) => {
+                const client = describeUserAgent(item.userAgent);
+                return (
+                  <li
+                    key={item.id}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {client.browser} · {client.os}
+                        {client.mobile && '（移动端）'}
+                        {item.current && (
+                          <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-700">
+                            当前设备
+                          </span>
+                        )}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {item.ipAddress || '未知 IP'} · 最近活动{' '}
+                        {formatDistanceToNow(new Date(item.lastActiveAt), {
+                          addSuffix: true,
+                          locale: zhCN,
+                        })}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(item)}
+                      loading={revokingId === item.id}
+                      disabled={revokingId !== null}
+                    >
+                      退出
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex items-center space-x-4">
+              {hasOtherSessions && (
+                <Button
+                  variant="destructive"
+                  onClick={handleRevokeOthers}
+                  loading={revokingId === 'others'}
+                  disabled={revokingId !== null}
+                >
+                  退出其他所有设备
+                </Button>
+              )}
+              {message && (
+                <span className="text-sm text-gray-600">{message}</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
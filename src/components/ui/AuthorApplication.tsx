@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from './button';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+import { Textarea } from './textarea';
+
+// 与服务端 src/lib/author-applications.ts 中的限制保持一致
+const MOTIVATION_MIN_LENGTH = 20;
+const MOTIVATION_MAX_LENGTH = 2000;
+
+interface ApplicationItem {
+  id: string;
+  motivation: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export function AuthorApplication() {
+  const [application, setApplication] = useState<ApplicationItem | null>(null);
+  const [motivation, setMotivation] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchApplication = async () => {
+      try {
+        const response = await fetch('/api/users/author-application');
+        const result = await response.json();
+        if (result.success) {
+          setApplication(result.data.application);
+        }
+      } catch (error) {
+        console.error('获取作者申请失败:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchApplication();
+  }, []);
+
+  const trimmedLength = motivation.trim().length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/author-applications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ motivation: motivation.trim() }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setApplication(result.data.application);
+        setMotivation('');
+      } else {
+        setMessage(result.error?.message || '提交申请失败');
+      }
+    } catch (error) {
+      console.error('提交作者申请失败:', error);
+      setMessage('提交申请失败，请稍后重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isPending = application?.status === 'PENDING';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>成为作者</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {application && (
+              <div className="rounded-md bg-gray-50 p-3 text-sm">
+                <p className="font-medium text-gray-900">
+                  {isPending
+                    ? '申请审核中，结果会通过站内通知告知你'
+                    : application.status === 'APPROVED'
+                      ? '申请已通过'
+                      : '申请未通过，可以修改申请理由后重新提交'}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                  提交于 {format(new Date(application.createdAt), 'yyyy-MM-dd')}
+                  {application.reviewedAt &&
+                    `，审核于 ${format(new Date(application.reviewedAt), 'yyyy-MM-dd')}`}
+                </p>
+                {application.reviewNote && (
+                  <p className="mt-1 text-gray-600">
+                    审核意见：{application.reviewNote}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!isPending && (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  作者可以发布文章。请说明你想写的内容和相关经验，管理员审核通过后即可发布。
+                </p>
+                <Textarea
+                  value={motivation}
+                  onChange={(e) => setMotivation(e.target.value)}
+                  rows={5}
+                  maxLength={MOTIVATION_MAX_LENGTH}
+                  placeholder={`申请理由，至少 ${MOTIVATION_MIN_LENGTH} 字`}
+                />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-500">
+                    {trimmedLength} / {MOTIVATION_MAX_LENGTH}
+                  </span>
+                  <Button
+                    type="submit"
+                    size="sm"
+                    loading={isSubmitting}
+                    disabled={trimmedLength < MOTIVATION_MIN_LENGTH}
+                  >
+                    提交申请
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {message && <p className="text-sm text-gray-600">{message}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from './button';
+import { Input } from './input';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+
+const emptyForm = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+export function ChangePasswordForm() {
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = '请输入当前密码';
+    }
+
+    if (formData.newPassword.length < 6) {
+      newErrors.newPassword = '密码至少6个字符';
+    } else if (!/^(?=.*[a-zA-Z])(?=.*\d)/.test(formData.newPassword)) {
+      newErrors.newPassword = '密码必须包含字母和数字';
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = '新密码不能与当前密码相同';
+    }
+
+    if (formData.confirmPassword !== formData.newPassword) {
+      newErrors.confirmPassword = '两次输入的密码不一致';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/users/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentPassword: formData.currentPassword,
+          newPassword: formData.newPassword,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        // 修改密码后其他设备上的登录失效，当前会话保留
+        setFormData(emptyForm);
+        alert(result.message);
+      } else if (result.error?.code === 'INVALID_PASSWORD') {
+        setErrors({ currentPassword: result.error.message });
+      } else {
+        setErrors({ submit: result.error?.message || '修改失败' });
+      }
+    } catch (error) {
+      console.error('修改密码失败:', error);
+      setErrors({ submit: '修改失败，请稍后重试' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>修改密码</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="当前密码"
+            type="password"
+            name="currentPassword"
+            value={formData.currentPassword}
+            onChange={handleChange}
+            error={errors.currentPassword}
+            required
+          />
+          <Input
+            label="新密码"
+            type="password"
+            name="newPassword"
+            value={formData.newPassword}
+            onChange={handleChange}
+            error={errors.newPassword}
+            placeholder="至少6个字符，包含字母和数字"
+            required
+          />
+          <Input
+            label="确认新密码"
+            type="password"
+            name="confirmPassword"
+            value={formData.confirmPassword}
+            onChange={handleChange}
+            error={errors.confirmPassword}
+            required
+          />
+
+          {errors.submit && (
+            <p className="text-sm text-red-600">{errors.submit}</p>
+          )}
+
+          <div className="flex items-center space-x-4">
+            <Button type="submit" loading={isSaving}>
+              修改密码
+            </Button>
+            <span className="text-xs text-gray-500">
+              修改后其他设备上的登录会退出
+            </span>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,8 +5,12 @@ import { useSession } from 'next-auth/react';
 import { formatDistanceToNow } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import Image from 'next/image';
+import { sanitizeHtml } from '@/lib/sanitize';
+import { can } from '@/lib/permissions';
 import { Button } from './button';
 import { Card } from './card';
+import { MentionTextarea } from './MentionTextarea';
+import { ReportButton } from './ReportButton';
 
 interface CommentUser {
   id: string;
@@ -16,8 +20,13 @@ interface CommentUser {
 
 interface Comment {
   id: string;
+  userId?: string | null;
   content: string;
+  contentHtml?: string | null;
+  status?: string;
   createdAt: string;
+  editedAt?: string | null;
+  editableUntil?: string;
   user: CommentUser | null;
   replies: Comment[];
   likesCount: number;
@@ -27,6 +36,7 @@ interface Comment {
 
 interface CommentsProps {
   postId: string;
+  postAuthorId?: string;
   initialCount?: number;
 }
 
@@ -89,11 +99,10 @@ const ReplyForm = React.memo(
 
     return (
       <div className="mt-3 space-y-2">
-        <textarea
+        <MentionTextarea
           value={content}
-          onChange={(e) => setContent(e.target.value)}
+          onChange={setContent}
           placeholder={`回复 ${username}...`}
-          className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
           rows={3}
           autoFocus
         />
@@ -116,6 +125,177 @@ const ReplyForm = React.memo(
 
 ReplyForm.displayName = 'ReplyForm';
 
+// 编辑表单组件
+const EditForm = React.memo(
+  ({
+    initialContent,
+    onSubmit,
+    onCancel,
+  }: {
+    initialContent: string;
+    onSubmit: (content: string) => Promise<boolean>;
+    onCancel: () => void;
+  }) => {
+    const [content, setContent] = useState(initialContent);
+    const [saving, setSaving] = useState(false);
+
+    const handleSubmit = useCallback(async () => {
+      if (!content.trim()) return;
+      setSaving(true);
+      const saved = await onSubmit(content.trim());
+      setSaving(false);
+      if (saved) onCancel();
+    }, [content, onSubmit, onCancel]);
+
+    return (
+      <div className="mt-1 space-y-2">
+        <MentionTextarea
+          value={content}
+          onChange={setContent}
+          rows={3}
+          autoFocus
+        />
+        <div className="flex space-x-2">
+          <Button
+            onClick={handleSubmit}
+            disabled={!content.trim() || saving}
+            size="sm"
+          >
+            {saving ? '保存中...' : '保存'}
+          </Button>
+          <Button onClick={onCancel} variant="outline" size="sm">
+            取消
+          </Button>
+        </div>
+      </div>
+    );
+  }
+);
+
+EditForm.displayName = 'EditForm';
+
+// 评论内容和操作栏 - 评论和回复共用
+const CommentBody = React.memo(
+  ({
+    comment,
+    session,
+    postAuthorId,
+    onLike,
+    liking,
+    onReply,
+    onEdit,
+    onDelete,
+  }: {
+    comment: Comment;
+    session: ReturnType<typeof useSession>['data'];
+    postAuthorId?: string;
+    onLike: (commentId: string, isLiked: boolean) => void;
+    liking: boolean;
+    onReply?: () => void;
+    onEdit: (commentId: string, content: string) => Promise<boolean>;
+    onDelete: (commentId: string) => void;
+  }) => {
+    const [editing, setEditing] = useState(false);
+    const isDeleted = comment.status === 'DELETED';
+    const canEdit =
+      can(session?.user, 'comment.edit', { authorId: comment.userId }) &&
+      !!comment.editableUntil &&
+      new Date(comment.editableUntil) > new Date();
+    const canDelete =
+      can(session?.user, 'comment.delete', { authorId: comment.userId }) ||
+      can(session?.user, 'comment.moderate', { authorId: postAuthorId });
+
+    const handleEdit = useCallback(
+      (content: string) => onEdit(comment.id, content),
+      [comment.id, onEdit]
+    );
+
+    if (isDeleted) {
+      return (
+        <div className="mt-1 text-sm italic text-gray-400">
+          {comment.content}
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="text-sm text-gray-500">
+          {formatDistanceToNow(new Date(comment.createdAt), {
+            addSuffix: true,
+            locale: zhCN,
+          })}
+          {comment.editedAt && (
+            <span
+              className="ml-2 text-xs text-gray-400"
+              title={`编辑于 ${new Date(comment.editedAt).toLocaleString()}`}
+            >
+              (已编辑)
+            </span>
+          )}
+        </div>
+        {editing ? (
+          <EditForm
+            initialContent={comment.content}
+            onSubmit={handleEdit}
+            onCancel={() => setEditing(false)}
+          />
+        ) : comment.contentHtml ? (
+          <div
+            className="markdown-body prose prose-sm mt-1 max-w-none text-gray-800"
+            dangerouslySetInnerHTML={{
+              __html: sanitizeHtml(comment.contentHtml, 'comment'),
+            }}
+          />
+        ) : (
+          <div className="mt-1 text-gray-800">{comment.content}</div>
+        )}
+
+        <div className="mt-2 flex items-center space-x-4">
+          <button
+            className={`text-sm ${comment.isLiked ? 'text-red-500' : 'text-gray-500'} hover:text-red-600`}
+            disabled={liking}
+            onClick={() => onLike(comment.id, !!comment.isLiked)}
+          >
+            {comment.isLiked ? '❤️' : '🤍'} {comment.likesCount}
+          </button>
+          {session && onReply && (
+            <button
+              onClick={onReply}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              回复
+            </button>
+          )}
+          {canEdit && !editing && (
+            <button
+              onClick={() => setEditing(true)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              编辑
+            </button>
+          )}
+          {canDelete && (
+            <button
+              onClick={() => onDelete(comment.id)}
+              className="text-sm text-gray-500 hover:text-red-600"
+            >
+              删除
+            </button>
+          )}
+          <ReportButton
+            targetType="COMMENT"
+            targetId={comment.id}
+            ownerId={comment.userId}
+          />
+        </div>
+      </>
+    );
+  }
+);
+
+CommentBody.displayName = 'CommentBody';
+
 // 单个评论组件 - 使用 memo 优化
 const CommentItem = React.memo(
   ({
@@ -126,8 +306,11 @@ const CommentItem = React.memo(
     onSubmitReply,
     isSubmitting,
     session,
+    postAuthorId,
     onLike,
     liking,
+    onEdit,
+    onDelete,
   }: {
     comment: Comment;
     replyingTo: string | null;
@@ -136,43 +319,31 @@ const CommentItem = React.memo(
     onSubmitReply: (commentId: string, content: string) => void;
     isSubmitting: boolean;
     session: ReturnType<typeof useSession>['data'];
+    postAuthorId?: string;
     onLike: (commentId: string, isLiked: boolean) => void;
     liking: boolean;
+    onEdit: (commentId: string, content: string) => Promise<boolean>;
+    onDelete: (commentId: string) => void;
   }) => {
     const handleReplyClick = useCallback(() => {
       onReply(comment.id);
     }, [comment.id, onReply]);
 
     return (
-      <div className="space-y-3">
+      <div id={`comment-${comment.id}`} className="scroll-mt-20 space-y-3">
         <div className="flex items-start space-x-3">
           <UserAvatar user={comment.user} />
           <div className="flex-1">
-            <div className="text-sm text-gray-500">
-              {formatDistanceToNow(new Date(comment.createdAt), {
-                addSuffix: true,
-                locale: zhCN,
-              })}
-            </div>
-            <div className="mt-1 text-gray-800">{comment.content}</div>
-
-            <div className="mt-2 flex items-center space-x-4">
-              <button
-                className={`text-sm ${comment.isLiked ? 'text-red-500' : 'text-gray-500'} hover:text-red-600`}
-                disabled={liking}
-                onClick={() => onLike(comment.id, !!comment.isLiked)}
-              >
-                {comment.isLiked ? '❤️' : '🤍'} {comment.likesCount}
-              </button>
-              {session && (
-                <button
-                  onClick={handleReplyClick}
-                  className="text-sm text-blue-600 hover:text-blue-800"
-                >
-                  回复
-                </button>
-              )}
-            </div>
+            <CommentBody
+              comment={comment}
+              session={session}
+              postAuthorId={postAuthorId}
+              onLike={onLike}
+              liking={liking}
+              onReply={handleReplyClick}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
 
             {/* 回复表单 */}
             {replyingTo === comment.id && (
@@ -189,25 +360,22 @@ const CommentItem = React.memo(
             {comment.replies.length > 0 && (
               <div className="mt-4 space-y-3 border-l-2 border-gray-100 pl-4">
                 {comment.replies.map((reply) => (
-                  <div key={reply.id} className="flex items-start space-x-3">
+                  <div
+                    key={reply.id}
+                    id={`comment-${reply.id}`}
+                    className="flex scroll-mt-20 items-start space-x-3"
+                  >
                     <UserAvatar user={reply.user} />
                     <div className="flex-1">
-                      <div className="text-sm text-gray-500">
-                        {formatDistanceToNow(new Date(reply.createdAt), {
-                          addSuffix: true,
-                          locale: zhCN,
-                        })}
-                      </div>
-                      <div className="mt-1 text-gray-800">{reply.content}</div>
-                      <div className="mt-2">
-                        <button
-                          className={`text-sm ${reply.isLiked ? 'text-red-500' : 'text-gray-500'} hover:text-red-600`}
-                          disabled={liking}
-                          onClick={() => onLike(reply.id, !!reply.isLiked)}
-                        >
-                          {reply.isLiked ? '❤️' : '🤍'} {reply.likesCount}
-                        </button>
-                      </div>
+                      <CommentBody
+                        comment={reply}
+                        session={session}
+                        postAuthorId={postAuthorId}
+                        onLike={onLike}
+                        liking={liking}
+                        onEdit={onEdit}
+                        onDelete={onDelete}
+                      />
                     </div>
                   </div>
                 ))}
@@ -222,7 +390,11 @@ const CommentItem = React.memo(
 
 CommentItem.displayName = 'CommentItem';
 
-export function Comments({ postId, initialCount = 0 }: CommentsProps) {
+export function Comments({
+  postId,
+  postAuthorId,
+  initialCount = 0,
+}: CommentsProps) {
   const { data: session } = useSession();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -387,6 +559,10 @@ export function Comments({ postId, initialCount = 0 }: CommentsProps) {
         setNewComment('');
         // 重新加载评论列表
         loadComments();
+        // 待审核的评论暂不显示，提示用户
+        if (data.data.comment.status === 'PENDING') {
+          alert(data.message);
+        }
       } else {
         alert(data.error || '评论失败');
       }
@@ -422,6 +598,10 @@ export function Comments({ postId, initialCount = 0 }: CommentsProps) {
           setReplyingTo(null);
           // 重新加载评论列表
           loadComments();
+          // 待审核的评论暂不显示，提示用户
+          if (data.data.comment.status === 'PENDING') {
+            alert(data.message);
+          }
         } else {
           alert(data.error || '回复失败');
         }
@@ -435,6 +615,65 @@ export function Comments({ postId, initialCount = 0 }: CommentsProps) {
     [session, postId, loadComments]
   );
 
+  // 编辑评论，返回是否保存成功
+  const handleEdit = useCallback(async (commentId: string, content: string) => {
+    try {
+      const response = await fetch(`/api/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error?.message || '编辑失败');
+        return false;
+      }
+
+      const updated = data.data.comment;
+      const apply = (c: Comment) =>
+        c.id === commentId
+          ? {
+              ...c,
+              content: updated.content,
+              contentHtml: updated.contentHtml,
+              editedAt: updated.editedAt,
+            }
+          : c;
+      setComments((prev) =>
+        prev.map((c) => ({ ...apply(c), replies: c.replies.map(apply) }))
+      );
+      return true;
+    } catch (error) {
+      console.error('编辑评论失败:', error);
+      alert('编辑失败，请重试');
+      return false;
+    }
+  }, []);
+
+  // 删除评论后重新加载，有回复的评论会显示为占位内容
+  const handleDelete = useCallback(
+    async (commentId: string) => {
+      if (!confirm('确定要删除这条评论吗？')) return;
+
+      try {
+        const response = await fetch(`/api/comments/${commentId}`, {
+          method: 'DELETE',
+        });
+        const data = await response.json();
+        if (data.success) {
+          setPage(1);
+          loadComments();
+        } else {
+          alert(data.error?.message || '删除失败');
+        }
+      } catch (error) {
+        console.error('删除评论失败:', error);
+        alert('删除失败，请重试');
+      }
+    },
+    [loadComments]
+  );
+
   // 开始回复
   const handleReply = useCallback((commentId: string) => {
     setReplyingTo(commentId);
@@ -476,11 +715,10 @@ export function Comments({ postId, initialCount = 0 }: CommentsProps) {
           <div className="flex items-start space-x-3">
             <UserAvatar user={session.user as CommentUser} />
             <div className="flex-1">
-              <textarea
+              <MentionTextarea
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                placeholder="写下你的评论..."
-                className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                onChange={setNewComment}
+                placeholder="写下你的评论，输入 @ 提及其他用户..."
                 rows={4}
               />
               <div className="mt-2 flex justify-end">
@@ -519,8 +757,11 @@ export function Comments({ postId, initialCount = 0 }: CommentsProps) {
                 onSubmitReply={handleSubmitReply}
                 isSubmitting={submitting}
                 session={session}
+                postAuthorId={postAuthorId}
                 onLike={handleLike}
                 liking={!!liking[comment.id]}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
               />
             ))}
 
@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Button } from './button';
+
+interface FollowButtonProps {
+  userId: string;
+  className?: string;
+}
+
+export function FollowButton({ userId, className = '' }: FollowButtonProps) {
+  const { data: session } = useSession();
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [followersCount, setFollowersCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const checkFollowStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/users/${userId}/follow`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setIsFollowing(data.data.isFollowing);
+          setFollowersCount(data.data.followersCount);
+        }
+      }
+    } catch (error) {
+      console.error('检查关注状态失败:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    checkFollowStatus();
+  }, [session, checkFollowStatus]);
+
+  // 自己的文章不显示关注按钮
+  if (session?.user?.id === userId) {
+    return null;
+  }
+
+  const handleFollow = async () => {
+    if (!session) {
+      alert('请先登录');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/follow`, {
+        method: isFollowing ? 'DELETE' : 'POST',
+      });
+      const data = await response.json();
+      if (data.success) {
+        setIsFollowing(!isFollowing);
+        setFollowersCount((count) => (isFollowing ? count - 1 : count + 1));
+      } else {
+        alert(data.error?.message || '操作失败');
+        await checkFollowStatus();
+      }
+    } catch (error) {
+      console.error('关注操作失败:', error);
+      alert('网络错误，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={isFollowing ? 'outline' : 'default'}
+      size="sm"
+      onClick={handleFollow}
+      disabled={loading}
+      className={className}
+    >
+      {isFollowing ? '已关注' : '关注'} · {followersCount}
+    </Button>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { signIn } from 'next-auth/react';
+import { format } from 'date-fns';
+import { Button } from './button';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+
+interface ProviderItem {
+  id: string;
+  name: string;
+  linked: boolean;
+  linkedAt: string | null;
+}
+
+export function LinkedAccounts() {
+  const [providers, setProviders] = useState<ProviderItem[]>([]);
+  const [hasPassword, setHasPassword] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch('/api/users/accounts');
+      const result = await response.json();
+      if (result.success) {
+        setProviders(result.data.providers);
+        setHasPassword(result.data.hasPassword);
+      }
+    } catch (error) {
+      console.error('获取关联账号失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  // 已登录状态下使用第三方登录即关联该账号，完成后回到个人资料页
+  const handleLink = async (provider: ProviderItem) => {
+    setPendingId(provider.id);
+    await signIn(provider.id, { callbackUrl: '/profile' });
+  };
+
+  const handleUnlink = async (provider: ProviderItem) => {
+    if (!confirm(`确定解除与 ${provider.name} 的关联吗？`)) return;
+
+    setPendingId(provider.id);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/users/accounts/${provider.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setProviders((prev) =>
+          prev.map((item) =>
+            item.id === provider.id
+              ? { ...item, linked: false, linkedAt: null }
+              : item
+          )
+        );
+      } else {
+        setMessage(result.error?.message || '解除关联失败');
+      }
+    } catch (error) {
+      console.error('解除关联失败:', error);
+      setMessage('解除关联失败，请稍后重试');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // 没有启用任何第三方登录方式时不显示
+  if (!isLoading && providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>关联账号</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!hasPassword && (
+              <p className="text-sm text-gray-600">
+                账号尚未设置密码，可通过
+                <Link
+                  href="/auth/forgot-password"
+                  className="mx-1 text-blue-600 hover:text-blue-800"
+                >
+                  找回密码
+                </Link>
+                设置，设置后即可使用邮箱和密码登录。
+              </p>
+            )}
+
+            <ul className="divide-y divide-gray-100">
+              {providers.map((provider) => (
+                <li
+                  key={provider.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{provider.name}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {provider.linked && provider.linkedAt
+                        ? `已于 ${format(new Date(provider.linkedAt), 'yyyy-MM-dd')} 关联`
+                        : '未关联'}
+                    </p>
+                  </div>
+                  {provider.linked ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnlink(provider)}
+                      loading={pendingId === provider.id}
+                      disabled={pendingId !== null}
+                    >
+                      解除关联
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleLink(provider)}
+                      loading={pendingId === provider.id}
+                      disabled={pendingId !== null}
+                    >
+                      关联
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {message && <p className="text-sm text-gray-600">{message}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
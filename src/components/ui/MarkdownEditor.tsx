@@ -17,17 +17,48 @@ const MarkdownEditor = React.forwardRef<
 >(({ value, onChange, placeholder, className }, ref) => {
   const [isPreview, setIsPreview] = React.useState(false);
 
-  // 简单的 Markdown 渲染函数
-  const renderMarkdown = (markdown: string) => {
-    return markdown
-      .replace(/^# (.*$)/gim, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-      .replace(/\*\*(.*)\*\*/gim, '<strong>$1</strong>')
-      .replace(/\*(.*)\*/gim, '<em>$1</em>')
-      .replace(/`(.*)`/gim, '<code>$1</code>')
-      .replace(/\n/gim, '<br />');
-  };
+  const [previewHtml, setPreviewHtml] = React.useState('');
+  const [isRendering, setIsRendering] = React.useState(false);
+
+  // 预览由服务端渲染，与文章详情页使用同一渲染管线
+  React.useEffect(() => {
+    if (!isPreview || !value) {
+      setPreviewHtml('');
+      setIsRendering(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const loadPreview = async () => {
+      try {
+        setIsRendering(true);
+        const response = await fetch('/api/posts/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: value }),
+          signal: controller.signal,
+        });
+        const result = await response.json();
+        setPreviewHtml(
+          result.success
+            ? result.data.html
+            : '<p class="text-red-600">预览失败，请稍后重试</p>'
+        );
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('加载预览失败:', error);
+        setPreviewHtml('<p class="text-red-600">预览失败，请稍后重试</p>');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsRendering(false);
+        }
+      }
+    };
+
+    loadPreview();
+    return () => controller.abort();
+  }, [isPreview, value]);
 
   return (
     <div className={cn('space-y-3', className)}>
@@ -73,12 +104,12 @@ const MarkdownEditor = React.forwardRef<
           <div
             className={cn(
               'border-input w-full rounded-md border bg-gray-50 px-3 py-2 text-base shadow-sm md:text-sm',
-              'prose prose-sm min-h-[400px] max-w-none'
+              'prose prose-sm markdown-body min-h-[400px] max-w-none'
             )}
             dangerouslySetInnerHTML={{
-              __html: value
-                ? renderMarkdown(value)
-                : '<p class="text-gray-500">暂无内容</p>',
+              __html: isRendering
+                ? '<p class="text-gray-500">正在生成预览...</p>'
+                : previewHtml || '<p class="text-gray-500">暂无内容</p>',
             }}
           />
         )}
@@ -86,7 +117,7 @@ const MarkdownEditor = React.forwardRef<
 
       {/* 提示信息 */}
       <div className="text-xs text-gray-500">
-        支持 Markdown 语法：# 标题，**粗体**，*斜体*，`代码`
+        支持 Markdown（GFM）语法：标题、列表、链接、表格、代码块、脚注等
       </div>
     </div>
   );
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import Image from 'next/image';
+import { cn } from '@/lib/utils';
+
+interface MentionUser {
+  id: string;
+  username: string;
+  avatarUrl?: string | null;
+}
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+// 光标前的 @查询：@ 前不能是字母、数字、点、斜杠或 @（排除邮箱地址）
+const QUERY_PATTERN = /(?:^|[^A-Za-z0-9_@./])@([A-Za-z0-9_]{1,20})$/;
+
+// 输入停止后延迟搜索，避免每次按键都请求
+const SEARCH_DELAY = 200;
+
+// 支持 @用户名 自动补全的文本框
+export function MentionTextarea({
+  value,
+  onChange,
+  placeholder,
+  rows = 3,
+  autoFocus,
+  className,
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [users, setUsers] = useState<MentionUser[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // 根据光标位置更新当前的 @查询
+  const updateQuery = useCallback((textarea: HTMLTextAreaElement) => {
+    const beforeCaret = textarea.value.slice(0, textarea.selectionStart);
+    const match = beforeCaret.match(QUERY_PATTERN);
+    setQuery(match ? match[1] : null);
+  }, []);
+
+  useEffect(() => {
+    if (!query) {
+      setUsers([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/users/search?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        const data = await response.json();
+        if (data.success) {
+          setUsers(data.data.users);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('搜索用户失败:', error);
+        }
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // 用选中的用户名替换光标前的 @查询
+  const selectUser = useCallback(
+    (user: MentionUser) => {
+      const textarea = textareaRef.current;
+      if (!textarea || query === null) return;
+
+      const caret = textarea.selectionStart;
+      const start = caret - query.length - 1;
+      const inserted = `@${user.username} `;
+      onChange(value.slice(0, start) + inserted + value.slice(caret));
+      setQuery(null);
+
+      // 等待内容更新后把光标移到插入的用户名之后
+      requestAnimationFrame(() => {
+        const position = start + inserted.length;
+        textarea.focus();
+        textarea.setSelectionRange(position, position);
+      });
+    },
+    [onChange, query, value]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (users.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % users.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => (index - 1 + users.length) % users.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        selectUser(users[activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setQuery(null);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(e.currentTarget)}
+        onBlur={() => setQuery(null)}
+        placeholder={placeholder}
+        className={cn(
+          'w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+          className
+        )}
+        rows={rows}
+        autoFocus={autoFocus}
+      />
+
+      {query !== null && users.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 z-10 mt-1 max-h-60 w-64 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {users.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // 使用 mousedown 在文本框失去焦点前完成选择
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectUser(user);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex cursor-pointer items-center space-x-2 px-3 py-2 text-sm',
+                index === activeIndex ? 'bg-blue-50 text-blue-700' : ''
+              )}
+            >
+              {user.avatarUrl ? (
+                <Image
+                  src={user.avatarUrl}
+                  alt={user.username}
+                  width={24}
+                  height={24}
+                  className="h-6 w-6 rounded-full object-cover"
+                />
+              ) : (
+                <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gray-300 text-xs font-medium text-gray-600">
+                  {user.username[0]?.toUpperCase()}
+                </span>
+              )}
+              <span>@{user.username}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
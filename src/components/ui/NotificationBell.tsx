@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  content: string;
+  isRead: boolean;
+  lastActivityAt: string;
+  data?: { link?: string } | null;
+}
+
+// 下拉列表中最多显示的通知数量
+const MAX_ITEMS = 10;
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // 订阅实时通知流，EventSource 断开后会自动重连
+  useEffect(() => {
+    const source = new EventSource('/api/notifications/stream');
+
+    source.addEventListener('unread', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setUnreadCount(data.unreadCount);
+    });
+
+    source.addEventListener('notification', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setUnreadCount(data.unreadCount);
+      // 合并通知会以相同 id 再次推送，移到列表顶部
+      setNotifications((prev) =>
+        [
+          data.notification,
+          ...prev.filter((item) => item.id !== data.notification.id),
+        ].slice(0, MAX_ITEMS)
+      );
+    });
+
+    return () => {
+      source.close();
+    };
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/notifications?limit=${MAX_ITEMS}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setNotifications(result.data.notifications);
+        }
+      }
+    } catch (error) {
+      console.error('加载通知失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadNotifications();
+    }
+  }, [isOpen, loadNotifications]);
+
+  // 点击外部关闭下拉菜单
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  // 点击通知：标记已读并跳转
+  const handleClick = async (notification: NotificationItem) => {
+    setIsOpen(false);
+
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((item) =>
+          item.id === notification.id ? { ...item, isRead: true } : item
+        )
+      );
+      try {
+        await fetch('/api/notifications', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: notification.id }),
+        });
+      } catch (error) {
+        console.error('标记已读失败:', error);
+      }
+    }
+
+    if (notification.data?.link) {
+      router.push(notification.data.link);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        className="relative rounded-full p-1 text-gray-500 transition-colors hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <span className="sr-only">
+          通知{unreadCount > 0 ? `（${unreadCount} 条未读）` : ''}
+        </span>
+        <svg
+          className="h-6 w-6"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-red-500 px-1 text-xs font-medium text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-80 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5"
+          role="menu"
+        >
+          <div className="border-b border-gray-200 px-4 py-2 text-sm font-medium text-gray-900">
+            通知
+          </div>
+          {isLoading && notifications.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <div className="h-5 w-5 animate-spin rounded-full border-b-2 border-blue-500" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-4 text-center text-sm text-gray-500">
+              暂无通知
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => handleClick(notification)}
+                    className={cn(
+                      'block w-full px-4 py-2 text-left text-sm transition-colors hover:bg-gray-100',
+                      !notification.isRead && 'bg-blue-50'
+                    )}
+                  >
+                    <p className="text-gray-900">{notification.content}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formatDistanceToNow(
+                        new Date(notification.lastActivityAt),
+                        {
+                          addSuffix: true,
+                          locale: zhCN,
+                        }
+                      )}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link
+            href="/notifications"
+            className="block border-t border-gray-200 px-4 py-2 text-center text-sm text-blue-600 hover:bg-gray-100"
+            onClick={() => setIsOpen(false)}
+          >
+            查看全部通知
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from './button';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+
+interface ChannelPreference {
+  type: string;
+  inApp: boolean;
+  email: boolean;
+}
+
+type DigestFrequency = 'NEVER' | 'DAILY' | 'WEEKLY';
+
+const typeLabels: Record<string, string> = {
+  COMMENT: '评论我的文章',
+  REPLY: '回复我的评论',
+  LIKE: '点赞',
+  FAVORITE: '收藏我的文章',
+  FOLLOW: '新的关注者',
+  MENTION: '提到我',
+};
+
+const digestOptions: Array<{ value: DigestFrequency; label: string }> = [
+  { value: 'NEVER', label: '不发送' },
+  { value: 'DAILY', label: '每日' },
+  { value: 'WEEKLY', label: '每周' },
+];
+
+export function NotificationPreferences() {
+  const [types, setTypes] = useState<ChannelPreference[]>([]);
+  const [digestFrequency, setDigestFrequency] =
+    useState<DigestFrequency>('DAILY');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch('/api/users/notification-preferences');
+        const result = await response.json();
+        if (result.success) {
+          setTypes(result.data.preferences.types);
+          setDigestFrequency(result.data.preferences.digestFrequency);
+        }
+      } catch (error) {
+        console.error('获取通知设置失败:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const updateType = (
+    type: string,
+    field: 'inApp' | 'email',
+    value: boolean
+  ) => {
+    setMessage('');
+    setTypes((prev) =>
+      prev.map((item) => {
+        if (item.type !== type) return item;
+        const next = { ...item, [field]: value };
+        // 关闭站内通知时不会生成通知，邮件也随之关闭
+        if (field === 'inApp' && !value) next.email = false;
+        return next;
+      })
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/users/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ types, digestFrequency }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setTypes(result.data.preferences.types);
+        setDigestFrequency(result.data.preferences.digestFrequency);
+        setMessage('通知设置已保存');
+      } else {
+        setMessage(result.error?.message || '保存失败');
+      }
+    } catch (error) {
+      console.error('保存通知设置失败:', error);
+      setMessage('保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>通知设置</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 font-medium">通知类型</th>
+                  <th className="pb-2 text-center font-medium">站内</th>
+                  <th className="pb-2 text-center font-medium">邮件</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {types.map((item) => (
+                  <tr key={item.type}>
+                    <td className="py-2">
+                      {typeLabels[item.type] || item.type}
+                    </td>
+                    <td className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={item.inApp}
+                        onChange={(e) =>
+                          updateType(item.type, 'inApp', e.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-gray-300"
+                        aria-label={`${typeLabels[item.type]}站内通知`}
+                      />
+                    </td>
+                    <td className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={item.email}
+                        disabled={!item.inApp}
+                        onChange={(e) =>
+                          updateType(item.type, 'email', e.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-gray-300 disabled:opacity-50"
+                        aria-label={`${typeLabels[item.type]}邮件通知`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div>
+              <label
+                htmlFor="digestFrequency"
+                className="block text-sm font-medium text-gray-700"
+              >
+                邮件摘要频率
+              </label>
+              <select
+                id="digestFrequency"
+                value={digestFrequency}
+                onChange={(e) => {
+                  setMessage('');
+                  setDigestFrequency(e.target.value as DigestFrequency);
+                }}
+                className="mt-1 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 sm:w-48"
+              >
+                {digestOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                开启邮件的通知会汇总未读内容，按所选频率发送一封邮件
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <Button onClick={handleSave} loading={isSaving}>
+                保存设置
+              </Button>
+              {message && (
+                <span className="text-sm text-gray-600">{message}</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
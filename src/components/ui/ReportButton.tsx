@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Button } from './button';
+
+export type ReportTargetType = 'POST' | 'COMMENT' | 'USER';
+
+export const REPORT_REASONS = [
+  { value: 'SPAM', label: '垃圾广告' },
+  { value: 'HARASSMENT', label: '骚扰或人身攻击' },
+  { value: 'HATE_SPEECH', label: '仇恨言论' },
+  { value: 'SEXUAL_CONTENT', label: '色情内容' },
+  { value: 'MISINFORMATION', label: '虚假信息' },
+  { value: 'COPYRIGHT', label: '侵犯版权' },
+  { value: 'OTHER', label: '其他' },
+] as const;
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // 内容作者，自己的内容不显示举报按钮
+  ownerId?: string | null;
+  className?: string;
+}
+
+export function ReportButton({
+  targetType,
+  targetId,
+  ownerId,
+  className = '',
+}: ReportButtonProps) {
+  const { data: session } = useSession();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<string>(REPORT_REASONS[0].value);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!session?.user?.id || session.user.id === ownerId) {
+    return null;
+  }
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setReason(REPORT_REASONS[0].value);
+    setDetails('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetType,
+          targetId,
+          reason,
+          details: details.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        alert(data.message);
+        handleClose();
+      } else {
+        alert(data.error?.message || '举报失败');
+      }
+    } catch (error) {
+      console.error('举报失败:', error);
+      alert('举报失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`text-sm text-gray-500 hover:text-red-600 ${className}`}
+      >
+        举报
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="w-full max-w-md rounded-lg bg-white p-6">
+            <h3 className="mb-4 text-lg font-semibold text-gray-900">
+              举报{targetType === 'USER' ? '用户' : '内容'}
+            </h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <fieldset className="space-y-2">
+                <legend className="mb-2 text-sm font-medium text-gray-700">
+                  举报原因
+                </legend>
+                {REPORT_REASONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="flex items-center space-x-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="radio"
+                      name="reason"
+                      value={option.value}
+                      checked={reason === option.value}
+                      onChange={() => setReason(option.value)}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </fieldset>
+
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="补充说明（可选）"
+                maxLength={1000}
+                rows={3}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleClose}>
+                  取消
+                </Button>
+                <Button type="submit" loading={submitting}>
+                  提交举报
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
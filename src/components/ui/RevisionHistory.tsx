@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { Button } from './button';
+
+interface RevisionEditor {
+  id: string;
+  username: string;
+  avatarUrl?: string | null;
+}
+
+interface Revision {
+  id: string;
+  title: string;
+  summary: string | null;
+  createdAt: string;
+  editor: RevisionEditor | null;
+}
+
+interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  content: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+}
+
+interface DiffResult {
+  lines: DiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+}
+
+interface RevisionDiff {
+  title: { from: string; to: string; changed: boolean };
+  summary: DiffResult;
+  content: DiffResult;
+}
+
+interface RestoredPost {
+  title: string;
+  summary: string | null;
+  content: string;
+}
+
+interface RevisionHistoryProps {
+  postId: string;
+  onRestored?: (post: RestoredPost) => void;
+  className?: string;
+}
+
+const CURRENT_VERSION = 'current';
+
+const diffLineStyles = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  unchanged: 'text-gray-600',
+};
+
+const diffLinePrefix = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+// 差异展示组件
+const DiffView = React.memo(({ diff }: { diff: DiffResult }) => {
+  if (diff.stats.added === 0 && diff.stats.removed === 0) {
+    return <p className="text-sm text-gray-500">无变化</p>;
+  }
+
+  return (
+    <div className="max-h-96 overflow-auto rounded-md border border-gray-200 font-mono text-xs">
+      {diff.lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn('whitespace-pre-wrap px-2', diffLineStyles[line.type])}
+        >
+          {diffLinePrefix[line.type]} {line.content}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+DiffView.displayName = 'DiffView';
+
+export function RevisionHistory({
+  postId,
+  onRestored,
+  className,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(CURRENT_VERSION);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // 加载修订列表
+  const loadRevisions = useCallback(async () => {
+    if (!postId) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/posts/${postId}/revisions`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setRevisions(result.data.revisions);
+        }
+      }
+    } catch (error) {
+      console.error('加载历史版本失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // 比较两个版本
+  const handleCompare = useCallback(
+    async (fromVersion: string, toVersion: string) => {
+      if (!fromVersion || fromVersion === toVersion) return;
+
+      try {
+        setIsComparing(true);
+        const params = new URLSearchParams({
+          from: fromVersion,
+          to: toVersion,
+        });
+        const response = await fetch(
+          `/api/posts/${postId}/revisions/diff?${params}`
+        );
+        const result = await response.json();
+        if (result.success) {
+          setDiff(result.data);
+        } else {
+          alert(result.error?.message || '比较失败');
+        }
+      } catch (error) {
+        console.error('比较历史版本失败:', error);
+        alert('比较失败');
+      } finally {
+        setIsComparing(false);
+      }
+    },
+    [postId]
+  );
+
+  // 恢复到指定版本
+  const handleRestore = async (revisionId: string) => {
+    if (!confirm('确定要恢复到此版本吗？当前内容会先保存为一个历史版本。')) {
+      return;
+    }
+
+    try {
+      setRestoringId(revisionId);
+      const response = await fetch(
+        `/api/posts/${postId}/revisions/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+      if (result.success) {
+        onRestored?.(result.data.post);
+        setDiff(null);
+        await loadRevisions();
+      } else {
+        alert(result.error?.message || '恢复失败');
+      }
+    } catch (error) {
+      console.error('恢复历史版本失败:', error);
+      alert('恢复失败');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionLabel = (revision: Revision) =>
+    `${revision.title || '无标题'} · ${formatDistanceToNow(
+      new Date(revision.createdAt),
+      { addSuffix: true, locale: zhCN }
+    )}`;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {isLoading ? (
+        <div className="flex justify-center">
+          <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无历史版本</p>
+      ) : (
+        <>
+          {/* 版本列表 */}
+          <ul className="max-h-64 space-y-2 overflow-y-auto">
+            {revisions.map((revision) => (
+              <li
+                key={revision.id}
+                className="rounded-md border border-gray-200 p-3 text-sm"
+              >
+                <p className="truncate font-medium text-gray-900">
+                  {revision.title || '无标题'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {revision.editor?.username || '已注销用户'} ·{' '}
+                  {formatDistanceToNow(new Date(revision.createdAt), {
+                    addSuffix: true,
+                    locale: zhCN,
+                  })}
+                </p>
+                <div className="mt-2 flex space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setFrom(revision.id);
+                      setTo(CURRENT_VERSION);
+                      handleCompare(revision.id, CURRENT_VERSION);
+                    }}
+                  >
+                    对比当前
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    loading={restoringId === revision.id}
+                    onClick={() => handleRestore(revision.id)}
+                  >
+                    恢复
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* 任意两个版本对比 */}
+          <div className="space-y-2">
+            <select
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">选择起始版本</option>
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  {versionLabel(revision)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={CURRENT_VERSION}>当前版本</option>
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  {versionLabel(revision)}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={!from || from === to}
+              loading={isComparing}
+              onClick={() => handleCompare(from, to)}
+            >
+              比较版本
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* 差异结果 */}
+      {diff && (
+        <div className="space-y-3">
+          {diff.title.changed && (
+            <div className="text-sm">
+              <p className="font-medium text-gray-700">标题</p>
+              <p className="bg-red-50 px-2 text-red-800">- {diff.title.from}</p>
+              <p className="bg-green-50 px-2 text-green-800">
+                + {diff.title.to}
+              </p>
+            </div>
+          )}
+          <div className="text-sm">
+            <p className="font-medium text-gray-700">摘要</p>
+            <DiffView diff={diff.summary} />
+          </div>
+          <div className="text-sm">
+            <p className="font-medium text-gray-700">
+              内容
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                +{diff.content.stats.added} / -{diff.content.stats.removed}
+              </span>
+            </p>
+            <DiffView diff={diff.content} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
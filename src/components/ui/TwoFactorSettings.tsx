@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { Button } from './button';
+import { Input } from './input';
+import { Card, CardHeader, CardTitle, CardContent } from './card';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface SetupData {
+  secret: string;
+  qrCode: string;
+}
+
+type Action = 'disable' | 'regenerate' | null;
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [action, setAction] = useState<Action>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/two-factor');
+      const result = await response.json();
+      if (result.success) {
+        setStatus(result.data);
+      }
+    } catch (error) {
+      console.error('获取两步验证状态失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const resetForm = () => {
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const post = async (url: string, body?: object) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error?.message || '操作失败');
+        return null;
+      }
+      return result;
+    } catch (error) {
+      console.error('两步验证操作失败:', error);
+      setError('操作失败，请稍后重试');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    resetForm();
+    setRecoveryCodes([]);
+    const result = await post('/api/two-factor/setup');
+    if (result) {
+      setSetup(result.data);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await post('/api/two-factor/enable', { code });
+    if (result) {
+      setSetup(null);
+      setRecoveryCodes(result.data.recoveryCodes);
+      resetForm();
+      fetchStatus();
+    }
+  };
+
+  const handleConfirmAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (action === 'disable') {
+      const result = await post('/api/two-factor/disable', { password, code });
+      if (result) {
+        setAction(null);
+        setRecoveryCodes([]);
+        resetForm();
+        fetchStatus();
+      }
+    } else if (action === 'regenerate') {
+      const result = await post('/api/two-factor/recovery-codes', { code });
+      if (result) {
+        setAction(null);
+        setRecoveryCodes(result.data.recoveryCodes);
+        resetForm();
+        fetchStatus();
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>两步验证</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {status.required && !status.enabled && (
+              <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                管理员要求你的账号启用两步验证，完成绑定前无法使用其他功能
+              </div>
+            )}
+
+            {status.enabled ? (
+              <div className="text-sm text-gray-600">
+                <p>
+                  <span className="font-medium text-green-600">已启用</span>
+                  {status.enabledAt &&
+                    `（${new Date(status.enabledAt).toLocaleDateString('zh-CN')} 启用）`}
+                </p>
+                <p className="mt-1">
+                  剩余恢复码：{status.recoveryCodesRemaining} 个
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                启用后登录时除密码外还需要输入身份验证器 App（如 Google
+                Authenticator、Microsoft Authenticator）中的验证码
+              </p>
+            )}
+
+            {recoveryCodes.length > 0 && (
+              <div className="rounded-md border border-gray-200 p-4">
+                <p className="text-sm font-medium text-gray-900">恢复码</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  请妥善保存，恢复码只显示这一次。手机丢失时可用恢复码代替验证码登录，每个只能使用一次
+                </p>
+                <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {setup && (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <div className="text-sm text-gray-600">
+                  使用身份验证器 App 扫描二维码，或手动输入密钥：
+                </div>
+                <Image
+                  src={setup.qrCode}
+                  alt="两步验证二维码"
+                  width={192}
+                  height={192}
+                  unoptimized
+                />
+                <p className="break-all font-mono text-sm">{setup.secret}</p>
+                <Input
+                  label="验证码"
+                  name="code"
+                  value={code}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCode(e.target.value)
+                  }
+                  placeholder="输入 App 中显示的 6 位验证码"
+                  autoComplete="one-time-code"
+                  required
+                />
+                <div className="flex items-center space-x-4">
+                  <Button type="submit" loading={isSaving}>
+                    确认启用
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setSetup(null);
+                      resetForm();
+                    }}
+                  >
+                    取消
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {action && (
+              <form onSubmit={handleConfirmAction} className="space-y-4">
+                {action === 'disable' && (
+                  <Input
+                    label="当前密码"
+                    type="password"
+                    name="password"
+                    value={password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setPassword(e.target.value)
+                    }
+                    required
+                  />
+                )}
+                <Input
+                  label={action === 'disable' ? '验证码或恢复码' : '验证码'}
+                  name="code"
+                  value={code}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCode(e.target.value)
+                  }
+                  autoComplete="one-time-code"
+                  required
+                />
+                <div className="flex items-center space-x-4">
+                  <Button
+                    type="submit"
+                    variant={action === 'disable' ? 'destructive' : 'default'}
+                    loading={isSaving}
+                  >
+                    {action === 'disable' ? '关闭两步验证' : '重新生成恢复码'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setAction(null);
+                      resetForm();
+                    }}
+                  >
+                    取消
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!setup && !action && (
+              <div className="flex items-center space-x-4">
+                {status.enabled ? (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        resetForm();
+                        setAction('regenerate');
+                      }}
+                    >
+                      重新生成恢复码
+                    </Button>
+                    {!status.required && (
+                      <Button
+                        variant="destructive"
+                        onClick={() => {
+                          resetForm();
+                          setAction('disable');
+                        }}
+                      >
+                        关闭
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <Button onClick={handleStartSetup} loading={isSaving}>
+                    启用两步验证
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
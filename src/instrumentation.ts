@@ -0,0 +1,17 @@
+/**
+ * Next.js 服务启动钩子 - 注册后台任务
+ *
+ * 主要功能：
+ * 1. 在 Node.js 运行时启动定时发布轮询
+ * 2. 在 Node.js 运行时启动通知邮件摘要任务
+ * 3. Edge 运行时不启动后台任务
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+
+    const { startDigestScheduler } = await import('@/lib/notification-digest');
+    startDigestScheduler();
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { DiffResult, diffLines } from '@/lib/diff';
+
+// 按差异结果还原新旧文本，用于校验编辑脚本是否正确
+const rebuild = ({ lines }: DiffResult) => ({
+  oldText: lines
+    .filter((line) => line.type !== 'added')
+    .map((line) => line.content)
+    .join('\n'),
+  newText: lines
+    .filter((line) => line.type !== 'removed')
+    .map((line) => line.content)
+    .join('\n'),
+});
+
+const numbered = (count: number, prefix = '行') =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+
+describe('行级差异比较', () => {
+  it.each([
+    ['完全相同', 'a\nb\nc', 'a\nb\nc', { added: 0, removed: 0, unchanged: 3 }],
+    ['新增一行', 'a\nc', 'a\nb\nc', { added: 1, removed: 0, unchanged: 2 }],
+    ['删除一行', 'a\nb\nc', 'a\nc', { added: 0, removed: 1, unchanged: 2 }],
+    ['修改一行', 'a\nb\nc', 'a\nx\nc', { added: 1, removed: 1, unchanged: 2 }],
+    ['从空文本新增', '', 'a\nb', { added: 2, removed: 0, unchanged: 0 }],
+    ['清空文本', 'a\nb', '', { added: 0, removed: 2, unchanged: 0 }],
+    [
+      '多处修改',
+      'a\nb\nc\nd\ne\nf',
+      'a\nc\nd\nx\ne\nf\ng',
+      { added: 2, removed: 1, unchanged: 5 },
+    ],
+  ])('%s', (_, oldText, newText, stats) => {
+    const result = diffLines(oldText, newText);
+    expect(result.stats).toEqual(stats);
+    expect(rebuild(result)).toEqual({ oldText, newText });
+  });
+
+  it('修改的行先显示删除再显示新增', () => {
+    const { lines } = diffLines('a\nb\nc', 'a\nx\nc');
+    expect(lines.map((line) => line.type)).toEqual([
+      'unchanged',
+      'removed',
+      'added',
+      'unchanged',
+    ]);
+  });
+
+  it('行号分别按新旧文本计算', () => {
+    const { lines } = diffLines('a\nb\nc', 'a\nx\ny\nc');
+    expect(
+      lines.map((line) => [line.oldLineNumber, line.newLineNumber])
+    ).toEqual([
+      [1, 1],
+      [2, null],
+      [null, 2],
+      [null, 3],
+      [3, 4],
+    ]);
+  });
+
+  it('统一 Windows 和旧 Mac 换行符', () => {
+    expect(diffLines('a\r\nb\rc', 'a\nb\nc').stats).toEqual({
+      added: 0,
+      removed: 0,
+      unchanged: 3,
+    });
+  });
+});
+
+describe('长文本', () => {
+  it('长文中少量修改时给出精确差异', () => {
+    const oldLines = numbered(20000);
+    const newLines = [...oldLines];
+    newLines.splice(5000, 1, '修改的行');
+    newLines.splice(15000, 0, '新增的行');
+
+    const result = diffLines(oldLines.join('\n'), newLines.join('\n'));
+
+    expect(result.stats).toEqual({ added: 2, removed: 1, unchanged: 19999 });
+    expect(rebuild(result)).toEqual({
+      oldText: oldLines.join('\n'),
+      newText: newLines.join('\n'),
+    });
+  });
+
+  it('大幅改写时退化为整段删除再整段新增', () => {
+    const oldText = numbered(20000, '旧').join('\n');
+    const newText = numbered(20000, '新').join('\n');
+
+    const result = diffLines(oldText, newText);
+
+    expect(result.stats).toEqual({
+      added: 20000,
+      removed: 20000,
+      unchanged: 0,
+    });
+    expect(result.lines[0].type).toBe('removed');
+    expect(result.lines[20000].type).toBe('added');
+    expect(rebuild(result)).toEqual({ oldText, newText });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * 测试用数据库模拟 - 替换 @/lib/db 导出的 prisma 客户端
+ *
+ * 用法：
+ * - vi.mock('@/lib/db', () => import('./helpers/db'))
+ * - 从本模块导入 prisma 和 tx，设置返回值并断言调用
+ *
+ * 说明：
+ * - $transaction 把同一个 tx 传给回调，tx 上的调用就是事务内的写操作
+ * - 只包含现有测试用到的模型方法，需要时按同样方式补充
+ */
+import { vi } from 'vitest';
+
+export const tx = {
+  user: { update: vi.fn() },
+  userSession: { updateMany: vi.fn() },
+};
+
+export const prisma = {
+  $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  passwordResetToken: { findUnique: vi.fn(), updateMany: vi.fn() },
+  user: { update: vi.fn() },
+  userSession: { updateMany: vi.fn() },
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeUsername, pickAvailableUsername } from '@/lib/oauth-username';
+
+describe('第三方登录用户名格式转换', () => {
+  it('保留合法的用户名', () => {
+    expect(normalizeUsername('octocat_42')).toBe('octocat_42');
+  });
+
+  it('非法字符替换为下划线并合并', () => {
+    expect(normalizeUsername('octo-cat.dev')).toBe('octo_cat_dev');
+    expect(normalizeUsername('--jane  doe--')).toBe('jane_doe');
+  });
+
+  it('超过 20 个字符时截断', () => {
+    expect(normalizeUsername('a'.repeat(30))).toBe('a'.repeat(20));
+  });
+
+  it('转换后过短或为空时使用默认用户名', () => {
+    expect(normalizeUsername('张三')).toBe('user');
+    expect(normalizeUsername('ab')).toBe('user');
+    expect(normalizeUsername(null)).toBe('user');
+  });
+});
+
+describe('用户名冲突处理', () => {
+  it('未被占用时直接使用', () => {
+    expect(pickAvailableUsername('octocat', ['other'])).toBe('octocat');
+  });
+
+  it('被占用时追加递增后缀', () => {
+    expect(pickAvailableUsername('octocat', ['octocat', 'octocat_2'])).toBe(
+      'octocat_3'
+    );
+  });
+
+  it('冲突判断不区分大小写', () => {
+    expect(pickAvailableUsername('OctoCat', ['octocat'])).toBe('OctoCat_2');
+  });
+
+  it('追加后缀后不超过 20 个字符', () => {
+    const base = 'a'.repeat(20);
+    const result = pickAvailableUsername(base, [base]);
+    expect(result).toBe(`${'a'.repeat(18)}_2`);
+  });
+
+  it('候选名全部被占用时返回 null', () => {
+    const taken = ['abc'];
+    for (let n = 2; n <= 999; n++) taken.push(`abc_${n}`);
+    expect(pickAvailableUsername('abc', taken)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => import('./helpers/db'));
+vi.mock('bcryptjs', () => ({ default: { hash: vi.fn(async () => 'hashed') } }));
+
+import { resetPasswordWithToken, updatePassword } from '@/lib/password-reset';
+import { prisma, tx } from './helpers/db';
+
+const userId = BigInt(42);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  tx.userSession.updateMany.mockResolvedValue({ count: 2 });
+});
+
+describe('修改密码撤销会话', () => {
+  it('通过重置令牌设置新密码后撤销全部会话', async () => {
+    prisma.passwordResetToken.findUnique.mockResolvedValue({
+      id: BigInt(1),
+      userId,
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await resetPasswordWithToken('token', 'newPassword1');
+
+    expect(result).toEqual({ success: true, userId });
+    expect(tx.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: userId },
+        data: expect.objectContaining({ passwordHash: 'hashed' }),
+      })
+    );
+    expect(tx.userSession.updateMany).toHaveBeenCalledWith({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('登录后修改密码保留当前会话', async () => {
+    await updatePassword(userId, 'newPassword1', {
+      keepSessionId: BigInt(7),
+    });
+
+    expect(tx.userSession.updateMany).toHaveBeenCalledWith({
+      where: { userId, revokedAt: null, id: { not: BigInt(7) } },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('修改密码和撤销会话在同一事务中完成', async () => {
+    await updatePassword(userId, 'newPassword1');
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(prisma.userSession.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('令牌无效时不修改密码也不撤销会话', async () => {
+    prisma.passwordResetToken.findUnique.mockResolvedValue(null);
+
+    const result = await resetPasswordWithToken('token', 'newPassword1');
+
+    expect(result).toEqual({ success: false, reason: 'INVALID' });
+    expect(tx.user.update).not.toHaveBeenCalled();
+    expect(tx.userSession.updateMany).not.toHaveBeenCalled();
+  });
+});
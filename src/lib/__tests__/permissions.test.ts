@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PERMISSIONS,
+  PolicyAction,
+  ROLE_PERMISSIONS,
+  can,
+  hasAllPermissions,
+  normalizePermissions,
+  outranks,
+  permissionsOf,
+} from '@/lib/permissions';
+
+const user = { id: '1', role: 'USER' };
+const author = { id: '2', role: 'AUTHOR' };
+const admin = { id: '3', role: 'ADMIN' };
+
+const ownByAuthor = { authorId: '2' };
+const ownByOther = { authorId: '99' };
+
+describe('权限策略矩阵', () => {
+  const matrix: Array<[PolicyAction, boolean, boolean, boolean]> = [
+    // 操作, 普通用户, 作者, 管理员
+    ['post.create', false, true, true],
+    ['post.publish', false, true, true],
+    ['post.edit.any', false, false, true],
+    ['post.delete.any', false, false, true],
+    ['comment.delete.any', false, false, true],
+    ['comment.moderate.own', false, true, true],
+    ['comment.moderate.any', false, false, true],
+    ['comment.spam.manage', false, false, true],
+    ['category.manage', false, false, true],
+    ['report.handle', false, false, true],
+    ['user.ban', false, false, true],
+    ['user.role.manage', false, false, true],
+    ['author.review', false, false, true],
+    ['audit.view', false, false, true],
+    ['security.manage', false, false, true],
+    ['dashboard.access', false, true, true],
+    ['admin.access', false, false, true],
+  ];
+
+  it.each(matrix)('%s：普通用户 %s，作者 %s，管理员 %s', (action, u, a, m) => {
+    expect(can(user, action)).toBe(u);
+    expect(can(author, action)).toBe(a);
+    expect(can(admin, action)).toBe(m);
+  });
+
+  it('管理员拥有全部权限', () => {
+    expect(permissionsOf(admin)).toEqual([...PERMISSIONS]);
+  });
+});
+
+describe('资源归属', () => {
+  const cases: Array<
+    [string, typeof user, PolicyAction, { authorId: string }, boolean]
+  > = [
+    ['作者编辑自己的文章', author, 'post.edit', ownByAuthor, true],
+    ['作者编辑别人的文章', author, 'post.edit', ownByOther, false],
+    ['作者删除自己的文章', author, 'post.delete', ownByAuthor, true],
+    ['作者删除别人的文章', author, 'post.delete', ownByOther, false],
+    ['管理员编辑别人的文章', admin, 'post.edit', ownByOther, true],
+    ['管理员删除别人的文章', admin, 'post.delete', ownByOther, true],
+    ['普通用户编辑自己的文章', user, 'post.edit', { authorId: '1' }, false],
+    ['普通用户编辑自己的评论', user, 'comment.edit', { authorId: '1' }, true],
+    ['普通用户编辑别人的评论', user, 'comment.edit', ownByOther, false],
+    ['管理员编辑别人的评论', admin, 'comment.edit', ownByOther, false],
+    ['普通用户删除自己的评论', user, 'comment.delete', { authorId: '1' }, true],
+    ['管理员删除别人的评论', admin, 'comment.delete', ownByOther, true],
+    ['作者审核自己文章下的评论', author, 'comment.moderate', ownByAuthor, true],
+    ['作者审核别人文章下的评论', author, 'comment.moderate', ownByOther, false],
+    ['管理员审核任意文章的评论', admin, 'comment.moderate', ownByOther, true],
+  ];
+
+  it.each(cases)('%s', (_, subject, action, resource, expected) => {
+    expect(can(subject, action, resource)).toBe(expected);
+  });
+
+  it('BigInt 和字符串 ID 视为同一用户', () => {
+    expect(
+      can({ id: BigInt(2), role: 'AUTHOR' }, 'post.edit', ownByAuthor)
+    ).toBe(true);
+    expect(can(author, 'post.edit', { authorId: BigInt(2) })).toBe(true);
+  });
+
+  it('只有 .own 权限时缺少资源不通过', () => {
+    expect(can(author, 'post.edit')).toBe(false);
+    expect(can(author, 'post.edit', { authorId: null })).toBe(false);
+  });
+
+  it('缺少用户 ID 时不能按归属通过', () => {
+    expect(can({ role: 'AUTHOR' }, 'post.edit', ownByAuthor)).toBe(false);
+  });
+});
+
+describe('自定义角色', () => {
+  it('在内置角色权限之外额外授予权限', () => {
+    const moderator = {
+      ...user,
+      permissions: ['comment.moderate.any', 'report.handle'],
+    };
+    expect(can(moderator, 'comment.moderate', ownByOther)).toBe(true);
+    expect(can(moderator, 'report.handle')).toBe(true);
+    expect(can(moderator, 'category.manage')).toBe(false);
+    expect(can(moderator, 'comment.edit', { authorId: '1' })).toBe(true);
+  });
+
+  it('忽略未知的权限标识', () => {
+    expect(can({ ...user, permissions: ['*', 'post'] }, 'post.create')).toBe(
+      false
+    );
+  });
+
+  it('未知角色只拥有自定义角色授予的权限', () => {
+    expect(
+      permissionsOf({ role: 'GUEST', permissions: ['audit.view'] })
+    ).toEqual(['audit.view']);
+  });
+});
+
+describe('授予角色的权限范围', () => {
+  // 只被授予了管理用户角色权限的普通用户
+  const roleManager = {
+    id: '4',
+    role: 'USER',
+    permissions: ['user.role.manage'],
+  };
+
+  it.each([
+    ['USER', true],
+    ['AUTHOR', false],
+    ['ADMIN', false],
+  ])('自定义角色管理员授予 %s：%s', (role, expected) => {
+    expect(hasAllPermissions(roleManager, ROLE_PERMISSIONS[role])).toBe(
+      expected
+    );
+  });
+
+  it('不能修改权限超出自己范围的用户', () => {
+    expect(hasAllPermissions(roleManager, permissionsOf(author))).toBe(false);
+    expect(hasAllPermissions(roleManager, permissionsOf(user))).toBe(true);
+    expect(hasAllPermissions(author, permissionsOf(admin))).toBe(false);
+  });
+
+  it('管理员可以授予任意角色', () => {
+    for (const role of Object.keys(ROLE_PERMISSIONS)) {
+      expect(hasAllPermissions(admin, ROLE_PERMISSIONS[role])).toBe(true);
+    }
+  });
+
+  it('目标用户的自定义角色权限一并计入', () => {
+    const target = permissionsOf({
+      role: 'AUTHOR',
+      permissions: ['user.ban'],
+    });
+    expect(hasAllPermissions(author, target)).toBe(false);
+    expect(
+      hasAllPermissions({ ...author, permissions: ['user.ban'] }, target)
+    ).toBe(true);
+  });
+
+  it.each([null, undefined])('操作人为 %s 时不通过', (subject) => {
+    expect(hasAllPermissions(subject, ['post.create'])).toBe(false);
+  });
+});
+
+describe('处置其他用户', () => {
+  const banner = { id: '5', role: 'USER', permissions: ['user.ban'] };
+
+  it.each([
+    ['管理员处置作者', admin, author, true],
+    ['管理员处置普通用户', admin, user, true],
+    ['管理员之间不能互相处置', admin, { id: '6', role: 'ADMIN' }, false],
+    ['作者不能处置管理员', author, admin, false],
+    ['自定义角色处置普通用户', banner, user, true],
+    ['自定义角色不能处置作者', banner, author, false],
+    ['权限相同的自定义角色不能互相处置', banner, { ...banner, id: '6' }, false],
+    [
+      '不能处置拥有自己没有的权限的用户',
+      banner,
+      { ...user, permissions: ['audit.view'] },
+      false,
+    ],
+  ])('%s', (_, actor, target, expected) => {
+    expect(outranks(actor, target)).toBe(expected);
+  });
+
+  it('未登录时不能处置任何人', () => {
+    expect(outranks(null, user)).toBe(false);
+  });
+});
+
+describe('未登录', () => {
+  it.each([null, undefined])('用户为 %s 时一律不通过', (subject) => {
+    expect(can(subject, 'post.create')).toBe(false);
+    expect(can(subject, 'post.edit', ownByAuthor)).toBe(false);
+  });
+});
+
+describe('权限列表解析', () => {
+  it('去重并按固定顺序排列', () => {
+    expect(
+      normalizePermissions(['report.handle', 'post.create', 'post.create'])
+    ).toEqual(['post.create', 'report.handle']);
+  });
+
+  it.each([null, undefined, 'post.create', { 0: 'post.create' }, 42])(
+    '不是数组时返回空列表：%s',
+    (value) => {
+      expect(normalizePermissions(value)).toEqual([]);
+    }
+  );
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import {
+  createPostRevision,
+  formatRevision,
+  hasRevisionChanges,
+} from '@/lib/post-revisions';
+
+const post = {
+  id: BigInt(1),
+  authorId: BigInt(2),
+  lastEditorId: null,
+  title: '标题',
+  summary: '摘要',
+  content: '正文',
+};
+
+// 只记录写入参数的修订客户端
+const fakeClient = () => {
+  const create = vi.fn(async ({ data }) => data);
+  return {
+    client: { postRevision: { create } } as unknown as Parameters<
+      typeof createPostRevision
+    >[0],
+    create,
+  };
+};
+
+describe('修订快照的编写者', () => {
+  it('文章没有被修改过时编写者为作者', async () => {
+    const { client, create } = fakeClient();
+    await createPostRevision(client, post);
+    expect(create.mock.calls[0][0].data.editorId).toBe(BigInt(2));
+  });
+
+  it('编写者为最近一次修改内容的用户，而不是本次修改的用户', async () => {
+    const { client, create } = fakeClient();
+    await createPostRevision(client, { ...post, lastEditorId: BigInt(3) });
+    expect(create.mock.calls[0][0].data).toEqual({
+      postId: BigInt(1),
+      editorId: BigInt(3),
+      title: '标题',
+      summary: '摘要',
+      content: '正文',
+    });
+  });
+
+  it('编写者账号已删除时 editorId 为 null', () => {
+    const revision = formatRevision({
+      id: BigInt(10),
+      postId: BigInt(1),
+      editorId: null,
+      title: '标题',
+      summary: null,
+      content: '正文',
+      createdAt: new Date(),
+      editor: null,
+    });
+    expect(revision.editorId).toBeNull();
+    expect(revision.editor).toBeNull();
+  });
+});
+
+describe('是否需要生成修订', () => {
+  it.each([
+    ['标题变化', { title: '新标题' }, true],
+    ['内容变化', { content: '新正文' }, true],
+    ['摘要变化', { summary: '新摘要' }, true],
+    ['摘要清空', { summary: '' }, true],
+    ['内容相同', { title: '标题', content: '正文' }, false],
+    ['没有修改需要记录的字段', {}, false],
+  ])('%s', (_, changes, expected) => {
+    expect(hasRevisionChanges(post, changes)).toBe(expected);
+  });
+});
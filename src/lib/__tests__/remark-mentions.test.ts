@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { extractMentions, mentionLink } from '@/lib/remark-mentions';
+import { renderMarkdown } from '@/lib/markdown';
+
+describe('extractMentions', () => {
+  it('按出现顺序提取用户名', () => {
+    expect(extractMentions('@alice 你好，@bob_2 也来看看')).toEqual([
+      'alice',
+      'bob_2',
+    ]);
+  });
+
+  it('跨段落和列表保持出现顺序', () => {
+    expect(
+      extractMentions('第一段 @first\n\n- 列表 @second\n- **加粗 @third**')
+    ).toEqual(['first', 'second', 'third']);
+  });
+
+  it('用户名不区分大小写去重', () => {
+    expect(extractMentions('@Alice @alice @ALICE')).toEqual(['Alice']);
+  });
+
+  it('忽略邮箱地址和过短的用户名', () => {
+    expect(extractMentions('联系 user@example.com 或 @ab')).toEqual([]);
+  });
+
+  it('忽略代码和已有链接中的 @', () => {
+    const markdown = [
+      '`@inline_code`',
+      '```\n@code_block\n```',
+      '[@linked](https://example.com)',
+    ].join('\n\n');
+    expect(extractMentions(markdown)).toEqual([]);
+  });
+
+  it('空内容返回空数组', () => {
+    expect(extractMentions('')).toEqual([]);
+  });
+});
+
+describe('remarkMentions', () => {
+  it('提及渲染为用户主页链接', () => {
+    expect(renderMarkdown('你好 @alice！', 'comment')).toBe(
+      `<p>你好 <a href="${mentionLink('alice')}" class="mention">@alice</a>！</p>`
+    );
+  });
+
+  it('文章策略保留 mention 样式', () => {
+    expect(renderMarkdown('@alice', 'post')).toContain('class="mention"');
+  });
+
+  it('代码中的 @ 保持原样', () => {
+    expect(renderMarkdown('`@alice`', 'comment')).toBe(
+      '<p><code>@alice</code></p>'
+    );
+  });
+
+  it('邮箱地址不转换为提及', () => {
+    expect(renderMarkdown('user@example.com', 'comment')).not.toContain(
+      'mention'
+    );
+  });
+});
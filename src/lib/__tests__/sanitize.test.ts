@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { unified } from 'unified';
+import rehypeParse from 'rehype-parse';
+import type { Root, Element, RootContent } from 'hast';
+import { sanitizeHtml, type SanitizePolicy } from '@/lib/sanitize';
+import { renderMarkdown } from '@/lib/markdown';
+
+// 已知的 XSS 攻击载荷
+const XSS_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=http://evil.example/xss.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="javascript:alert(1)">',
+  '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<body onload=alert(1)>',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;:alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href=" javascript:alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html,<script>alert(1)</script>">x</a>',
+  '<a href="https://example.com" onclick="alert(1)">x</a>',
+  '<a href="https://example.com" target="_blank">x</a>',
+  '<iframe src="https://evil.example"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="https://evil.example/x.swf"></object>',
+  '<embed src="https://evil.example/x.swf">',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  '<input autofocus onfocus=alert(1)>',
+  '<details open ontoggle=alert(1)>',
+  '<video><source onerror=alert(1)></video>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<style>body{background:url(javascript:alert(1))}</style>',
+  '<link rel="stylesheet" href="https://evil.example/x.css">',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="https://evil.example/">',
+  '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  '<template><img src=x onerror=alert(1)></template>',
+  '<table background="javascript:alert(1)"><tr><td>x</td></tr></table>',
+  '<p id="location" name="cookie">x</p>',
+  '<form id="document"><input name="cookie"></form>',
+  '"><script>alert(1)</script>',
+  '<!--<img src="--><img src=x onerror=alert(1)//">',
+];
+
+// 任何策略下都不能出现的元素
+const FORBIDDEN_TAGS = [
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'form',
+  'svg',
+  'math',
+  'link',
+  'meta',
+  'base',
+  'body',
+  'template',
+  'noscript',
+  'video',
+];
+
+// 带协议的地址只允许 http、https 和 mailto，相对地址不受限制
+const URL_PROTOCOL = /^([a-z][a-z0-9+.-]*):/i;
+const SAFE_PROTOCOLS = ['http', 'https', 'mailto'];
+
+function parse(html: string): Root {
+  return unified().use(rehypeParse, { fragment: true }).parse(html);
+}
+
+function collectElements(nodes: RootContent[], result: Element[] = []) {
+  for (const node of nodes) {
+    if (node.type === 'element') {
+      result.push(node);
+      collectElements(node.children, result);
+    }
+  }
+  return result;
+}
+
+// 检查清洗结果中不存在可执行的内容
+function expectSafe(html: string) {
+  const elements = collectElements(parse(html).children);
+
+  for (const element of elements) {
+    expect(FORBIDDEN_TAGS).not.toContain(element.tagName);
+
+    for (const [name, value] of Object.entries(element.properties)) {
+      expect(name.toLowerCase().startsWith('on')).toBe(false);
+      expect(name).not.toBe('style');
+      expect(name).not.toBe('srcDoc');
+
+      if (['href', 'src', 'action', 'background'].includes(name)) {
+        const protocol = String(value).trim().match(URL_PROTOCOL)?.[1];
+        if (protocol) {
+          expect(SAFE_PROTOCOLS).toContain(protocol.toLowerCase());
+        }
+      }
+
+      if (name === 'id' || name === 'name') {
+        expect(String(value)).toMatch(/^(user-content-|footnote-label$)/);
+      }
+    }
+  }
+}
+
+const POLICIES: SanitizePolicy[] = ['post', 'comment', 'bio'];
+
+describe('sanitizeHtml XSS 回归测试', () => {
+  for (const policy of POLICIES) {
+    describe(`${policy} 策略`, () => {
+      it.each(XSS_PAYLOADS)('应该清除载荷 %s', (payload) => {
+        expectSafe(sanitizeHtml(payload, policy));
+      });
+    });
+  }
+});
+
+describe('renderMarkdown XSS 回归测试', () => {
+  const markdownPayloads = [
+    ...XSS_PAYLOADS,
+    '[x](javascript:alert(1))',
+    '[x](JAVASCRIPT:alert(1))',
+    '[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+    '![x](javascript:alert(1))',
+    '[x]: javascript:alert(1)\n\n[x]',
+    '<javascript:alert(1)>',
+    '```html\n<script>alert(1)</script>\n```',
+    '# <img src=x onerror=alert(1)>',
+  ];
+
+  for (const policy of ['post', 'comment'] as const) {
+    describe(`${policy} 策略`, () => {
+      it.each(markdownPayloads)('应该清除载荷 %s', (payload) => {
+        expectSafe(renderMarkdown(payload, policy));
+      });
+    });
+  }
+});
+
+describe('sanitizeHtml 策略', () => {
+  it('文章策略应该保留标题、图片、表格和代码高亮', () => {
+    const html = renderMarkdown(
+      '## 标题\n\n![图](https://example.com/a.png)\n\n| a |\n| - |\n| 1 |\n\n```js\nconst a = 1;\n```'
+    );
+
+    expect(sanitizeHtml(html, 'post')).toBe(html);
+    expect(html).toContain('<h2 id="user-content-标题">');
+    expect(html).toContain('<img src="https://example.com/a.png"');
+    expect(html).toContain('<table>');
+    expect(html).toContain('<span class="hljs-keyword">');
+  });
+
+  it('文章策略应该保留脚注', () => {
+    const html = renderMarkdown('正文[^1]\n\n[^1]: 注释');
+
+    expect(sanitizeHtml(html, 'post')).toBe(html);
+    expect(html).toContain('data-footnotes');
+  });
+
+  it('评论策略应该移除标题、图片和表格', () => {
+    const html = sanitizeHtml(
+      '<h1>标题</h1><img src="https://example.com/a.png"><table><tr><td>1</td></tr></table>',
+      'comment'
+    );
+
+    expect(html).not.toContain('<h1');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<table');
+    expect(html).toContain('标题');
+  });
+
+  it('评论策略应该保留链接、强调和代码', () => {
+    const html = renderMarkdown(
+      '**粗体** *斜体* [链接](https://example.com) `code`',
+      'comment'
+    );
+
+    expect(html).toBe(
+      '<p><strong>粗体</strong> <em>斜体</em> <a href="https://example.com">链接</a> <code>code</code></p>'
+    );
+  });
+
+  it('简介策略只保留链接和强调', () => {
+    expect(
+      sanitizeHtml(
+        '<p>你好 <strong>世界</strong> <a href="https://example.com" title="t">主页</a></p>',
+        'bio'
+      )
+    ).toBe('你好 <strong>世界</strong> <a href="https://example.com">主页</a>');
+  });
+
+  it('纯文本简介应该转义特殊字符', () => {
+    expect(sanitizeHtml('喜欢 C++ & Rust <3', 'bio')).toBe(
+      '喜欢 C++ &#x26; Rust &#x3C;3'
+    );
+  });
+});
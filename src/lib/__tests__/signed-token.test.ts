@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-token';
+
+const secret = 'test-secret';
+const now = new Date('2026-01-01T00:00:00Z');
+
+const issue = (overrides: { data?: string; ttlSeconds?: number } = {}) =>
+  createSignedToken(
+    {
+      purpose: 'verify-email',
+      subject: '42',
+      data: 'user@example.com',
+      ttlSeconds: 3600,
+      ...overrides,
+    },
+    { secret, now }
+  );
+
+describe('签名令牌', () => {
+  it('有效期内校验通过并返回载荷', () => {
+    const result = verifySignedToken(issue(), 'verify-email', { secret, now });
+    expect(result).toEqual({
+      valid: true,
+      payload: {
+        purpose: 'verify-email',
+        sub: '42',
+        data: 'user@example.com',
+        exp: now.getTime() / 1000 + 3600,
+      },
+    });
+  });
+
+  it('过期后返回 EXPIRED', () => {
+    const later = new Date(now.getTime() + 3600 * 1000);
+    expect(
+      verifySignedToken(issue(), 'verify-email', { secret, now: later })
+    ).toEqual({ valid: false, reason: 'EXPIRED' });
+  });
+
+  it('用途不同的令牌不能通用', () => {
+    expect(
+      verifySignedToken(issue(), 'reset-password', { secret, now })
+    ).toEqual({ valid: false, reason: 'INVALID' });
+  });
+
+  it('密钥不同时签名无效', () => {
+    expect(
+      verifySignedToken(issue(), 'verify-email', { secret: 'other', now })
+    ).toEqual({ valid: false, reason: 'INVALID' });
+  });
+
+  it('篡改载荷后签名无效', () => {
+    const [, signature] = issue().split('.');
+    const forged = Buffer.from(
+      JSON.stringify({
+        purpose: 'verify-email',
+        sub: '1',
+        data: 'user@example.com',
+        exp: now.getTime() / 1000 + 3600,
+      })
+    ).toString('base64url');
+    expect(
+      verifySignedToken(`${forged}.${signature}`, 'verify-email', {
+        secret,
+        now,
+      })
+    ).toEqual({ valid: false, reason: 'INVALID' });
+  });
+
+  it.each(['', 'abc', 'a.b.c', '.', 'not-base64.sig'])(
+    '格式错误的令牌 %j 无效',
+    (token) => {
+      expect(verifySignedToken(token, 'verify-email', { secret, now })).toEqual(
+        { valid: false, reason: 'INVALID' }
+      );
+    }
+  );
+
+  it('未配置密钥时抛出错误', () => {
+    const original = process.env.NEXTAUTH_SECRET;
+    delete process.env.NEXTAUTH_SECRET;
+    try {
+      expect(() =>
+        createSignedToken({ purpose: 'x', subject: '1', ttlSeconds: 60 })
+      ).toThrow();
+    } finally {
+      if (original !== undefined) process.env.NEXTAUTH_SECRET = original;
+    }
+  });
+});
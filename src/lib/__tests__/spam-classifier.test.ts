@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  trainSpamModel,
+  spamProbability,
+  type SpamSample,
+} from '@/lib/spam-classifier';
+
+const SPAM = [
+  '免费领取优惠券，点击 https://cheap-deals.example/win 立即领取',
+  '低价代刷粉丝，加微信领取优惠 https://cheap-deals.example',
+  '点击领取免费优惠券 https://www.cheap-deals.example/free',
+  'Buy cheap followers now at https://cheap-deals.example',
+  'Cheap followers, free bonus, click https://cheap-deals.example/bonus',
+  '免费代刷点赞，低价优惠，点击链接领取',
+];
+
+const HAM = [
+  '这篇文章讲得很清楚，React 的并发渲染终于看懂了',
+  '感谢分享，文章里的代码示例很有帮助',
+  '请问文章中的 useEffect 清理函数什么时候执行？',
+  'Great article, the code examples about React hooks are helpful',
+  '代码示例在我的项目里运行正常，感谢作者',
+  '文章写得很好，期待作者分享更多 React 相关内容',
+];
+
+const samples: SpamSample[] = [
+  ...SPAM.map((text) => ({ text, spam: true })),
+  ...HAM.map((text) => ({ text, spam: false })),
+];
+
+describe('tokenize', () => {
+  it('英文按单词拆分并转为小写', () => {
+    expect(tokenize('Hello World')).toEqual(
+      expect.arrayContaining(['hello', 'world'])
+    );
+  });
+
+  it('中文使用相邻两个字作为词', () => {
+    expect(tokenize('免费领取')).toEqual(['免费', '费领', '领取']);
+  });
+
+  it('链接提取为域名并去掉 www 前缀', () => {
+    const tokens = tokenize('看这里 https://www.Example.com/path?q=1');
+    expect(tokens).toContain('url:example.com');
+    expect(tokens).not.toContain('path');
+  });
+
+  it('同一条文本中的词只出现一次', () => {
+    expect(tokenize('spam spam spam')).toEqual(['spam']);
+  });
+});
+
+describe('spamProbability', () => {
+  const model = trainSpamModel(samples);
+
+  it('记录各类别的训练样本数', () => {
+    expect(model.docs).toEqual({ spam: SPAM.length, ham: HAM.length });
+  });
+
+  it('垃圾内容的概率高于 0.5', () => {
+    expect(
+      spamProbability(model, '点击领取免费优惠券 https://cheap-deals.example')
+    ).toBeGreaterThan(0.9);
+  });
+
+  it('正常评论的概率低于 0.5', () => {
+    expect(
+      spamProbability(model, '感谢作者，文章里的 React 代码示例很有帮助')
+    ).toBeLessThan(0.1);
+  });
+
+  it('没有命中模型词汇时返回先验概率', () => {
+    expect(spamProbability(model, 'zzz qqq')).toBeCloseTo(0.5);
+  });
+
+  it('任一类别没有训练数据时返回 0.5', () => {
+    const spamOnly = trainSpamModel(SPAM.map((text) => ({ text, spam: true })));
+    expect(spamProbability(spamOnly, '免费领取优惠券')).toBe(0.5);
+  });
+
+  it('模型可以序列化为 JSON 后继续使用', () => {
+    const restored = JSON.parse(JSON.stringify(model));
+    const text = 'Cheap followers at https://cheap-deals.example';
+    expect(spamProbability(restored, text)).toBe(spamProbability(model, text));
+  });
+
+  it('只出现一次的词不进入模型', () => {
+    const vocabulary = [
+      ...Object.keys(model.tokens.spam),
+      ...Object.keys(model.tokens.ham),
+    ];
+    expect(vocabulary).not.toContain('并发');
+  });
+});
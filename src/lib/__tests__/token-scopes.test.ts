@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasScope,
+  normalizeScopes,
+  parseBearerToken,
+} from '@/lib/token-scopes';
+
+describe('令牌权限范围', () => {
+  it('去重并按固定顺序排列', () => {
+    expect(normalizeScopes(['uploads:write', 'read', 'read'])).toEqual([
+      'read',
+      'uploads:write',
+    ]);
+  });
+
+  it('忽略未知的权限范围', () => {
+    expect(normalizeScopes(['read', 'posts:delete', '*'])).toEqual(['read']);
+  });
+
+  it('只有包含所需权限范围时才通过', () => {
+    expect(hasScope(['read', 'posts:write'], 'posts:write')).toBe(true);
+    expect(hasScope(['read'], 'posts:write')).toBe(false);
+  });
+
+  it('写权限不隐含读权限', () => {
+    expect(hasScope(['posts:write'], 'read')).toBe(false);
+  });
+});
+
+describe('Bearer 请求头解析', () => {
+  it('解析个人访问令牌', () => {
+    expect(parseBearerToken('Bearer pat_abc123')).toBe('pat_abc123');
+  });
+
+  it('不区分 Bearer 大小写并忽略多余空格', () => {
+    expect(parseBearerToken('bearer   pat_abc123 ')).toBe('pat_abc123');
+  });
+
+  it.each([
+    [null],
+    [undefined],
+    [''],
+    ['pat_abc123'],
+    ['Basic dXNlcjpwYXNz'],
+    ['Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig'],
+    ['Bearer pat_abc 123'],
+  ])('%s 不是有效的令牌请求头', (header) => {
+    expect(parseBearerToken(header)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotp,
+  generateTotpSecret,
+  timeStepOf,
+  verifyTotp,
+} from '@/lib/totp';
+
+// RFC 6238 附录 B 的 SHA1 测试密钥 "12345678901234567890"
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('Base32 编解码', () => {
+  it('编码结果与 RFC 4648 一致', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('解码忽略空格、填充符和大小写', () => {
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('非法字符抛出错误', () => {
+    expect(() => base32Decode('MZXW1')).toThrow();
+  });
+
+  it('生成的密钥为 32 位 Base32 字符串且每次不同', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('TOTP 验证码', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('RFC 6238 测试向量 T=%i 得到 %s', (seconds, expected) => {
+    expect(generateTotp(rfcSecret, { now: at(seconds), digits: 8 })).toBe(
+      expected
+    );
+  });
+
+  it('默认生成 6 位验证码', () => {
+    expect(generateTotp(rfcSecret, { now: at(59) })).toBe('287082');
+  });
+
+  it('校验成功时返回匹配的时间步', () => {
+    const now = at(1111111111);
+    const code = generateTotp(rfcSecret, { now });
+    expect(verifyTotp(rfcSecret, code, { now })).toBe(timeStepOf(now));
+  });
+
+  it('允许前后一个时间步的时钟偏差', () => {
+    const now = at(1111111111);
+    const previous = generateTotp(rfcSecret, { now: at(1111111111 - 30) });
+    const next = generateTotp(rfcSecret, { now: at(1111111111 + 30) });
+    expect(verifyTotp(rfcSecret, previous, { now })).toBe(timeStepOf(now) - 1);
+    expect(verifyTotp(rfcSecret, next, { now })).toBe(timeStepOf(now) + 1);
+  });
+
+  it('超出时间窗口的验证码校验失败', () => {
+    const now = at(1111111111);
+    const stale = generateTotp(rfcSecret, { now: at(1111111111 - 90) });
+    expect(verifyTotp(rfcSecret, stale, { now })).toBeNull();
+  });
+
+  it('忽略验证码中的空格', () => {
+    expect(verifyTotp(rfcSecret, '287 082', { now: at(59) })).toBe(1);
+  });
+
+  it('格式不正确的验证码直接失败', () => {
+    expect(verifyTotp(rfcSecret, '28708', { now: at(59) })).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', { now: at(59) })).toBeNull();
+  });
+});
+
+describe('otpauth 链接', () => {
+  it('包含签发方、账号和密钥', () => {
+    const url = buildOtpauthUrl({
+      issuer: '博客平台',
+      account: 'user@example.com',
+      secret: 'JBSWY3DPEHPK3PXP',
+    });
+    const parsed = new URL(url);
+
+    expect(parsed.protocol).toBe('otpauth:');
+    expect(parsed.host).toBe('totp');
+    expect(decodeURIComponent(parsed.pathname)).toBe(
+      '/博客平台:user@example.com'
+    );
+    expect(parsed.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(parsed.searchParams.get('issuer')).toBe('博客平台');
+    expect(parsed.searchParams.get('period')).toBe('30');
+  });
+});
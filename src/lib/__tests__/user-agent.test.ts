@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { describeUserAgent } from '@/lib/user-agent';
+
+describe('客户端信息解析', () => {
+  it.each([
+    [
+      'Windows 上的 Chrome',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+      { browser: 'Chrome', os: 'Windows', mobile: false },
+    ],
+    [
+      'Windows 上的 Edge',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0',
+      { browser: 'Edge', os: 'Windows', mobile: false },
+    ],
+    [
+      'macOS 上的 Safari',
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+      { browser: 'Safari', os: 'macOS', mobile: false },
+    ],
+    [
+      'Linux 上的 Firefox',
+      'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+      { browser: 'Firefox', os: 'Linux', mobile: false },
+    ],
+    [
+      'iPhone 上的 Safari',
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+      { browser: 'Safari', os: 'iOS', mobile: true },
+    ],
+    [
+      'Android 手机上的 Chrome',
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36',
+      { browser: 'Chrome', os: 'Android', mobile: true },
+    ],
+    [
+      'Android 上的微信内置浏览器',
+      'Mozilla/5.0 (Linux; Android 13; V2227A) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/111.0.5563.116 Mobile Safari/537.36 MicroMessenger/8.0.49',
+      { browser: '微信', os: 'Android', mobile: true },
+    ],
+  ])('识别%s', (_name, userAgent, expected) => {
+    expect(describeUserAgent(userAgent)).toEqual(expected);
+  });
+
+  it('iPad 识别为 iPadOS 桌面端', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15'
+      )
+    ).toEqual({ browser: 'Safari', os: 'iPadOS', mobile: false });
+  });
+
+  it('缺少 User-Agent 时返回未知', () => {
+    expect(describeUserAgent(null)).toEqual({
+      browser: '未知',
+      os: '未知',
+      mobile: false,
+    });
+  });
+
+  it('无法识别的客户端返回未知', () => {
+    expect(describeUserAgent('curl/8.5.0')).toEqual({
+      browser: '未知',
+      os: '未知',
+      mobile: false,
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => import('./helpers/db'));
+
+import { banUser } from '@/lib/user-status';
+import { prisma, tx } from './helpers/db';
+
+const userId = BigInt(42);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  tx.userSession.updateMany.mockResolvedValue({ count: 3 });
+});
+
+describe('封禁撤销会话', () => {
+  it.each([
+    ['永久封禁', null],
+    ['暂停使用', new Date('2030-01-01T00:00:00Z')],
+  ])('%s时撤销该用户的全部会话', async (_, until) => {
+    const banned = {
+      id: userId,
+      status: 'BANNED',
+      bannedUntil: until,
+      banReason: '发布广告',
+    };
+    tx.user.update.mockResolvedValue(banned);
+
+    const user = await banUser(userId, { until, reason: '发布广告' });
+
+    expect(user).toBe(banned);
+    expect(tx.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: userId },
+        data: { status: 'BANNED', bannedUntil: until, banReason: '发布广告' },
+      })
+    );
+    expect(tx.userSession.updateMany).toHaveBeenCalledWith({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('封禁和撤销会话在同一事务中完成', async () => {
+    await banUser(userId, { reason: '发布广告' });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(prisma.userSession.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,7 @@
  * Next.js 服务器操作 - 表单处理和数据操作
  *
  * 主要功能：
- * 1. 用户注册逻辑处理
+ * 1. 用户注册逻辑处理（注册后发送邮箱验证邮件）
  * 2. 用户资料更新操作
  * 3. 表单数据验证和清洗
  * 4. 数据库操作封装
@@ -13,6 +13,7 @@
  * - bcryptjs 密码加密
  * - 重复性检查（用户名、邮箱）
  * - 会话认证验证
+ * - 注册请求频率限制
  *
  * 错误处理：
  * - 统一错误响应格式
@@ -30,8 +31,11 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
+import { headers } from 'next/headers';
 import { prisma } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { consumeRateLimit, getClientIp } from '@/lib/rate-limit';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 
@@ -64,6 +68,22 @@ const profileUpdateSchema = z.object({
 // 用户注册 Server Action
 export async function registerUser(formData: FormData) {
   try {
+    // 与注册 API 共用 register 限流策略
+    const rateLimit = await consumeRateLimit(
+      'register',
+      getClientIp(await headers())
+    );
+
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMIT_EXCEEDED',
+          message: '请求过于频繁，请稍后再试',
+        },
+      };
+    }
+
     const rawData = {
       username: formData.get('username'),
       email: formData.get('email'),
@@ -123,10 +143,17 @@ export async function registerUser(formData: FormData) {
       },
     });
 
+    // 发送邮箱验证邮件，发送失败不影响注册，可在验证页重新发送
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('发送验证邮件失败:', error);
+    }
+
     return {
       success: true,
       data: { user: { ...user, id: user.id.toString() } },
-      message: '注册成功',
+      message: '注册成功，请查收验证邮件',
     };
   } catch (error) {
     console.error('注册失败:', error);
@@ -0,0 +1,30 @@
+/**
+ * API 认证 - 同时支持登录会话和个人访问令牌的认证辅助函数
+ *
+ * 认证规则：
+ * 1. 请求头带有 Authorization: Bearer pat_xxx 时使用个人访问令牌认证
+ * 2. 否则使用登录会话（Cookie）认证
+ * 3. 令牌缺少接口所需的权限范围时视为未认证
+ * 4. 未指定权限范围的接口只接受登录会话，带令牌请求一律视为未认证
+ */
+import type { Session } from 'next-auth';
+import { auth } from '@/lib/auth';
+import { authenticateAccessToken } from '@/lib/personal-access-tokens';
+import { TokenScope, parseBearerToken } from '@/lib/token-scopes';
+
+export async function getApiSession(
+  request: Request,
+  scope?: TokenScope
+): Promise<Session | null> {
+  const token = parseBearerToken(request.headers.get('authorization'));
+
+  if (!token) {
+    return auth();
+  }
+
+  if (!scope) {
+    return null;
+  }
+
+  return authenticateAccessToken(token, scope);
+}
@@ -0,0 +1,134 @@
+/**
+ * Auth.js 数据库适配器 - 第三方登录账号与站内用户的对应关系
+ *
+ * 主要功能：
+ * 1. 按第三方账号或邮箱查找站内用户
+ * 2. 首次通过第三方账号登录时创建站内用户，用户名冲突时自动追加后缀
+ * 3. 已登录用户通过第三方账号登录时关联该账号
+ *
+ * 设计说明：
+ * - 使用 JWT 会话策略，不需要数据库会话和验证令牌相关方法
+ * - 用户 ID 为 BigInt，与 Auth.js 交互时转换为字符串
+ * - 第三方登录创建的用户没有密码，提供方未验证邮箱时发送验证邮件
+ */
+import { randomBytes } from 'crypto';
+import type { Adapter, AdapterUser } from 'next-auth/adapters';
+import type { User } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import {
+  USERNAME_CONFLICT_PREFIX_LENGTH,
+  normalizeUsername,
+  pickAvailableUsername,
+} from '@/lib/oauth-username';
+
+// 站内以布尔值记录邮箱验证状态，Auth.js 的 emailVerified 时间不使用
+const toAdapterUser = (user: User): AdapterUser => ({
+  id: user.id.toString(),
+  email: user.email,
+  emailVerified: null,
+  name: user.username,
+  image: user.avatarUrl,
+  username: user.username,
+  role: user.role,
+  avatarUrl: user.avatarUrl,
+});
+
+const parseUserId = (id: string) => {
+  try {
+    return BigInt(id);
+  } catch {
+    return null;
+  }
+};
+
+async function resolveUsername(raw: string) {
+  const base = normalizeUsername(raw);
+  const existing = await prisma.user.findMany({
+    where: {
+      username: { startsWith: base.slice(0, USERNAME_CONFLICT_PREFIX_LENGTH) },
+    },
+    select: { username: true },
+  });
+
+  return (
+    pickAvailableUsername(
+      base,
+      existing.map((user) => user.username)
+    ) ?? `user_${randomBytes(6).toString('hex')}`
+  );
+}
+
+export function createAuthAdapter(): Adapter {
+  return {
+    async createUser(data) {
+      const username = await resolveUsername(
+        data.username || data.email.split('@')[0]
+      );
+
+      const user = await prisma.user.create({
+        data: {
+          username,
+          email: data.email,
+          avatarUrl: data.avatarUrl ?? data.image ?? null,
+          emailVerified: Boolean(data.emailVerifiedByProvider),
+          profile: {
+            create: {},
+          },
+        },
+      });
+
+      // 提供方未验证邮箱时发送验证邮件，发送失败不影响登录
+      if (!user.emailVerified) {
+        try {
+          await sendVerificationEmail(user);
+        } catch (error) {
+          console.error('发送验证邮件失败:', error);
+        }
+      }
+
+      return toAdapterUser(user);
+    },
+
+    async getUser(id) {
+      const userId = parseUserId(id);
+      if (userId === null) return null;
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    async getUserByEmail(email) {
+      const user = await prisma.user.findUnique({ where: { email } });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    async getUserByAccount({ provider, providerAccountId }) {
+      const account = await prisma.account.findUnique({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+        include: { user: true },
+      });
+      return account ? toAdapterUser(account.user) : null;
+    },
+
+    // 只用于邮件登录，本站未启用，返回当前用户
+    async updateUser({ id }) {
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: BigInt(id) },
+      });
+      return toAdapterUser(user);
+    },
+
+    // 只保存账号标识，不保存第三方访问令牌
+    async linkAccount({ userId, type, provider, providerAccountId }) {
+      await prisma.account.create({
+        data: {
+          userId: BigInt(userId),
+          type,
+          provider,
+          providerAccountId,
+        },
+      });
+    },
+  };
+}
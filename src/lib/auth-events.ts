@@ -0,0 +1,52 @@
+/**
+ * 认证事件 - 结构化记录登录相关事件
+ *
+ * 主要功能：
+ * 1. 将登录成功、失败、限流和锁定写入审计表，供管理员查看
+ * 2. 同时输出结构化日志（JSON 单行），便于日志系统检索
+ *
+ * 设计说明：
+ * - 记录失败只打印错误，不影响登录流程
+ * - 日志中不包含密码等敏感信息
+ */
+import { AuthEventType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export interface AuthEventInput {
+  type: AuthEventType;
+  email: string;
+  userId?: bigint | null;
+  reason?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export async function recordAuthEvent(event: AuthEventInput) {
+  const level = event.type === 'LOGIN_SUCCESS' ? 'info' : 'warn';
+  console[level](
+    JSON.stringify({
+      event: 'auth',
+      type: event.type,
+      email: event.email,
+      userId: event.userId?.toString() ?? null,
+      reason: event.reason ?? null,
+      ip: event.ipAddress ?? null,
+      at: new Date().toISOString(),
+    })
+  );
+
+  try {
+    await prisma.authEvent.create({
+      data: {
+        type: event.type,
+        email: event.email.slice(0, 100),
+        userId: event.userId ?? null,
+        reason: event.reason ?? null,
+        ipAddress: event.ipAddress?.slice(0, 45) ?? null,
+        userAgent: event.userAgent ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('记录认证事件失败:', error);
+  }
+}
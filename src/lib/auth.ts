@@ -2,23 +2,37 @@
  * Auth.js v5 认证配置 - 用户身份验证和会话管理
  *
  * 主要功能：
- * 1. 配置认证提供者（邮箱密码登录）
+ * 1. 配置认证提供者（邮箱密码登录，以及按环境变量启用的 GitHub、OIDC 登录）
  * 2. 处理用户登录验证逻辑
  * 3. 管理 JWT 令牌和会话
  * 4. 扩展 Auth.js 类型定义
- * 5. 集成 Prisma 数据库适配器
+ * 5. 自定义数据库适配器，关联第三方登录账号
  *
  * 认证流程：
  * - 用户输入邮箱和密码
  * - 验证输入数据格式
  * - 查询数据库中的用户信息
  * - 比较密码哈希值
+ * - 检查 IP 失败次数和账号锁定状态
+ * - 检查账号状态（封禁、停用的账号不能登录）
+ * - 已启用两步验证的账号校验 TOTP 验证码或恢复码
+ * - 记录登录时间，修改密码后之前登录的会话失效
+ * - 登记会话并将会话 ID 写入 JWT，已撤销的会话读取时失效，角色和自定义角色权限读取时从数据库刷新
  * - 生成 JWT 令牌和会话
  *
+ * 第三方登录流程：
+ * - 已关联的账号直接登录，同样检查封禁、锁定状态
+ * - 已启用两步验证的账号不能通过第三方登录，需使用密码和验证码
+ * - 未关联且邮箱未注册时创建新用户，邮箱已注册时需先登录再在个人资料页关联
+ * - 已登录时通过第三方登录即关联该账号
+ *
  * 安全特性：
  * - bcryptjs 密码哈希
  * - Zod 数据验证
  * - JWT 会话策略
+ * - 按 IP 限流和按账号渐进锁定，防止暴力破解
+ * - TOTP 两步验证
+ * - 登录事件写入审计表
  * - 角色权限控制
  *
  * 使用技术：
@@ -27,12 +41,30 @@
  * - bcryptjs 加密
  * - Zod 验证库
  */
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
+import { headers } from 'next/headers';
 import Credentials from 'next-auth/providers/credentials';
-import { PrismaAdapter } from '@auth/prisma-adapter';
 import { prisma } from './db';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
+import { accountBlockOf } from './user-status';
+import { recordAuthEvent } from './auth-events';
+import {
+  activeLockOf,
+  isIpThrottled,
+  recordAccountFailure,
+  recordIpFailure,
+  recordLoginSuccess,
+} from './login-protection';
+import { getClientIp } from './rate-limit';
+import { createAuthAdapter } from './auth-adapter';
+import { getOAuthProviders } from './oauth-providers';
+import { verifyTwoFactorCode } from './two-factor';
+import {
+  createUserSession,
+  revokeUserSession,
+  touchUserSession,
+} from './user-sessions';
 
 // 扩展 Auth.js 类型
 declare module 'next-auth' {
@@ -42,7 +74,10 @@ declare module 'next-auth' {
       email: string;
       username: string;
       role: string;
+      // 自定义角色额外授予的权限
+      permissions?: string[];
       avatarUrl?: string | null;
+      sessionId?: string;
     };
   }
 
@@ -52,30 +87,59 @@ declare module 'next-auth' {
     username: string;
     role: string;
     avatarUrl?: string | null;
+    // 第三方登录提供方是否已验证邮箱，首次登录创建用户时使用
+    emailVerifiedByProvider?: boolean;
   }
 }
 
 declare module '@auth/core/jwt' {
   interface JWT {
     role?: string;
+    permissions?: string[];
     username?: string;
     avatarUrl?: string | null;
+    // 服务端会话登记 ID，撤销后令牌失效
+    sessionId?: string;
+  }
+}
+
+// 登录被拒绝（封禁、锁定、限流、需要两步验证），错误码通过 code 返回给登录页
+class LoginRejectedError extends CredentialsSignin {
+  constructor(code: string) {
+    super();
+    this.code = code;
+  }
+}
+
+// 登录请求的 IP 和客户端信息，用于登记会话
+async function requestContext() {
+  try {
+    const requestHeaders = await headers();
+    return {
+      ipAddress: getClientIp(requestHeaders),
+      userAgent: requestHeaders.get('user-agent'),
+    };
+  } catch {
+    return {};
   }
 }
 
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
+  // 两步验证码（TOTP 验证码或恢复码），开启两步验证的账号第二步提交
+  code: z.string().trim().optional(),
 });
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
-  adapter: PrismaAdapter(prisma),
+  adapter: createAuthAdapter(),
   secret: process.env.NEXTAUTH_SECRET,
   session: {
     strategy: 'jwt',
   },
   pages: {
     signIn: '/auth/login',
+    error: '/auth/login',
   },
   providers: [
     Credentials({
@@ -83,31 +147,111 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Verification code', type: 'text' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
+        const ipAddress = getClientIp(request.headers);
+        const userAgent = request.headers.get('user-agent');
+
         try {
-          const { email, password } = loginSchema.parse(credentials);
+          const { email, password, code } = loginSchema.parse(credentials);
+          const audit = { email, ipAddress, userAgent };
+
+          if (await isIpThrottled(ipAddress)) {
+            await recordAuthEvent({ ...audit, type: 'RATE_LIMITED' });
+            throw new LoginRejectedError('RATE_LIMITED');
+          }
 
           const user = await prisma.user.findUnique({
             where: { email },
             include: { profile: true },
           });
 
-          console.log('email :>> ', email);
-
           if (!user) {
+            await recordIpFailure(ipAddress);
+            await recordAuthEvent({
+              ...audit,
+              type: 'LOGIN_FAILED',
+              reason: 'UNKNOWN_EMAIL',
+            });
             return null;
           }
 
-          const isPasswordValid = await bcrypt.compare(
-            password,
-            user.passwordHash
-          );
+          // 锁定期间不校验密码，直接拒绝
+          if (activeLockOf(user)) {
+            await recordAuthEvent({
+              ...audit,
+              userId: user.id,
+              type: 'ACCOUNT_LOCKED',
+              reason: 'LOCKED',
+            });
+            throw new LoginRejectedError('ACCOUNT_LOCKED');
+          }
+
+          // 通过第三方账号注册、尚未设置密码的账号按密码错误处理
+          const isPasswordValid =
+            !!user.passwordHash &&
+            (await bcrypt.compare(password, user.passwordHash));
 
           if (!isPasswordValid) {
+            await recordIpFailure(ipAddress);
+            const lockedUntil = await recordAccountFailure(user.id);
+            await recordAuthEvent({
+              ...audit,
+              userId: user.id,
+              type: lockedUntil ? 'ACCOUNT_LOCKED' : 'LOGIN_FAILED',
+              reason: 'INVALID_PASSWORD',
+            });
+            if (lockedUntil) {
+              throw new LoginRejectedError('ACCOUNT_LOCKED');
+            }
             return null;
           }
 
+          // 密码正确后再提示封禁状态，避免泄露账号信息
+          const block = accountBlockOf(user);
+          if (block) {
+            await recordAuthEvent({
+              ...audit,
+              userId: user.id,
+              type: 'LOGIN_BLOCKED',
+              reason: block.code,
+            });
+            throw new LoginRejectedError(block.code);
+          }
+
+          // 已启用两步验证：密码正确后还需要验证码，错误的验证码与密码错误一样计入失败次数
+          let twoFactorMethod: string | undefined;
+          if (user.twoFactorEnabledAt) {
+            if (!code) {
+              throw new LoginRejectedError('TWO_FACTOR_REQUIRED');
+            }
+
+            const method = await verifyTwoFactorCode(user, code);
+            if (!method) {
+              await recordIpFailure(ipAddress);
+              const lockedUntil = await recordAccountFailure(user.id);
+              await recordAuthEvent({
+                ...audit,
+                userId: user.id,
+                type: lockedUntil ? 'ACCOUNT_LOCKED' : 'LOGIN_FAILED',
+                reason: 'INVALID_TWO_FACTOR_CODE',
+              });
+              throw new LoginRejectedError(
+                lockedUntil ? 'ACCOUNT_LOCKED' : 'INVALID_TWO_FACTOR_CODE'
+              );
+            }
+            twoFactorMethod = method;
+          }
+
+          await recordLoginSuccess(user.id);
+          await recordAuthEvent({
+            ...audit,
+            userId: user.id,
+            type: 'LOGIN_SUCCESS',
+            reason: twoFactorMethod,
+          });
+
           return {
             id: user.id.toString(),
             email: user.email,
@@ -115,29 +259,134 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             avatarUrl: user.avatarUrl,
             role: user.role,
           };
-        } catch {
+        } catch (error) {
+          if (error instanceof LoginRejectedError) {
+            throw error;
+          }
           return null;
         }
       },
     }),
+    ...getOAuthProviders(),
   ],
   callbacks: {
+    // 第三方登录：要求提供邮箱，已关联的账号检查封禁、锁定和两步验证
+    async signIn({ user, account }) {
+      if (!account || account.type === 'credentials') {
+        return true;
+      }
+
+      if (!user.email) {
+        return '/auth/login?error=OAUTH_EMAIL_REQUIRED';
+      }
+
+      const linked = await prisma.account.findUnique({
+        where: {
+          provider_providerAccountId: {
+            provider: account.provider,
+            providerAccountId: account.providerAccountId,
+          },
+        },
+        include: { user: true },
+      });
+      // 未关联：创建新用户或关联到当前登录账号，由适配器处理
+      if (!linked) {
+        return true;
+      }
+
+      const linkedUser = linked.user;
+      const block = accountBlockOf(linkedUser);
+      const code = block
+        ? block.code
+        : activeLockOf(linkedUser)
+          ? 'ACCOUNT_LOCKED'
+          : linkedUser.twoFactorEnabledAt
+            ? 'OAUTH_TWO_FACTOR_ENABLED'
+            : null;
+
+      if (code) {
+        await recordAuthEvent({
+          ...(await requestContext()),
+          email: linkedUser.email,
+          userId: linkedUser.id,
+          type: code === 'ACCOUNT_LOCKED' ? 'ACCOUNT_LOCKED' : 'LOGIN_BLOCKED',
+          reason: code,
+        });
+        return `/auth/login?error=${code}`;
+      }
+
+      return true;
+    },
     async jwt({ token, user }) {
       if (user) {
         token.role = user.role;
         token.username = user.username;
         token.avatarUrl = user.avatarUrl;
+        const sessionId = await createUserSession(
+          BigInt(user.id),
+          await requestContext()
+        );
+        token.sessionId = sessionId.toString();
+        return token;
+      }
+
+      // 中间件运行在 Edge 环境中无法访问数据库，由 /api/auth/status 校验会话
+      if (process.env.NEXT_RUNTIME === 'edge') {
+        return token;
       }
+
+      // 会话已撤销或没有登记（功能上线前签发的令牌）时令牌失效
+      if (!token.sub || !token.sessionId) {
+        return null;
+      }
+
+      const active = await touchUserSession(
+        BigInt(token.sessionId),
+        BigInt(token.sub)
+      );
+      if (!active) {
+        return null;
+      }
+
+      // 角色和自定义角色权限可能已被管理员修改，以数据库为准
+      token.role = active.role;
+      token.permissions = active.permissions;
       return token;
     },
     async session({ session, token }) {
       if (token) {
         session.user.id = token.sub!;
         session.user.role = token.role as string;
+        session.user.permissions = token.permissions ?? [];
         session.user.username = token.username as string;
         session.user.avatarUrl = token.avatarUrl;
+        session.user.sessionId = token.sessionId;
       }
       return session;
     },
   },
+  events: {
+    // 第三方登录成功时清零失败次数并写入审计记录
+    async signIn({ user, account }) {
+      if (!account || account.type === 'credentials' || !user.id) {
+        return;
+      }
+
+      await recordLoginSuccess(BigInt(user.id));
+      await recordAuthEvent({
+        ...(await requestContext()),
+        email: user.email ?? '',
+        userId: BigInt(user.id),
+        type: 'LOGIN_SUCCESS',
+        reason: `OAUTH_${account.provider.toUpperCase()}`,
+      });
+    },
+    // 退出登录时撤销会话登记
+    async signOut(message) {
+      const token = 'token' in message ? message.token : null;
+      if (token?.sub && token.sessionId) {
+        await revokeUserSession(BigInt(token.sub), BigInt(token.sessionId));
+      }
+    },
+  },
 });
@@ -0,0 +1,123 @@
+/**
+ * 作者申请 - 普通用户申请成为作者和管理员审核流程
+ *
+ * 主要功能：
+ * 1. 普通用户提交申请，填写申请理由
+ * 2. 管理员通过或拒绝申请，通过时角色改为 AUTHOR 并写入角色变更记录
+ * 3. 审核结果通过站内通知告知申请人
+ *
+ * 业务规则：
+ * - 只有普通用户（USER）可以申请
+ * - 同一时间只能有一个待审核的申请，被拒绝后可以重新申请
+ * - 申请只能审核一次，并发审核时以先提交的为准
+ * - 审核时申请人已是作者或管理员的，只标记通过，不修改角色
+ */
+import { prisma } from '@/lib/db';
+import { notifyAuthorApplicationReviewed } from '@/lib/notifications';
+import { changeUserRole } from '@/lib/user-roles';
+
+export const MOTIVATION_MIN_LENGTH = 20;
+export const MOTIVATION_MAX_LENGTH = 2000;
+
+export async function getLatestAuthorApplication(userId: bigint) {
+  return prisma.authorApplication.findFirst({
+    where: { userId },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+  });
+}
+
+export async function submitAuthorApplication(
+  userId: bigint,
+  motivation: string
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (!user || user.role !== 'USER') {
+    return { success: false as const, reason: 'NOT_ELIGIBLE' as const };
+  }
+
+  const pending = await prisma.authorApplication.findFirst({
+    where: { userId, status: 'PENDING' },
+    select: { id: true },
+  });
+
+  if (pending) {
+    return { success: false as const, reason: 'ALREADY_PENDING' as const };
+  }
+
+  const application = await prisma.authorApplication.create({
+    data: { userId, motivation },
+  });
+
+  return { success: true as const, application };
+}
+
+export async function reviewAuthorApplication({
+  applicationId,
+  approve,
+  note,
+  reviewer,
+}: {
+  applicationId: bigint;
+  approve: boolean;
+  note?: string;
+  reviewer: { id: bigint; username: string };
+}) {
+  const result = await prisma.$transaction(async (tx) => {
+    const application = await tx.authorApplication.findUnique({
+      where: { id: applicationId },
+      select: { userId: true },
+    });
+
+    if (!application) {
+      return { success: false as const, reason: 'NOT_FOUND' as const };
+    }
+
+    // 只更新待审核的申请，防止重复审核
+    const { count } = await tx.authorApplication.updateMany({
+      where: { id: applicationId, status: 'PENDING' },
+      data: {
+        status: approve ? 'APPROVED' : 'REJECTED',
+        reviewerId: reviewer.id,
+        reviewNote: note || null,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return { success: false as const, reason: 'ALREADY_REVIEWED' as const };
+    }
+
+    if (approve) {
+      const { role } = await tx.user.findUniqueOrThrow({
+        where: { id: application.userId },
+        select: { role: true },
+      });
+      if (role === 'USER') {
+        await changeUserRole(tx, {
+          userId: application.userId,
+          role: 'AUTHOR',
+          operatorId: reviewer.id,
+          reason: note || '作者申请通过',
+          applicationId,
+        });
+      }
+    }
+
+    return { success: true as const, userId: application.userId };
+  });
+
+  if (result.success) {
+    await notifyAuthorApplicationReviewed({
+      userId: result.userId,
+      approved: approve,
+      note,
+      actor: reviewer,
+    });
+  }
+
+  return result;
+}
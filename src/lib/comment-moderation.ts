@@ -0,0 +1,188 @@
+/**
+ * 评论审核 - 审核模式判断、审核队列操作和评论计数维护
+ *
+ * 主要功能：
+ * 1. 根据站点和文章的审核模式决定新评论的初始状态
+ * 2. 批量通过、拒绝评论
+ * 3. 评论通过时增加文章评论数和父评论回复数，撤销通过时减少
+ * 4. 评论通过后通知文章作者、被回复的评论作者和被提及的用户
+ *
+ * 审核模式：
+ * - AUTO：评论自动通过
+ * - FIRST_TIME：用户第一条评论通过审核后，之后的评论自动通过
+ * - ALL：所有评论都需要审核
+ * - 文章未设置审核模式时使用站点设置（COMMENT_MODERATION，默认 AUTO）
+ * - 可以审核该文章评论的用户（默认文章作者和管理员）的评论始终自动通过
+ *
+ * 权限规则：
+ * - 拥有 comment.moderate.any 权限（默认管理员）可以审核所有评论
+ * - 拥有 comment.moderate.own 权限（默认作者）只能审核自己文章下的评论
+ */
+import { CommentModeration, CommentStatus, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { notifyNewComment } from '@/lib/notifications';
+import { syncCommentMentions } from '@/lib/mentions';
+import { PolicyUser, can } from '@/lib/permissions';
+
+type CounterClient = Prisma.TransactionClient | typeof prisma;
+
+export type ModerationAction = 'approve' | 'reject';
+
+interface Moderator extends PolicyUser {
+  id: bigint;
+  role: Role;
+}
+
+const MODERATION_MODES: readonly CommentModeration[] = [
+  'AUTO',
+  'FIRST_TIME',
+  'ALL',
+];
+
+// 站点默认审核模式
+export function getSiteModerationMode(): CommentModeration {
+  const mode = process.env.COMMENT_MODERATION?.toUpperCase();
+  return MODERATION_MODES.includes(mode as CommentModeration)
+    ? (mode as CommentModeration)
+    : 'AUTO';
+}
+
+// 文章设置优先，未设置时使用站点设置
+export function resolveModerationMode(
+  postMode: CommentModeration | null | undefined
+): CommentModeration {
+  return postMode ?? getSiteModerationMode();
+}
+
+// 决定新评论的初始状态
+export async function getInitialCommentStatus({
+  mode,
+  commenter,
+  postAuthorId,
+}: {
+  mode: CommentModeration;
+  commenter: Moderator;
+  postAuthorId: bigint;
+}): Promise<CommentStatus> {
+  if (
+    mode === 'AUTO' ||
+    can(commenter, 'comment.moderate', { authorId: postAuthorId })
+  ) {
+    return 'APPROVED';
+  }
+
+  if (mode === 'FIRST_TIME') {
+    const approvedCount = await prisma.comment.count({
+      where: { userId: commenter.id, status: 'APPROVED', deletedAt: null },
+    });
+    return approvedCount > 0 ? 'APPROVED' : 'PENDING';
+  }
+
+  return 'PENDING';
+}
+
+// 评论通过（delta = 1）或撤销通过（delta = -1）时更新计数
+export async function updateApprovedCommentCounters(
+  client: CounterClient,
+  comment: { postId: bigint; parentId: bigint | null },
+  delta: 1 | -1
+) {
+  await client.post.update({
+    where: { id: comment.postId },
+    data: { commentsCount: { increment: delta } },
+  });
+
+  if (comment.parentId) {
+    await client.comment.update({
+      where: { id: comment.parentId },
+      data: { repliesCount: { increment: delta } },
+    });
+  }
+}
+
+// 审核人可以处理的评论范围
+export function moderationScope(moderator: Moderator) {
+  return can(moderator, 'comment.moderate.any')
+    ? {}
+    : { post: { authorId: moderator.id } };
+}
+
+// 批量审核评论，返回实际变更状态的评论数量
+export async function moderateComments({
+  ids,
+  action,
+  moderator,
+}: {
+  ids: bigint[];
+  action: ModerationAction;
+  moderator: Moderator;
+}) {
+  const nextStatus: CommentStatus =
+    action === 'approve' ? 'APPROVED' : 'REJECTED';
+
+  const comments = await prisma.comment.findMany({
+    where: {
+      id: { in: ids },
+      deletedAt: null,
+      status:
+        action === 'approve'
+          ? { in: ['PENDING', 'REJECTED'] }
+          : { in: ['PENDING', 'APPROVED'] },
+      ...moderationScope(moderator),
+    },
+    select: {
+      id: true,
+      postId: true,
+      userId: true,
+      parentId: true,
+      content: true,
+      status: true,
+      user: { select: { username: true } },
+    },
+  });
+
+  const changed = await prisma.$transaction(async (tx) => {
+    const result: typeof comments = [];
+
+    for (const comment of comments) {
+      // 按原状态条件更新，避免并发审核重复计数
+      const { count } = await tx.comment.updateMany({
+        where: { id: comment.id, status: comment.status },
+        data: {
+          status: nextStatus,
+          moderatedAt: new Date(),
+          moderatedBy: moderator.id,
+        },
+      });
+      if (count === 0) continue;
+
+      if (nextStatus === 'APPROVED') {
+        await updateApprovedCommentCounters(tx, comment, 1);
+      } else if (comment.status === 'APPROVED') {
+        await updateApprovedCommentCounters(tx, comment, -1);
+      }
+      result.push(comment);
+    }
+
+    return result;
+  });
+
+  // 评论公开后再通知文章作者、被回复的评论作者和被提及的用户
+  if (nextStatus === 'APPROVED') {
+    for (const comment of changed) {
+      const actor = {
+        id: comment.userId,
+        username: comment.user?.username ?? '',
+      };
+      await notifyNewComment({
+        postId: comment.postId,
+        commentId: comment.id,
+        parentId: comment.parentId,
+        actor,
+      });
+      await syncCommentMentions(comment, actor);
+    }
+  }
+
+  return changed.length;
+}
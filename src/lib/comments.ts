@@ -0,0 +1,171 @@
+/**
+ * 评论编辑和删除 - 编辑时间窗口、编辑历史和软删除
+ *
+ * 主要功能：
+ * 1. 评论作者在编辑时间窗口内修改评论，编辑前保存旧版本；新内容疑似垃圾时转为待审核
+ * 2. 软删除评论，并维护文章评论数和父评论回复数
+ * 3. 已删除但仍有回复的评论以占位内容展示，保持对话完整
+ *
+ * 配置项：
+ * - COMMENT_EDIT_WINDOW_MINUTES：发表后可编辑的分钟数，默认 15
+ *
+ * 权限规则：
+ * - 只有评论作者可以编辑
+ * - 评论作者、文章作者和管理员可以删除
+ */
+import { Comment, CommentRevision, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { renderMarkdown } from '@/lib/markdown';
+import { updateApprovedCommentCounters } from '@/lib/comment-moderation';
+import type { SpamVerdict } from '@/lib/spam-filter';
+
+export const DELETED_COMMENT_PLACEHOLDER = '[deleted]';
+
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+type CommentSnapshot = Pick<
+  Comment,
+  'id' | 'postId' | 'parentId' | 'content' | 'contentHtml' | 'status'
+>;
+
+// 编辑时间窗口（毫秒）
+export function getCommentEditWindow() {
+  const minutes = Number(process.env.COMMENT_EDIT_WINDOW_MINUTES);
+  return (
+    (Number.isFinite(minutes) && minutes >= 0
+      ? minutes
+      : DEFAULT_EDIT_WINDOW_MINUTES) *
+    60 *
+    1000
+  );
+}
+
+// 评论可编辑的截止时间
+export function getEditableUntil(createdAt: Date) {
+  return new Date(createdAt.getTime() + getCommentEditWindow());
+}
+
+export function isWithinEditWindow(createdAt: Date, now = new Date()) {
+  return now < getEditableUntil(createdAt);
+}
+
+// 展示列表中包含的评论：正常评论，以及仍有可见回复的已删除评论
+export const visibleCommentFilter = {
+  OR: [
+    { status: 'APPROVED' as const, deletedAt: null },
+    {
+      status: 'DELETED' as const,
+      replies: { some: { status: 'APPROVED' as const, deletedAt: null } },
+    },
+  ],
+};
+
+type ModerationFields = Pick<
+  Comment,
+  'moderatedBy' | 'spamScore' | 'spamReasons'
+>;
+
+// 去掉只有审核人可见的字段（审核人、垃圾评论得分和原因）
+export function omitModerationFields<T extends ModerationFields>(comment: T) {
+  const result: Partial<ModerationFields> & Omit<T, keyof ModerationFields> = {
+    ...comment,
+  };
+  delete result.moderatedBy;
+  delete result.spamScore;
+  delete result.spamReasons;
+  return result as Omit<T, keyof ModerationFields>;
+}
+
+// 隐藏已删除评论的内容和作者
+export function maskDeletedComment<
+  T extends {
+    status: Comment['status'];
+    content: string;
+    contentHtml: string | null;
+  },
+>(comment: T) {
+  if (comment.status !== 'DELETED') {
+    return comment;
+  }
+
+  return {
+    ...comment,
+    content: DELETED_COMMENT_PLACEHOLDER,
+    contentHtml: null,
+    userId: null,
+    user: null,
+    likesCount: 0,
+  };
+}
+
+// 编辑评论：保存旧版本后更新内容，spam 为新内容的垃圾评论检查结果（未检查时为 null）
+export async function editComment(
+  comment: CommentSnapshot,
+  content: string,
+  spam: SpamVerdict | null = null
+) {
+  return prisma.$transaction(async (tx) => {
+    await tx.commentRevision.create({
+      data: {
+        commentId: comment.id,
+        content: comment.content,
+        contentHtml: comment.contentHtml,
+      },
+    });
+
+    // 疑似垃圾的已公开评论转为待审核，按已通过条件更新，避免与审核操作重复扣减计数
+    if (spam?.isSpam && comment.status === 'APPROVED') {
+      const { count } = await tx.comment.updateMany({
+        where: { id: comment.id, status: 'APPROVED' },
+        data: { status: 'PENDING' },
+      });
+
+      if (count > 0) {
+        await updateApprovedCommentCounters(tx, comment, -1);
+      }
+    }
+
+    return tx.comment.update({
+      where: { id: comment.id },
+      data: {
+        content,
+        contentHtml: renderMarkdown(content, 'comment'),
+        editedAt: new Date(),
+        ...(spam
+          ? {
+              spamScore: spam.score || null,
+              spamReasons: spam.reasons.length ? spam.reasons : Prisma.DbNull,
+            }
+          : {}),
+      },
+    });
+  });
+}
+
+// 软删除评论，返回是否删除成功
+export async function deleteComment(comment: CommentSnapshot) {
+  return prisma.$transaction(async (tx) => {
+    // 按未删除条件更新，避免并发删除重复扣减计数
+    const { count } = await tx.comment.updateMany({
+      where: { id: comment.id, deletedAt: null },
+      data: { status: 'DELETED', deletedAt: new Date() },
+    });
+
+    if (count > 0 && comment.status === 'APPROVED') {
+      await updateApprovedCommentCounters(tx, comment, -1);
+    }
+
+    return count > 0;
+  });
+}
+
+// 格式化编辑历史记录（BigInt序列化）
+export function formatCommentRevision(revision: CommentRevision) {
+  return {
+    id: revision.id.toString(),
+    commentId: revision.commentId.toString(),
+    content: revision.content,
+    contentHtml: revision.contentHtml,
+    createdAt: revision.createdAt,
+  };
+}
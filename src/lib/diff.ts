@@ -0,0 +1,209 @@
+/**
+ * 文本差异比较工具 - 行级别的文本对比
+ *
+ * 主要功能：
+ * 1. 按行比较两段文本
+ * 2. 基于 Myers 差异算法计算最短编辑脚本
+ * 3. 输出新增、删除、未变更三种行记录
+ * 4. 统计新增和删除的行数
+ *
+ * 性能设计：
+ * - 先跳过首尾相同的行，只比较中间变化的部分
+ * - 耗时和内存随编辑距离增长，而不是随行数的乘积增长
+ * - 编辑距离超过 MAX_EDIT_DISTANCE 时退化为整段删除再整段新增，避免大幅改写的长文阻塞请求
+ *
+ * 使用场景：
+ * - 文章修订历史对比
+ * - 版本恢复前的预览
+ */
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+}
+
+export interface DiffResult {
+  lines: DiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+}
+
+type EditOp = 'removed' | 'added' | 'unchanged';
+
+// 编辑距离上限（新增行数 + 删除行数）
+const MAX_EDIT_DISTANCE = 1000;
+
+// 统一换行符后按行切分
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+// Myers 差异算法，返回从 a 到 b 的编辑脚本；编辑距离超过上限时返回 null
+function shortestEditScript(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+
+  // v[offset + k] 表示对角线 k（x - y = k）上走得最远的 x
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 保存第 d 步开始前的 v，用于回溯编辑路径
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, offset, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+// 从终点沿 trace 倒推编辑路径
+function backtrack(
+  trace: Int32Array[],
+  offset: number,
+  n: number,
+  m: number
+): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('unchanged');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'added' : 'removed');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+// 行级差异比较
+export function diffLines(oldText: string, newText: string): DiffResult {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // 跳过首尾相同的行，减少计算量
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  // 编辑距离过大时整段删除再整段新增
+  const ops = shortestEditScript(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((): EditOp => 'removed'),
+    ...newMiddle.map((): EditOp => 'added'),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+
+  const pushUnchanged = (content: string) => {
+    lines.push({
+      type: 'unchanged',
+      content,
+      oldLineNumber: oldLineNumber++,
+      newLineNumber: newLineNumber++,
+    });
+  };
+
+  for (let k = 0; k < start; k++) {
+    pushUnchanged(oldLines[k]);
+  }
+
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === 'unchanged') {
+      pushUnchanged(oldMiddle[i]);
+      i++;
+      j++;
+    } else if (op === 'removed') {
+      lines.push({
+        type: 'removed',
+        content: oldMiddle[i],
+        oldLineNumber: oldLineNumber++,
+        newLineNumber: null,
+      });
+      i++;
+    } else {
+      lines.push({
+        type: 'added',
+        content: newMiddle[j],
+        oldLineNumber: null,
+        newLineNumber: newLineNumber++,
+      });
+      j++;
+    }
+  }
+
+  for (let k = oldEnd; k < oldLines.length; k++) {
+    pushUnchanged(oldLines[k]);
+  }
+
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+  for (const line of lines) {
+    stats[line.type]++;
+  }
+
+  return { lines, stats };
+}
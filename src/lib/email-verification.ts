@@ -0,0 +1,152 @@
+/**
+ * 邮箱验证 - 验证邮件发送、令牌校验和未验证账号的操作限制
+ *
+ * 主要功能：
+ * 1. 注册后发送邮箱验证邮件（签名令牌，24 小时有效）
+ * 2. 校验验证链接并标记邮箱已验证
+ * 3. 按配置限制未验证邮箱的账号发布文章或发表评论
+ *
+ * 配置项：
+ * - EMAIL_VERIFICATION_REQUIRED_FOR：需要验证邮箱的操作，逗号分隔，
+ *   可选 publish（发布文章）、comment（发表评论），默认不限制
+ * - SITE_URL / SITE_NAME：邮件中的站点链接和名称
+ *
+ * 设计说明：
+ * - 令牌绑定邮箱地址，邮箱变更后旧链接失效
+ * - 邮件通过 mail 模块的传输层发送，可配置为写入本地文件
+ */
+import { prisma } from '@/lib/db';
+import { sendMail } from '@/lib/mail';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-token';
+
+export type VerificationRequiredAction = 'publish' | 'comment';
+
+export type VerifyEmailResult =
+  | { status: 'VERIFIED' | 'ALREADY_VERIFIED'; userId: bigint }
+  | { status: 'INVALID' | 'EXPIRED' };
+
+const TOKEN_PURPOSE = 'verify-email';
+const TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+const siteUrl = () =>
+  (process.env.SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const siteName = () => process.env.SITE_NAME || '博客平台';
+
+// 读取需要验证邮箱的操作配置
+export function verificationRequiredFor(
+  action: VerificationRequiredAction,
+  setting = process.env.EMAIL_VERIFICATION_REQUIRED_FOR || ''
+) {
+  return setting
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .includes(action);
+}
+
+// 生成邮箱验证令牌
+export function createEmailVerificationToken(user: {
+  id: bigint;
+  email: string;
+}) {
+  return createSignedToken({
+    purpose: TOKEN_PURPOSE,
+    subject: user.id.toString(),
+    data: user.email,
+    ttlSeconds: TOKEN_TTL_SECONDS,
+  });
+}
+
+// 发送邮箱验证邮件
+export async function sendVerificationEmail(user: {
+  id: bigint;
+  email: string;
+  username: string;
+}) {
+  const link = `${siteUrl()}/auth/verify-email?token=${encodeURIComponent(
+    createEmailVerificationToken(user)
+  )}`;
+
+  await sendMail({
+    to: user.email,
+    subject: `验证你在${siteName()}的邮箱`,
+    text: [
+      `${user.username}，你好：`,
+      '',
+      '请打开以下链接验证你的邮箱地址（24 小时内有效）：',
+      link,
+      '',
+      '如果这不是你的操作，请忽略此邮件。',
+    ].join('\n'),
+    html: [
+      `<p>${user.username}，你好：</p>`,
+      '<p>请点击下面的链接验证你的邮箱地址（24 小时内有效）：</p>',
+      `<p><a href="${link}">验证邮箱</a></p>`,
+      '<p>如果这不是你的操作，请忽略此邮件。</p>',
+    ].join('\n'),
+  });
+}
+
+// 校验验证令牌并标记邮箱已验证
+export async function verifyEmailToken(
+  token: string
+): Promise<VerifyEmailResult> {
+  const result = verifySignedToken(token, TOKEN_PURPOSE);
+  if (!result.valid) {
+    return { status: result.reason };
+  }
+
+  let userId: bigint;
+  try {
+    userId = BigInt(result.payload.sub);
+  } catch {
+    return { status: 'INVALID' };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+
+  // 邮箱已变更的旧链接视为无效
+  if (!user || user.email !== result.payload.data) {
+    return { status: 'INVALID' };
+  }
+
+  if (user.emailVerified) {
+    return { status: 'ALREADY_VERIFIED', userId };
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { emailVerified: true },
+  });
+
+  return { status: 'VERIFIED', userId };
+}
+
+// 检查账号能否执行需要验证邮箱的操作，不能执行时返回提示信息
+export async function getEmailVerificationBlock(
+  userId: bigint,
+  action: VerificationRequiredAction
+) {
+  if (!verificationRequiredFor(action)) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerified: true },
+  });
+
+  if (user?.emailVerified) {
+    return null;
+  }
+
+  return {
+    code: 'EMAIL_NOT_VERIFIED',
+    message:
+      action === 'publish'
+        ? '请先验证邮箱后再发布文章'
+        : '请先验证邮箱后再发表评论',
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * 关注关系 - 粉丝和关注列表查询
+ *
+ * 主要功能：
+ * 1. 分页查询用户的粉丝列表（followers）
+ * 2. 分页查询用户的关注列表（following）
+ * 3. 列表项用户信息的 BigInt 序列化
+ */
+import { prisma } from '@/lib/db';
+
+export type FollowDirection = 'followers' | 'following';
+
+const followUserSelect = {
+  id: true,
+  username: true,
+  avatarUrl: true,
+  bio: true,
+} as const;
+
+// 分页获取粉丝或关注列表，按关注时间倒序
+export async function getFollowList(
+  userId: bigint,
+  direction: FollowDirection,
+  page: number,
+  limit: number
+) {
+  const where =
+    direction === 'followers'
+      ? { followingId: userId }
+      : { followerId: userId };
+
+  const [follows, total] = await Promise.all([
+    prisma.follow.findMany({
+      where,
+      include: {
+        follower: { select: followUserSelect },
+        following: { select: followUserSelect },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.follow.count({ where }),
+  ]);
+
+  const users = follows.map((follow) => {
+    const user = direction === 'followers' ? follow.follower : follow.following;
+    return {
+      ...user,
+      id: user.id.toString(),
+      followedAt: follow.createdAt,
+    };
+  });
+
+  return {
+    users,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * 邮件发送 - 可插拔的邮件传输层
+ *
+ * 主要功能：
+ * 1. 统一的 sendMail 接口
+ * 2. SMTP 传输（生产环境）
+ * 3. 文件传输：将邮件写入本地 .eml 文件，便于本地查看
+ * 4. 控制台传输：将邮件内容打印到日志
+ *
+ * 配置项：
+ * - MAIL_TRANSPORT：smtp、file 或 console，默认生产环境 smtp，其余 console
+ * - MAIL_FILE_DIR：文件传输的输出目录，默认 .mail
+ * - EMAIL_SERVER_HOST / EMAIL_SERVER_PORT / EMAIL_SERVER_USER / EMAIL_SERVER_PASSWORD：SMTP 连接
+ * - EMAIL_FROM：发件人地址
+ *
+ * 扩展方式：
+ * - 实现 MailTransport 接口并通过 setMailTransport 替换默认传输
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+type TransportName = 'smtp' | 'file' | 'console';
+
+const DEFAULT_FROM = 'noreply@localhost';
+
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.EMAIL_SERVER_HOST,
+    port: Number(process.env.EMAIL_SERVER_PORT) || 587,
+    secure: Number(process.env.EMAIL_SERVER_PORT) === 465,
+    auth: process.env.EMAIL_SERVER_USER
+      ? {
+          user: process.env.EMAIL_SERVER_USER,
+          pass: process.env.EMAIL_SERVER_PASSWORD,
+        }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+export function createFileTransport(
+  directory = process.env.MAIL_FILE_DIR || '.mail'
+): MailTransport {
+  // 复用 nodemailer 的 MIME 生成，输出标准 .eml 文件
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      await fs.mkdir(directory, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const recipient = message.to.replace(/[^\w@.-]/g, '_');
+      const fileName = `${timestamp}-${recipient}.eml`;
+      const filePath = path.join(directory, fileName);
+      await fs.writeFile(filePath, info.message as Buffer);
+      console.log(`邮件已写入 ${filePath}`);
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(
+        [
+          '========== 邮件 ==========',
+          `发件人: ${message.from}`,
+          `收件人: ${message.to}`,
+          `主题: ${message.subject}`,
+          '',
+          message.text,
+          '==========================',
+        ].join('\n')
+      );
+    },
+  };
+}
+
+function createDefaultTransport(): MailTransport {
+  const name = (process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'production'
+      ? 'smtp'
+      : 'console')) as TransportName;
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    default:
+      return createConsoleTransport();
+  }
+}
+
+const globalForMail = globalThis as unknown as {
+  mailTransport: MailTransport | undefined;
+};
+
+export function getMailTransport() {
+  if (!globalForMail.mailTransport) {
+    globalForMail.mailTransport = createDefaultTransport();
+  }
+  return globalForMail.mailTransport;
+}
+
+// 替换邮件传输（如测试或接入第三方邮件服务）
+export function setMailTransport(transport: MailTransport) {
+  globalForMail.mailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.EMAIL_FROM || DEFAULT_FROM,
+  });
+}
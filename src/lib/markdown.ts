@@ -0,0 +1,90 @@
+/**
+ * Markdown 渲染管线 - 将 CommonMark/GFM 转换为安全的 HTML
+ *
+ * 主要功能：
+ * 1. CommonMark 与 GFM 语法解析（表格、任务列表、删除线、自动链接）
+ * 2. GFM 脚注
+ * 3. 标题锚点（自动生成 id 和跳转链接）
+ * 4. 代码块语法高亮
+ * 5. HTML 清洗（按文章、评论策略白名单过滤，见 sanitize.ts）
+ * 6. @用户名 转换为用户主页链接（见 remark-mentions.ts）
+ *
+ * 处理流程：
+ * - remark-parse 解析 Markdown
+ * - remark-gfm 扩展 GFM 语法
+ * - remark-mentions 解析 @提及
+ * - remark-rehype 转换为 HTML 语法树（保留内嵌 HTML）
+ * - rehype-raw 解析内嵌 HTML
+ * - rehype-sanitize 按内容策略白名单清洗
+ * - rehype-slug / rehype-autolink-headings 生成标题锚点
+ * - rehype-highlight 代码高亮
+ * - rehype-stringify 输出 HTML 字符串
+ *
+ * 说明：
+ * - 清洗在生成锚点和高亮之前执行，后续插件只添加受信任的属性
+ * - 所有插件均为同步插件，服务端和编辑器预览共用同一管线
+ *
+ * 使用场景：
+ * - 文章、评论创建和更新时生成 contentHtml
+ * - 编辑器实时预览
+ * - 文章详情页渲染
+ */
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeStringify from 'rehype-stringify';
+import { remarkMentions } from '@/lib/remark-mentions';
+import {
+  sanitizePolicies,
+  USER_CONTENT_PREFIX,
+  type SanitizePolicy,
+} from '@/lib/sanitize';
+
+type MarkdownPolicy = Exclude<SanitizePolicy, 'bio'>;
+
+function createProcessor(policy: MarkdownPolicy) {
+  return unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMentions)
+    .use(remarkRehype, {
+      allowDangerousHtml: true,
+      clobberPrefix: USER_CONTENT_PREFIX,
+      footnoteLabel: '脚注',
+      footnoteBackLabel: '返回正文',
+    })
+    .use(rehypeRaw)
+    .use(rehypeSanitize, sanitizePolicies[policy])
+    .use(rehypeSlug, { prefix: USER_CONTENT_PREFIX })
+    .use(rehypeAutolinkHeadings, {
+      behavior: 'append',
+      properties: { className: ['heading-anchor'], ariaHidden: 'true' },
+      content: { type: 'text', value: '#' },
+    })
+    .use(rehypeHighlight, { detect: false })
+    .use(rehypeStringify)
+    .freeze();
+}
+
+const processors = {
+  post: createProcessor('post'),
+  comment: createProcessor('comment'),
+};
+
+// 将 Markdown 渲染为清洗后的 HTML
+export function renderMarkdown(
+  markdown: string,
+  policy: MarkdownPolicy = 'post'
+): string {
+  if (!markdown) {
+    return '';
+  }
+
+  return String(processors[policy].processSync(markdown));
+}
@@ -0,0 +1,179 @@
+/**
+ * @提及记录 - 保存文章和评论中的提及关系并通知被提及的用户
+ *
+ * 主要功能：
+ * 1. 解析内容中的 @用户名，与数据库中的用户匹配
+ * 2. 同步提及记录：新增的提及写入并通知，移除的提及删除
+ * 3. 查询用户被提及的记录
+ *
+ * 同步规则：
+ * - 只记录状态正常的用户，不记录自己提及自己
+ * - 每条内容最多记录 20 个提及，防止批量骚扰
+ * - 编辑内容时只通知新增的提及，已通知过的用户不会重复通知
+ * - 文章在发布后、评论在公开后才同步提及
+ *
+ * 设计说明：
+ * - 提及属于附加功能，同步失败只记录日志，不影响主流程
+ */
+import { prisma } from '@/lib/db';
+import { extractMentions } from '@/lib/remark-mentions';
+import { notifyMention, type NotificationActor } from '@/lib/notifications';
+
+const MAX_MENTIONS = 20;
+
+interface MentionSource {
+  postId: bigint;
+  commentId?: bigint | null;
+  content: string;
+  actor: NotificationActor;
+  // 已通过其他通知（如评论、回复）提醒的用户不再发送提及通知
+  skipNotifyUserIds?: bigint[];
+}
+
+export async function syncMentions({
+  postId,
+  commentId = null,
+  content,
+  actor,
+  skipNotifyUserIds = [],
+}: MentionSource) {
+  try {
+    const usernames = extractMentions(content).slice(0, MAX_MENTIONS);
+
+    const users = usernames.length
+      ? await prisma.user.findMany({
+          where: {
+            username: { in: usernames },
+            status: 'ACTIVE',
+            id: { not: actor.id },
+          },
+          select: { id: true },
+        })
+      : [];
+
+    const existing = await prisma.mention.findMany({
+      where: { postId, commentId },
+      select: { id: true, userId: true },
+    });
+
+    const mentionedIds = new Set(users.map((user) => user.id));
+    const existingIds = new Set(existing.map((mention) => mention.userId));
+
+    const removed = existing.filter(
+      (mention) => !mentionedIds.has(mention.userId)
+    );
+    const added = users.filter((user) => !existingIds.has(user.id));
+
+    if (removed.length > 0) {
+      await prisma.mention.deleteMany({
+        where: { id: { in: removed.map((mention) => mention.id) } },
+      });
+    }
+
+    if (added.length > 0) {
+      await prisma.mention.createMany({
+        data: added.map((user) => ({
+          userId: user.id,
+          actorId: actor.id,
+          postId,
+          commentId,
+        })),
+      });
+    }
+
+    for (const user of added) {
+      if (skipNotifyUserIds.includes(user.id)) continue;
+      await notifyMention({ userId: user.id, postId, commentId, actor });
+    }
+  } catch (error) {
+    console.error('同步提及记录失败:', error);
+  }
+}
+
+// 同步评论中的提及，文章作者和被回复的评论作者已收到评论通知，不再重复通知
+export async function syncCommentMentions(
+  comment: {
+    id: bigint;
+    postId: bigint;
+    parentId: bigint | null;
+    content: string;
+  },
+  actor: NotificationActor
+) {
+  try {
+    const [post, parent] = await Promise.all([
+      prisma.post.findUnique({
+        where: { id: comment.postId },
+        select: { authorId: true },
+      }),
+      comment.parentId
+        ? prisma.comment.findUnique({
+            where: { id: comment.parentId },
+            select: { userId: true },
+          })
+        : null,
+    ]);
+
+    await syncMentions({
+      postId: comment.postId,
+      commentId: comment.id,
+      content: comment.content,
+      actor,
+      skipNotifyUserIds: [post?.authorId, parent?.userId].filter(
+        (id): id is bigint => id !== undefined
+      ),
+    });
+  } catch (error) {
+    console.error('同步评论提及失败:', error);
+  }
+}
+
+// 分页查询用户被提及的记录（只包含已发布文章和公开的评论）
+export async function getUserMentions(
+  userId: bigint,
+  cursor: bigint | undefined,
+  limit: number
+) {
+  const mentions = await prisma.mention.findMany({
+    where: {
+      userId,
+      post: { status: 'PUBLISHED', deletedAt: null },
+      OR: [
+        { commentId: null },
+        { comment: { status: 'APPROVED', deletedAt: null } },
+      ],
+    },
+    include: {
+      actor: { select: { id: true, username: true, avatarUrl: true } },
+      post: { select: { id: true, title: true } },
+      comment: { select: { id: true, content: true } },
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    take: limit + 1,
+  });
+
+  const hasMore = mentions.length > limit;
+  const items = mentions.slice(0, limit);
+
+  return {
+    mentions: items.map((mention) => ({
+      id: mention.id.toString(),
+      createdAt: mention.createdAt,
+      link: mention.commentId
+        ? `/posts/${mention.postId}#comment-${mention.commentId}`
+        : `/posts/${mention.postId}`,
+      actor: mention.actor
+        ? { ...mention.actor, id: mention.actor.id.toString() }
+        : null,
+      post: mention.post
+        ? { ...mention.post, id: mention.post.id.toString() }
+        : null,
+      comment: mention.comment
+        ? { ...mention.comment, id: mention.comment.id.toString() }
+        : null,
+    })),
+    nextCursor: hasMore ? items[items.length - 1].id.toString() : null,
+    hasMore,
+  };
+}
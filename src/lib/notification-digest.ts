@@ -0,0 +1,261 @@
+/**
+ * 通知邮件摘要 - 将未读通知汇总为一封邮件
+ *
+ * 主要功能：
+ * 1. 按用户的摘要频率（每日、每周）汇总未读通知
+ * 2. 只包含用户开启邮件的通知类型
+ * 3. 已发送的通知记录 emailedAt，不会重复发送
+ * 4. 后台定时检查并发送到期的摘要
+ *
+ * 多实例部署：
+ * - 通过 Redis 锁保证同一检查周期只有一个实例发送
+ * - Redis 不可用时退化为各实例独立检查
+ *
+ * 配置项：
+ * - DIGEST_ENABLED：设为 false 时不启动摘要任务
+ * - DIGEST_INTERVAL_MS：检查间隔（毫秒），默认 1 小时
+ * - SITE_URL / SITE_NAME：邮件中的站点链接和名称
+ */
+import { DigestFrequency, Notification } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { redis } from '@/lib/redis';
+import { sendMail } from '@/lib/mail';
+import { getEmailEnabledTypes } from '@/lib/notification-preferences';
+
+const CHECK_INTERVAL = Number(process.env.DIGEST_INTERVAL_MS) || 60 * 60 * 1000;
+const LOCK_KEY = 'scheduler:digest-lock';
+const MAX_DIGEST_ITEMS = 50;
+const USER_BATCH_SIZE = 100;
+
+const DIGEST_PERIODS: Record<DigestFrequency, number | null> = {
+  NEVER: null,
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+const globalForDigest = globalThis as unknown as {
+  digestScheduler: ReturnType<typeof setInterval> | undefined;
+};
+
+const siteUrl = () =>
+  (process.env.SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const siteName = () => process.env.SITE_NAME || '博客平台';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function notificationLink(notification: Notification) {
+  const data = notification.data as { link?: string } | null;
+  return `${siteUrl()}${data?.link || '/notifications'}`;
+}
+
+// 生成摘要邮件内容
+export function buildDigestEmail(
+  username: string,
+  notifications: Notification[],
+  total: number
+) {
+  const subject = `${siteName()}：你有 ${total} 条未读通知`;
+  const moreText =
+    total > notifications.length
+      ? `还有 ${total - notifications.length} 条通知未列出。`
+      : '';
+
+  const text = [
+    `${username}，你好：`,
+    '',
+    `你在${siteName()}有 ${total} 条未读通知：`,
+    '',
+    ...notifications.map(
+      (notification) =>
+        `- ${notification.content}\n  ${notificationLink(notification)}`
+    ),
+    '',
+    moreText,
+    `查看全部通知：${siteUrl()}/notifications`,
+    `修改通知设置：${siteUrl()}/profile`,
+  ]
+    .filter((line, index, lines) => line !== '' || lines[index - 1] !== '')
+    .join('\n');
+
+  const html = `
+<p>${escapeHtml(username)}，你好：</p>
+<p>你在${escapeHtml(siteName())}有 ${total} 条未读通知：</p>
+<ul>
+${notifications
+  .map(
+    (notification) =>
+      `  <li><a href="${escapeHtml(notificationLink(notification))}">${escapeHtml(
+        notification.content
+      )}</a></li>`
+  )
+  .join('\n')}
+</ul>
+${moreText ? `<p>${moreText}</p>` : ''}
+<p><a href="${siteUrl()}/notifications">查看全部通知</a> · <a href="${siteUrl()}/profile">修改通知设置</a></p>
+`.trim();
+
+  return { subject, text, html };
+}
+
+// 为单个用户发送摘要，返回是否发送
+export async function sendDigestForUser(userId: bigint, now = new Date()) {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, status: 'ACTIVE' },
+    select: {
+      email: true,
+      username: true,
+      profile: { select: { digestFrequency: true, lastDigestAt: true } },
+    },
+  });
+
+  if (!user) return false;
+
+  const frequency = user.profile?.digestFrequency ?? 'DAILY';
+  const period = DIGEST_PERIODS[frequency];
+  if (period === null) return false;
+
+  const lastDigestAt = user.profile?.lastDigestAt;
+  if (lastDigestAt && now.getTime() - lastDigestAt.getTime() < period) {
+    return false;
+  }
+
+  const types = await getEmailEnabledTypes(userId);
+  if (types.length === 0) return false;
+
+  const where = {
+    userId,
+    isRead: false,
+    emailedAt: null,
+    type: { in: types },
+  };
+
+  const [notifications, total] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_DIGEST_ITEMS,
+    }),
+    prisma.notification.count({ where }),
+  ]);
+
+  if (notifications.length === 0) return false;
+
+  const { subject, text, html } = buildDigestEmail(
+    user.username,
+    notifications,
+    total
+  );
+  await sendMail({ to: user.email, subject, text, html });
+
+  // 本次摘要中的所有通知（包括未列出的）都标记为已发送
+  await prisma.$transaction([
+    prisma.notification.updateMany({
+      where: { ...where, createdAt: { lte: notifications[0].createdAt } },
+      data: { emailedAt: now },
+    }),
+    prisma.userProfile.upsert({
+      where: { userId },
+      update: { lastDigestAt: now },
+      create: { userId, lastDigestAt: now },
+    }),
+  ]);
+
+  return true;
+}
+
+// 检查所有有待发送通知的用户并发送到期的摘要，返回发送数量
+export async function sendNotificationDigests(now = new Date()) {
+  let sentCount = 0;
+  let lastUserId: bigint | undefined;
+
+  // 按用户 ID 分批遍历开启了邮件通知且有未发送通知的用户
+  while (true) {
+    const pending = await prisma.notification.groupBy({
+      by: ['userId'],
+      where: {
+        isRead: false,
+        emailedAt: null,
+        ...(lastUserId !== undefined ? { userId: { gt: lastUserId } } : {}),
+        user: {
+          notificationPreferences: { some: { inApp: true, email: true } },
+        },
+      },
+      orderBy: { userId: 'asc' },
+      take: USER_BATCH_SIZE,
+    });
+
+    for (const { userId } of pending) {
+      try {
+        if (await sendDigestForUser(userId, now)) {
+          sentCount++;
+        }
+      } catch (error) {
+        console.error(`发送通知摘要失败（用户 ${userId}）:`, error);
+      }
+    }
+
+    if (pending.length < USER_BATCH_SIZE) {
+      break;
+    }
+    lastUserId = pending[pending.length - 1].userId;
+  }
+
+  return sentCount;
+}
+
+// 获取本轮执行锁，锁有效期为半个检查周期
+async function acquireLock() {
+  try {
+    const result = await redis.set(
+      LOCK_KEY,
+      process.pid.toString(),
+      'PX',
+      Math.floor(CHECK_INTERVAL / 2),
+      'NX'
+    );
+    return result === 'OK';
+  } catch {
+    return true;
+  }
+}
+
+async function runDigest() {
+  if (!(await acquireLock())) {
+    return;
+  }
+
+  try {
+    const count = await sendNotificationDigests();
+    if (count > 0) {
+      console.log(`通知摘要：已发送 ${count} 封邮件`);
+    }
+  } catch (error) {
+    console.error('通知摘要任务失败:', error);
+  }
+}
+
+// 启动通知摘要定时检查（重复调用不会创建多个定时器）
+export function startDigestScheduler() {
+  if (
+    process.env.DIGEST_ENABLED === 'false' ||
+    globalForDigest.digestScheduler
+  ) {
+    return;
+  }
+
+  globalForDigest.digestScheduler = setInterval(runDigest, CHECK_INTERVAL);
+  void runDigest();
+}
+
+// 停止通知摘要定时检查
+export function stopDigestScheduler() {
+  if (globalForDigest.digestScheduler) {
+    clearInterval(globalForDigest.digestScheduler);
+    globalForDigest.digestScheduler = undefined;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * 通知偏好 - 用户对各类通知的接收方式设置
+ *
+ * 主要功能：
+ * 1. 读取用户的通知偏好（未设置的类型使用默认值）
+ * 2. 更新各类型的站内、邮件开关和邮件摘要频率
+ * 3. 判断某类通知是否需要生成
+ *
+ * 偏好规则：
+ * - 站内通知默认开启，邮件默认关闭
+ * - 邮件通知以摘要形式发送未读通知，因此关闭站内通知时邮件也不会发送
+ * - 系统通知（SYSTEM）始终发送，不可关闭
+ */
+import { DigestFrequency, NotificationType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+// 用户可以设置的通知类型
+export const CONFIGURABLE_NOTIFICATION_TYPES = [
+  'COMMENT',
+  'REPLY',
+  'LIKE',
+  'FAVORITE',
+  'FOLLOW',
+  'MENTION',
+] as const satisfies readonly NotificationType[];
+
+export type ConfigurableNotificationType =
+  (typeof CONFIGURABLE_NOTIFICATION_TYPES)[number];
+
+export interface NotificationChannelPreference {
+  type: ConfigurableNotificationType;
+  inApp: boolean;
+  email: boolean;
+}
+
+export interface NotificationPreferences {
+  types: NotificationChannelPreference[];
+  digestFrequency: DigestFrequency;
+}
+
+const DEFAULT_IN_APP = true;
+const DEFAULT_EMAIL = false;
+
+const isConfigurable = (
+  type: NotificationType
+): type is ConfigurableNotificationType =>
+  (CONFIGURABLE_NOTIFICATION_TYPES as readonly NotificationType[]).includes(
+    type
+  );
+
+export async function getNotificationPreferences(
+  userId: bigint
+): Promise<NotificationPreferences> {
+  const [rows, profile] = await Promise.all([
+    prisma.notificationPreference.findMany({ where: { userId } }),
+    prisma.userProfile.findUnique({
+      where: { userId },
+      select: { digestFrequency: true },
+    }),
+  ]);
+
+  return {
+    types: CONFIGURABLE_NOTIFICATION_TYPES.map((type) => {
+      const row = rows.find((item) => item.type === type);
+      return {
+        type,
+        inApp: row?.inApp ?? DEFAULT_IN_APP,
+        email: row ? row.inApp && row.email : DEFAULT_EMAIL,
+      };
+    }),
+    digestFrequency: profile?.digestFrequency ?? 'DAILY',
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: bigint,
+  preferences: Partial<NotificationPreferences>
+) {
+  await prisma.$transaction(async (tx) => {
+    for (const preference of preferences.types ?? []) {
+      // 关闭站内通知时不会生成通知，邮件摘要也随之关闭
+      const email = preference.inApp && preference.email;
+      await tx.notificationPreference.upsert({
+        where: { userId_type: { userId, type: preference.type } },
+        update: { inApp: preference.inApp, email },
+        create: {
+          userId,
+          type: preference.type,
+          inApp: preference.inApp,
+          email,
+        },
+      });
+    }
+
+    if (preferences.digestFrequency) {
+      await tx.userProfile.upsert({
+        where: { userId },
+        update: { digestFrequency: preferences.digestFrequency },
+        create: { userId, digestFrequency: preferences.digestFrequency },
+      });
+    }
+  });
+
+  return getNotificationPreferences(userId);
+}
+
+// 判断是否为用户生成该类型的通知
+export async function isNotificationEnabled(
+  userId: bigint,
+  type: NotificationType
+) {
+  if (!isConfigurable(type)) {
+    return true;
+  }
+
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_type: { userId, type } },
+    select: { inApp: true },
+  });
+
+  return preference?.inApp ?? DEFAULT_IN_APP;
+}
+
+// 获取用户开启邮件的通知类型
+export async function getEmailEnabledTypes(userId: bigint) {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId, inApp: true, email: true },
+    select: { type: true },
+  });
+
+  return rows.map((row) => row.type);
+}
@@ -0,0 +1,176 @@
+/**
+ * 通知实时推送 - 基于 Redis 发布订阅的跨实例通知分发
+ *
+ * 主要功能：
+ * 1. 通知创建、合并或已读状态变化时向用户频道发布事件
+ * 2. 为 SSE 连接订阅指定用户的通知事件
+ * 3. 同一进程内多个连接共用一个订阅连接
+ *
+ * 事件类型：
+ * - notification：新的或被合并更新的通知，附带最新未读数
+ * - unread：未读数变化（如标记已读）
+ *
+ * 设计说明：
+ * - 订阅模式下的 Redis 连接不能执行普通命令，因此使用独立的订阅连接
+ * - 按用户频道引用计数，最后一个连接断开时取消订阅
+ * - 订阅进行中加入的连接等待同一次订阅完成，订阅失败时各自移除自己的监听
+ * - 发布失败只记录日志，不影响通知写入
+ */
+import { Notification } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { prisma } from '@/lib/db';
+import { redis } from '@/lib/redis';
+
+export interface SerializedNotification
+  extends Omit<Notification, 'id' | 'userId'> {
+  id: string;
+  userId: string;
+}
+
+export type NotificationEvent =
+  | {
+      type: 'notification';
+      notification: SerializedNotification;
+      unreadCount: number;
+    }
+  | {
+      type: 'unread';
+      unreadCount: number;
+    };
+
+type NotificationListener = (event: NotificationEvent) => void;
+
+const CHANNEL_PREFIX = 'notifications:user:';
+
+const globalForNotificationStream = globalThis as unknown as {
+  notificationSubscriber: Redis | undefined;
+  notificationListeners: Map<string, Set<NotificationListener>> | undefined;
+};
+
+const listeners: Map<
+  string,
+  Set<NotificationListener>
+> = globalForNotificationStream.notificationListeners ??
+(globalForNotificationStream.notificationListeners = new Map());
+
+// 进行中的频道订阅
+const pendingSubscriptions = new Map<string, Promise<unknown>>();
+
+const channelFor = (userId: bigint | string) => `${CHANNEL_PREFIX}${userId}`;
+
+// 获取进程内共用的订阅连接
+function getSubscriber() {
+  if (globalForNotificationStream.notificationSubscriber) {
+    return globalForNotificationStream.notificationSubscriber;
+  }
+
+  const subscriber = redis.duplicate();
+  subscriber.on('message', (channel: string, message: string) => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners) return;
+
+    try {
+      const event = JSON.parse(message) as NotificationEvent;
+      channelListeners.forEach((listener) => listener(event));
+    } catch (error) {
+      console.error('解析通知事件失败:', error);
+    }
+  });
+  subscriber.on('error', (error) => {
+    console.error('通知订阅连接错误:', error);
+  });
+
+  globalForNotificationStream.notificationSubscriber = subscriber;
+  return subscriber;
+}
+
+export function serializeNotification(
+  notification: Notification
+): SerializedNotification {
+  return {
+    ...notification,
+    id: notification.id.toString(),
+    userId: notification.userId.toString(),
+  };
+}
+
+export function countUnreadNotifications(userId: bigint) {
+  return prisma.notification.count({
+    where: { userId, isRead: false },
+  });
+}
+
+async function publish(userId: bigint, event: NotificationEvent) {
+  await redis.publish(channelFor(userId), JSON.stringify(event));
+}
+
+// 推送新的或被合并更新的通知
+export async function publishNotification(notification: Notification) {
+  try {
+    const unreadCount = await countUnreadNotifications(notification.userId);
+    await publish(notification.userId, {
+      type: 'notification',
+      notification: serializeNotification(notification),
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('发布通知事件失败:', error);
+  }
+}
+
+// 推送最新未读数
+export async function publishUnreadCount(userId: bigint) {
+  try {
+    const unreadCount = await countUnreadNotifications(userId);
+    await publish(userId, { type: 'unread', unreadCount });
+  } catch (error) {
+    console.error('发布未读数事件失败:', error);
+  }
+}
+
+// 订阅用户的通知事件，返回取消订阅函数
+export async function subscribeNotifications(
+  userId: bigint,
+  listener: NotificationListener
+) {
+  const channel = channelFor(userId);
+  const subscriber = getSubscriber();
+
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    pendingSubscriptions.set(
+      channel,
+      subscriber
+        .subscribe(channel)
+        .finally(() => pendingSubscriptions.delete(channel))
+    );
+  }
+  channelListeners.add(listener);
+
+  const unsubscribe = async () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      try {
+        await subscriber.unsubscribe(channel);
+      } catch (error) {
+        console.error('取消通知订阅失败:', error);
+      }
+    }
+  };
+
+  // 等待订阅完成；失败时只移除当前连接的监听，其他连接不受影响
+  try {
+    await pendingSubscriptions.get(channel);
+  } catch (error) {
+    await unsubscribe();
+    throw error;
+  }
+
+  return unsubscribe;
+}
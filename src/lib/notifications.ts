@@ -0,0 +1,430 @@
+/**
+ * 通知服务 - 根据用户互动自动生成站内通知
+ *
+ * 主要功能：
+ * 1. 新评论通知文章作者，回复通知父评论作者
+ * 2. 点赞通知文章或评论作者，收藏通知文章作者
+ * 3. 关注通知被关注者
+ * 4. 在文章或评论中 @提及 通知被提及的用户
+ * 5. 同一对象的未读点赞、收藏通知合并为一条（如“张三 等 5 人赞了你的文章”）
+ * 6. 通知写入后通过 Redis 发布订阅实时推送给在线用户
+ * 7. 作者申请审核结果和角色变更以系统通知告知用户
+ *
+ * 通知数据（Notification.data）：
+ * - link：跳转地址，评论相关通知定位到 #comment-{id}
+ * - actorIds / actorNames：触发通知的用户（合并通知保留最近的用户）
+ * - count：合并通知的人数（最多统计 100 人）
+ *
+ * 设计说明：
+ * - 用户对自己内容的操作不产生通知
+ * - 用户在通知偏好中关闭的类型不产生通知
+ * - 通知属于附加功能，生成失败只记录日志，不影响主流程
+ * - 合并通知按接收者加锁串行写入，合并时只更新 lastActivityAt，创建时间保持不变
+ */
+import { NotificationType, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { publishNotification } from '@/lib/notification-stream';
+import { isNotificationEnabled } from '@/lib/notification-preferences';
+import { roleLabels } from '@/lib/user-roles';
+
+export interface NotificationActor {
+  id: bigint;
+  username: string;
+}
+
+interface NotificationData {
+  link?: string;
+  actorIds?: string[];
+  actorNames?: string[];
+  count?: number;
+  [key: string]: unknown;
+}
+
+interface NotificationInput {
+  userId: bigint;
+  actor: NotificationActor;
+  type: NotificationType;
+  title: string;
+  content: string;
+  link?: string;
+  data?: Record<string, string>;
+}
+
+interface GroupedNotificationInput {
+  userId: bigint;
+  actor: NotificationActor;
+  type: NotificationType;
+  groupKey: string;
+  title: string;
+  // 根据最近的用户名和总人数生成通知内容
+  describe: (actorNames: string[], count: number) => string;
+  link: string;
+}
+
+// 合并通知中保存的用户数量上限，达到上限后不再计数
+const MAX_GROUPED_ACTOR_IDS = 100;
+const MAX_GROUPED_ACTOR_NAMES = 3;
+
+const postLink = (postId: bigint) => `/posts/${postId}`;
+const commentLink = (postId: bigint, commentId: bigint) =>
+  `/posts/${postId}#comment-${commentId}`;
+
+const postTitle = (title: string) => (title ? `《${title}》` : '');
+
+function describeActors(actorNames: string[], count: number) {
+  return count > 1 ? `${actorNames[0]} 等 ${count} 人` : actorNames[0];
+}
+
+async function createNotification(input: NotificationInput) {
+  if (input.userId === input.actor.id) {
+    return;
+  }
+
+  try {
+    if (!(await isNotificationEnabled(input.userId, input.type))) {
+      return;
+    }
+
+    const notification = await prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        title: input.title,
+        content: input.content,
+        data: {
+          ...input.data,
+          link: input.link,
+          actorIds: [input.actor.id.toString()],
+          actorNames: [input.actor.username],
+        },
+      },
+    });
+
+    await publishNotification(notification);
+  } catch (error) {
+    console.error('创建通知失败:', error);
+  }
+}
+
+// 创建或合并通知：存在相同聚合键的未读通知时追加用户并更新内容
+async function createGroupedNotification(input: GroupedNotificationInput) {
+  if (input.userId === input.actor.id) {
+    return;
+  }
+
+  const actorId = input.actor.id.toString();
+
+  try {
+    if (!(await isNotificationEnabled(input.userId, input.type))) {
+      return;
+    }
+
+    const notification = await prisma.$transaction(async (tx) => {
+      // 锁定接收者，同一用户的合并通知串行处理，避免并发时重复创建
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${input.userId} FOR UPDATE`;
+
+      const existing = await tx.notification.findFirst({
+        where: {
+          userId: input.userId,
+          groupKey: input.groupKey,
+          isRead: false,
+        },
+        orderBy: { lastActivityAt: 'desc' },
+      });
+
+      if (!existing) {
+        const data: NotificationData = {
+          link: input.link,
+          actorIds: [actorId],
+          actorNames: [input.actor.username],
+          count: 1,
+        };
+
+        return tx.notification.create({
+          data: {
+            userId: input.userId,
+            type: input.type,
+            title: input.title,
+            content: input.describe(data.actorNames!, 1),
+            groupKey: input.groupKey,
+            data: data as Prisma.InputJsonObject,
+          },
+        });
+      }
+
+      const previous = (existing.data ?? {}) as NotificationData;
+      const actorIds = previous.actorIds ?? [];
+
+      // 同一用户重复操作（如取消后再次点赞）不重复计数；
+      // 用户列表达到上限后无法判断是否重复，不再计数
+      if (
+        actorIds.includes(actorId) ||
+        actorIds.length >= MAX_GROUPED_ACTOR_IDS
+      ) {
+        return null;
+      }
+
+      const count = (previous.count ?? actorIds.length) + 1;
+      const actorNames = [input.actor.username, ...(previous.actorNames ?? [])];
+      const data: NotificationData = {
+        ...previous,
+        actorIds: [actorId, ...actorIds],
+        actorNames: actorNames.slice(0, MAX_GROUPED_ACTOR_NAMES),
+        count,
+      };
+
+      return tx.notification.update({
+        where: { id: existing.id },
+        data: {
+          content: input.describe(actorNames, count),
+          data: data as Prisma.InputJsonObject,
+          lastActivityAt: new Date(),
+        },
+      });
+    });
+
+    if (notification) {
+      await publishNotification(notification);
+    }
+  } catch (error) {
+    console.error('合并通知失败:', error);
+  }
+}
+
+// 新评论：通知文章作者；回复：通知父评论作者
+export async function notifyNewComment({
+  postId,
+  commentId,
+  parentId,
+  actor,
+}: {
+  postId: bigint;
+  commentId: bigint;
+  parentId?: bigint | null;
+  actor: NotificationActor;
+}) {
+  try {
+    const [post, parent] = await Promise.all([
+      prisma.post.findUnique({
+        where: { id: postId },
+        select: { authorId: true, title: true },
+      }),
+      parentId
+        ? prisma.comment.findUnique({
+            where: { id: parentId },
+            select: { userId: true },
+          })
+        : null,
+    ]);
+
+    const link = commentLink(postId, commentId);
+
+    if (parent) {
+      await createNotification({
+        userId: parent.userId,
+        actor,
+        type: 'REPLY',
+        title: '新的回复',
+        content: `${actor.username} 回复了你的评论`,
+        link,
+        data: { postId: postId.toString(), commentId: commentId.toString() },
+      });
+    }
+
+    // 父评论作者就是文章作者时只发送回复通知
+    if (post && post.authorId !== parent?.userId) {
+      await createNotification({
+        userId: post.authorId,
+        actor,
+        type: 'COMMENT',
+        title: '新的评论',
+        content: `${actor.username} 评论了你的文章${postTitle(post.title)}`,
+        link,
+        data: { postId: postId.toString(), commentId: commentId.toString() },
+      });
+    }
+  } catch (error) {
+    console.error('生成评论通知失败:', error);
+  }
+}
+
+// 点赞：通知文章或评论作者，同一对象的未读点赞通知合并
+export async function notifyLike({
+  targetType,
+  targetId,
+  actor,
+}: {
+  targetType: 'POST' | 'COMMENT';
+  targetId: bigint;
+  actor: NotificationActor;
+}) {
+  try {
+    if (targetType === 'POST') {
+      const post = await prisma.post.findUnique({
+        where: { id: targetId },
+        select: { authorId: true, title: true },
+      });
+      if (!post) return;
+
+      await createGroupedNotification({
+        userId: post.authorId,
+        actor,
+        type: 'LIKE',
+        groupKey: `like:post:${targetId}`,
+        title: '新的点赞',
+        describe: (names, count) =>
+          `${describeActors(names, count)} 赞了你的文章${postTitle(post.title)}`,
+        link: postLink(targetId),
+      });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: targetId },
+      select: { userId: true, postId: true },
+    });
+    if (!comment) return;
+
+    await createGroupedNotification({
+      userId: comment.userId,
+      actor,
+      type: 'LIKE',
+      groupKey: `like:comment:${targetId}`,
+      title: '新的点赞',
+      describe: (names, count) =>
+        `${describeActors(names, count)} 赞了你的评论`,
+      link: commentLink(comment.postId, targetId),
+    });
+  } catch (error) {
+    console.error('生成点赞通知失败:', error);
+  }
+}
+
+// 收藏：通知文章作者，同一文章的未读收藏通知合并
+export async function notifyFavorite({
+  postId,
+  actor,
+}: {
+  postId: bigint;
+  actor: NotificationActor;
+}) {
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { authorId: true, title: true },
+    });
+    if (!post) return;
+
+    await createGroupedNotification({
+      userId: post.authorId,
+      actor,
+      type: 'FAVORITE',
+      groupKey: `favorite:post:${postId}`,
+      title: '新的收藏',
+      describe: (names, count) =>
+        `${describeActors(names, count)} 收藏了你的文章${postTitle(post.title)}`,
+      link: postLink(postId),
+    });
+  } catch (error) {
+    console.error('生成收藏通知失败:', error);
+  }
+}
+
+// 关注：通知被关注者
+export async function notifyFollow({
+  followingId,
+  actor,
+}: {
+  followingId: bigint;
+  actor: NotificationActor;
+}) {
+  await createNotification({
+    userId: followingId,
+    actor,
+    type: 'FOLLOW',
+    title: '新的关注者',
+    content: `${actor.username} 关注了你`,
+    data: { followerId: actor.id.toString() },
+  });
+}
+
+// @提及：通知被提及的用户，评论中的提及定位到评论
+export async function notifyMention({
+  userId,
+  postId,
+  commentId,
+  actor,
+}: {
+  userId: bigint;
+  postId: bigint;
+  commentId?: bigint | null;
+  actor: NotificationActor;
+}) {
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { title: true },
+    });
+
+    await createNotification({
+      userId,
+      actor,
+      type: 'MENTION',
+      title: '有人提到了你',
+      content: commentId
+        ? `${actor.username} 在文章${postTitle(post?.title ?? '')}的评论中提到了你`
+        : `${actor.username} 在文章${postTitle(post?.title ?? '')}中提到了你`,
+      link: commentId ? commentLink(postId, commentId) : postLink(postId),
+      data: {
+        postId: postId.toString(),
+        ...(commentId ? { commentId: commentId.toString() } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('生成提及通知失败:', error);
+  }
+}
+
+// 作者申请审核结果：通知申请人
+export async function notifyAuthorApplicationReviewed({
+  userId,
+  approved,
+  note,
+  actor,
+}: {
+  userId: bigint;
+  approved: boolean;
+  note?: string;
+  actor: NotificationActor;
+}) {
+  await createNotification({
+    userId,
+    actor,
+    type: 'SYSTEM',
+    title: approved ? '作者申请已通过' : '作者申请未通过',
+    content: approved
+      ? '你的作者申请已通过，现在可以在写作控制台发布文章了'
+      : `你的作者申请未通过${note ? `：${note}` : ''}`,
+    link: approved ? '/dashboard' : '/profile',
+  });
+}
+
+// 角色变更：通知被修改角色的用户
+export async function notifyRoleChanged({
+  userId,
+  role,
+  actor,
+}: {
+  userId: bigint;
+  role: Role;
+  actor: NotificationActor;
+}) {
+  await createNotification({
+    userId,
+    actor,
+    type: 'SYSTEM',
+    title: '账号角色已变更',
+    content: `管理员将你的角色调整为「${roleLabels[role]}」`,
+    link: '/profile',
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * 第三方登录提供方 - 根据环境变量启用 GitHub 和通用 OIDC 登录
+ *
+ * 环境变量：
+ * - GITHUB_CLIENT_ID / GITHUB_CLIENT_SECRET：配置后启用 GitHub 登录
+ * - OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET：配置后启用 OIDC 登录，
+ *   通过 {issuer}/.well-known/openid-configuration 自动发现端点，可指向本地模拟服务
+ * - OIDC_NAME：登录按钮上显示的 OIDC 提供方名称，默认 OIDC
+ *
+ * 设计说明：
+ * - 第三方账号的登录名转换为站内用户名，冲突时由适配器追加后缀
+ * - 只有 OIDC 提供方声明 email_verified 的邮箱才视为已验证
+ */
+import GitHub from 'next-auth/providers/github';
+import type { OIDCConfig, Provider } from 'next-auth/providers';
+import { normalizeUsername } from '@/lib/oauth-username';
+
+interface OidcProfile {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  nickname?: string;
+  name?: string;
+  picture?: string;
+}
+
+export interface OAuthProviderInfo {
+  id: string;
+  name: string;
+}
+
+const emailPrefix = (email?: string | null) => email?.split('@')[0];
+
+export function getOAuthProviders(): Provider[] {
+  const providers: Provider[] = [];
+
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    providers.push(
+      GitHub({
+        clientId: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET,
+        profile(profile) {
+          return {
+            id: profile.id.toString(),
+            email: profile.email ?? '',
+            username: normalizeUsername(profile.login),
+            role: 'USER',
+            avatarUrl: profile.avatar_url,
+          };
+        },
+      })
+    );
+  }
+
+  if (
+    process.env.OIDC_ISSUER &&
+    process.env.OIDC_CLIENT_ID &&
+    process.env.OIDC_CLIENT_SECRET
+  ) {
+    const oidc: OIDCConfig<OidcProfile> = {
+      id: 'oidc',
+      name: process.env.OIDC_NAME || 'OIDC',
+      type: 'oidc',
+      issuer: process.env.OIDC_ISSUER,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      authorization: { params: { scope: 'openid profile email' } },
+      profile(profile) {
+        return {
+          id: profile.sub,
+          email: profile.email ?? '',
+          username: normalizeUsername(
+            profile.preferred_username ??
+              profile.nickname ??
+              emailPrefix(profile.email)
+          ),
+          role: 'USER',
+          avatarUrl: profile.picture ?? null,
+          emailVerifiedByProvider: profile.email_verified === true,
+        };
+      },
+    };
+    providers.push(oidc);
+  }
+
+  return providers;
+}
+
+// 已启用的提供方，供登录页和账号关联设置展示
+export function getOAuthProviderInfo(): OAuthProviderInfo[] {
+  return getOAuthProviders().map((provider) => {
+    const config = typeof provider === 'function' ? provider() : provider;
+    return { id: config.id, name: config.name };
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * 第三方登录用户名 - 首次通过第三方账号登录时生成站内用户名
+ *
+ * 生成规则：
+ * 1. 优先使用第三方账号的登录名，其次是邮箱前缀
+ * 2. 转换为站内用户名格式：3-20 个字母、数字或下划线
+ * 3. 与已有用户名冲突时依次追加 _2、_3 等后缀（不区分大小写）
+ */
+
+const USERNAME_MIN_LENGTH = 3;
+const USERNAME_MAX_LENGTH = 20;
+const MAX_SUFFIX = 999;
+
+// 查询冲突用户名时使用的前缀长度，保证带后缀的候选名都以该前缀开头
+export const USERNAME_CONFLICT_PREFIX_LENGTH =
+  USERNAME_MAX_LENGTH - `_${MAX_SUFFIX}`.length;
+
+export function normalizeUsername(raw: string | null | undefined) {
+  const username = (raw ?? '')
+    .replace(/[^a-zA-Z0-9_]+/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, USERNAME_MAX_LENGTH);
+
+  return username.length >= USERNAME_MIN_LENGTH ? username : 'user';
+}
+
+// 从已占用的用户名中挑选可用的候选名，候选名全部占用时返回 null
+export function pickAvailableUsername(
+  base: string,
+  taken: readonly string[]
+): string | null {
+  const takenSet = new Set(taken.map((name) => name.toLowerCase()));
+
+  if (!takenSet.has(base.toLowerCase())) {
+    return base;
+  }
+
+  for (let n = 2; n <= MAX_SUFFIX; n++) {
+    const suffix = `_${n}`;
+    const candidate = `${base.slice(0, USERNAME_MAX_LENGTH - suffix.length)}${suffix}`;
+    if (!takenSet.has(candidate.toLowerCase())) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,144 @@
+/**
+ * 密码重置 - 重置令牌的生成、邮件发送和密码修改
+ *
+ * 主要功能：
+ * 1. 生成一次性密码重置令牌并发送重置邮件（1 小时有效）
+ * 2. 校验令牌并设置新密码
+ * 3. 修改密码（重置和登录后修改共用）
+ *
+ * 安全设计：
+ * - 数据库只保存令牌的 SHA-256 哈希，泄露数据库也无法使用令牌
+ * - 令牌使用一次后失效，申请新令牌时旧令牌作废
+ * - 修改密码时在同一事务中撤销之前登录的会话，登录后修改时保留当前会话
+ *
+ * 配置项：
+ * - SITE_URL / SITE_NAME：邮件中的站点链接和名称
+ */
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@/lib/db';
+import { sendMail } from '@/lib/mail';
+import { revokeOtherUserSessions } from '@/lib/user-sessions';
+
+export type ResetPasswordResult =
+  | { success: true; userId: bigint }
+  | { success: false; reason: 'INVALID' | 'EXPIRED' };
+
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const siteUrl = () =>
+  (process.env.SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const siteName = () => process.env.SITE_NAME || '博客平台';
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+// 生成密码重置令牌，同一用户未使用的旧令牌作废
+async function createPasswordResetToken(userId: bigint) {
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+// 发送密码重置邮件；邮箱不存在时静默返回，避免泄露账号是否注册
+export async function requestPasswordReset(email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, username: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const token = await createPasswordResetToken(user.id);
+  const link = `${siteUrl()}/auth/reset-password?token=${encodeURIComponent(
+    token
+  )}`;
+
+  await sendMail({
+    to: user.email,
+    subject: `重置你在${siteName()}的密码`,
+    text: [
+      `${user.username}，你好：`,
+      '',
+      '我们收到了重置密码的请求，请打开以下链接设置新密码（1 小时内有效）：',
+      link,
+      '',
+      '如果这不是你的操作，请忽略此邮件，你的密码不会改变。',
+    ].join('\n'),
+    html: [
+      `<p>${user.username}，你好：</p>`,
+      '<p>我们收到了重置密码的请求，请点击下面的链接设置新密码（1 小时内有效）：</p>',
+      `<p><a href="${link}">重置密码</a></p>`,
+      '<p>如果这不是你的操作，请忽略此邮件，你的密码不会改变。</p>',
+    ].join('\n'),
+  });
+}
+
+// 修改密码并撤销之前登录的会话（keepSessionId 指定的会话除外），同时解除登录失败锁定
+export async function updatePassword(
+  userId: bigint,
+  password: string,
+  { keepSessionId }: { keepSessionId?: bigint } = {}
+) {
+  const passwordHash = await bcrypt.hash(password, 12);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        passwordHash,
+        passwordChangedAt: new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null,
+      },
+    });
+    await revokeOtherUserSessions(userId, keepSessionId, tx);
+  });
+}
+
+// 使用重置令牌设置新密码
+export async function resetPasswordWithToken(
+  token: string,
+  password: string
+): Promise<ResetPasswordResult> {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!resetToken || resetToken.usedAt) {
+    return { success: false, reason: 'INVALID' };
+  }
+
+  if (resetToken.expiresAt <= new Date()) {
+    return { success: false, reason: 'EXPIRED' };
+  }
+
+  // 条件更新保证并发请求时令牌只能使用一次
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return { success: false, reason: 'INVALID' };
+  }
+
+  await updatePassword(resetToken.userId, password);
+
+  return { success: true, userId: resetToken.userId };
+}
@@ -0,0 +1,177 @@
+/**
+ * 权限策略 - 集中定义权限标识、内置角色的权限和权限判断
+ *
+ * 主要功能：
+ * 1. 权限标识和显示名称
+ * 2. 内置角色（USER、AUTHOR、ADMIN）对应的权限
+ * 3. can(user, action, resource) 判断用户能否执行操作
+ * 4. 解析数据库中自定义角色的权限列表
+ * 5. 比较两个用户的权限范围，防止越权授予角色或处置权限更高的用户
+ *
+ * 判断规则：
+ * - 用户的权限 = 内置角色的权限 + 自定义角色额外授予的权限
+ * - 操作本身就是权限标识时直接按是否拥有该权限判断
+ * - 区分资源归属的操作（如 post.edit）拥有 .any 权限即可，
+ *   只拥有 .own 权限时需要资源作者是当前用户
+ * - 未登录（user 为空）时一律返回 false
+ *
+ * 设计说明：
+ * - 不访问数据库，路由、页面和 Edge 中间件都可以直接使用
+ * - 自定义角色的权限登录后写入会话，每次读取会话时从数据库刷新
+ */
+
+export const PERMISSIONS = [
+  'post.create',
+  'post.publish',
+  'post.edit.own',
+  'post.edit.any',
+  'post.delete.own',
+  'post.delete.any',
+  'comment.edit.own',
+  'comment.delete.own',
+  'comment.delete.any',
+  'comment.moderate.own',
+  'comment.moderate.any',
+  'comment.spam.manage',
+  'category.manage',
+  'report.handle',
+  'user.ban',
+  'user.role.manage',
+  'author.review',
+  'audit.view',
+  'security.manage',
+  'dashboard.access',
+  'admin.access',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// 区分资源归属的操作，按 .any / .own 权限判断
+type OwnedAction<P> = P extends `${infer A}.own` ? A : never;
+export type PolicyAction = Permission | OwnedAction<Permission>;
+
+export const permissionLabels: Record<Permission, string> = {
+  'post.create': '创建文章',
+  'post.publish': '发布文章',
+  'post.edit.own': '编辑自己的文章',
+  'post.edit.any': '编辑所有文章',
+  'post.delete.own': '删除自己的文章',
+  'post.delete.any': '删除所有文章',
+  'comment.edit.own': '编辑自己的评论',
+  'comment.delete.own': '删除自己的评论',
+  'comment.delete.any': '删除所有评论',
+  'comment.moderate.own': '审核自己文章下的评论',
+  'comment.moderate.any': '审核所有评论',
+  'comment.spam.manage': '管理垃圾评论模型',
+  'category.manage': '管理分类',
+  'report.handle': '处理举报',
+  'user.ban': '封禁用户',
+  'user.role.manage': '管理用户角色',
+  'author.review': '审核作者申请',
+  'audit.view': '查看登录审计',
+  'security.manage': '管理安全设置',
+  'dashboard.access': '访问写作控制台',
+  'admin.access': '访问后台管理',
+};
+
+const AUTHOR_PERMISSIONS: Permission[] = [
+  'post.create',
+  'post.publish',
+  'post.edit.own',
+  'post.delete.own',
+  'comment.edit.own',
+  'comment.delete.own',
+  'comment.moderate.own',
+  'dashboard.access',
+];
+
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  USER: ['comment.edit.own', 'comment.delete.own'],
+  AUTHOR: AUTHOR_PERMISSIONS,
+  ADMIN: PERMISSIONS,
+};
+
+export interface PolicyUser {
+  id?: string | bigint;
+  role?: string | null;
+  // 自定义角色额外授予的权限
+  permissions?: readonly string[] | null;
+}
+
+export interface PolicyResource {
+  // 资源作者；评论审核时为文章作者
+  authorId?: string | bigint | null;
+}
+
+// 只保留已知的权限标识，去重并按固定顺序排列
+export function normalizePermissions(value: unknown): Permission[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return PERMISSIONS.filter((permission) => value.includes(permission));
+}
+
+// 内置角色权限与自定义角色权限合并后的结果
+export function permissionsOf(user: PolicyUser | null | undefined) {
+  if (!user) {
+    return [];
+  }
+  const base = ROLE_PERMISSIONS[user.role ?? ''] ?? [];
+  const extra = normalizePermissions(user.permissions);
+  return PERMISSIONS.filter(
+    (permission) => base.includes(permission) || extra.includes(permission)
+  );
+}
+
+export function can(
+  user: PolicyUser | null | undefined,
+  action: PolicyAction,
+  resource?: PolicyResource | null
+) {
+  const granted = permissionsOf(user);
+  if (!user || granted.length === 0) {
+    return false;
+  }
+
+  const has = (permission: string) =>
+    granted.some((item) => item === permission);
+
+  if (has(action) || has(`${action}.any`)) {
+    return true;
+  }
+
+  if (
+    has(`${action}.own`) &&
+    user.id !== undefined &&
+    resource?.authorId !== undefined &&
+    resource.authorId !== null
+  ) {
+    return resource.authorId.toString() === user.id.toString();
+  }
+
+  return false;
+}
+
+// 用户是否拥有列表中的全部权限，未知的权限标识忽略
+export function hasAllPermissions(
+  user: PolicyUser | null | undefined,
+  permissions: readonly string[]
+) {
+  const granted = permissionsOf(user);
+  return normalizePermissions(permissions).every((permission) =>
+    granted.includes(permission)
+  );
+}
+
+// 操作人的权限严格多于目标用户：拥有目标的全部权限，且至少多一项
+// 用于封禁等处置操作，权限相同（如管理员之间）也不能互相处置
+export function outranks(
+  actor: PolicyUser | null | undefined,
+  target: PolicyUser | null | undefined
+) {
+  const targetPermissions = permissionsOf(target);
+  return (
+    hasAllPermissions(actor, targetPermissions) &&
+    permissionsOf(actor).length > targetPermissions.length
+  );
+}
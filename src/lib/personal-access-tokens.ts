@@ -0,0 +1,164 @@
+/**
+ * 个人访问令牌 - 生成、列出、撤销和校验 API 访问令牌
+ *
+ * 主要功能：
+ * 1. 生成带权限范围和有效期的访问令牌，明文只在创建时返回一次
+ * 2. 列出和撤销当前账号的令牌
+ * 3. 校验 Bearer 令牌并返回与登录会话相同结构的会话对象
+ *
+ * 安全设计：
+ * - 数据库只保存令牌的 SHA-256 哈希
+ * - 令牌必须设置有效期（最长 1 年），过期或撤销后立即失效
+ * - 账号被封禁或停用时令牌同样不能使用
+ * - admin 权限范围只对拥有后台管理权限（admin.access）的账号生效
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { Session } from 'next-auth';
+import { prisma } from '@/lib/db';
+import { can, normalizePermissions } from '@/lib/permissions';
+import { accountBlockOf } from '@/lib/user-status';
+import {
+  TOKEN_PREFIX,
+  TokenScope,
+  hasScope,
+  normalizeScopes,
+} from '@/lib/token-scopes';
+
+export const TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+// 每个账号同时有效的令牌数量上限
+export const MAX_ACTIVE_TOKENS = 20;
+
+// 最近使用时间的更新间隔
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const activeTokenWhere = (userId: bigint) => ({
+  userId,
+  revokedAt: null,
+  expiresAt: { gt: new Date() },
+});
+
+export async function countActiveTokens(userId: bigint) {
+  return prisma.personalAccessToken.count({ where: activeTokenWhere(userId) });
+}
+
+export async function createPersonalAccessToken(
+  userId: bigint,
+  {
+    name,
+    scopes,
+    expiresInDays,
+  }: { name: string; scopes: TokenScope[]; expiresInDays: number }
+) {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const record = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, 12),
+      scopes: normalizeScopes(scopes),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    },
+    select: {
+      id: true,
+      name: true,
+      tokenPrefix: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return { token, record };
+}
+
+export async function listPersonalAccessTokens(userId: bigint) {
+  return prisma.personalAccessToken.findMany({
+    where: activeTokenWhere(userId),
+    select: {
+      id: true,
+      name: true,
+      tokenPrefix: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// 撤销令牌，返回是否撤销成功（令牌不存在或已撤销时返回 false）
+export async function revokePersonalAccessToken(
+  userId: bigint,
+  tokenId: bigint
+) {
+  const { count } = await prisma.personalAccessToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count > 0;
+}
+
+// 校验令牌和所需权限范围，通过时返回令牌所属账号的会话
+export async function authenticateAccessToken(
+  token: string,
+  scope: TokenScope
+): Promise<Session | null> {
+  const record = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: { include: { customRole: { select: { permissions: true } } } },
+    },
+  });
+
+  if (!record || record.revokedAt || record.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const scopes = Array.isArray(record.scopes)
+    ? record.scopes.filter((item): item is string => typeof item === 'string')
+    : [];
+  if (!hasScope(scopes, scope)) {
+    return null;
+  }
+
+  const { user } = record;
+  const permissions = normalizePermissions(user.customRole?.permissions);
+  if (
+    accountBlockOf(user) ||
+    (scope === 'admin' &&
+      !can({ role: user.role, permissions }, 'admin.access'))
+  ) {
+    return null;
+  }
+
+  if (
+    !record.lastUsedAt ||
+    Date.now() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await prisma.personalAccessToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return {
+    user: {
+      id: user.id.toString(),
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      permissions,
+      avatarUrl: user.avatarUrl,
+    },
+    expires: record.expiresAt.toISOString(),
+  };
+}
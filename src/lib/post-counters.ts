@@ -0,0 +1,80 @@
+/**
+ * 文章统计计数 - 分类、标签和作者的文章数量维护
+ *
+ * 主要功能：
+ * 1. 文章计入统计时增加分类、标签、作者的文章数
+ * 2. 文章移出统计时减少对应计数
+ *
+ * 计数规则：
+ * - 定时发布（SCHEDULED）的文章在真正发布前不计入统计
+ * - 其他未删除的文章（草稿、已发布、已归档）均计入统计
+ */
+import { Prisma, PostStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+type CounterClient = Prisma.TransactionClient | typeof prisma;
+
+interface CountedPost {
+  authorId: bigint;
+  categoryId: number | null;
+  tagIds: number[];
+}
+
+// 判断该状态的文章是否计入统计
+export function isCountedStatus(status: PostStatus): boolean {
+  return status !== 'SCHEDULED';
+}
+
+// 增加分类、标签和作者的文章数量
+export async function incrementPostCounters(
+  client: CounterClient,
+  post: CountedPost
+) {
+  for (const tagId of post.tagIds) {
+    await client.tag.update({
+      where: { id: tagId },
+      data: { postsCount: { increment: 1 } },
+    });
+  }
+
+  if (post.categoryId) {
+    await client.category.update({
+      where: { id: post.categoryId },
+      data: { postsCount: { increment: 1 } },
+    });
+  }
+
+  await client.userProfile.upsert({
+    where: { userId: post.authorId },
+    update: { postsCount: { increment: 1 } },
+    create: {
+      userId: post.authorId,
+      postsCount: 1,
+    },
+  });
+}
+
+// 减少分类、标签和作者的文章数量
+export async function decrementPostCounters(
+  client: CounterClient,
+  post: CountedPost
+) {
+  for (const tagId of post.tagIds) {
+    await client.tag.update({
+      where: { id: tagId },
+      data: { postsCount: { decrement: 1 } },
+    });
+  }
+
+  if (post.categoryId) {
+    await client.category.update({
+      where: { id: post.categoryId },
+      data: { postsCount: { decrement: 1 } },
+    });
+  }
+
+  await client.userProfile.update({
+    where: { userId: post.authorId },
+    data: { postsCount: { decrement: 1 } },
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * 文章修订历史 - 文章版本快照和恢复
+ *
+ * 主要功能：
+ * 1. 在文章更新前保存旧版本快照
+ * 2. 仅在标题、摘要或内容变化时生成修订
+ * 3. 记录每个版本内容的编写者（文章最近一次的编辑者，没有时为作者）
+ * 4. 格式化修订记录（BigInt序列化）
+ *
+ * 使用场景：
+ * - PUT /api/posts/[id] 更新文章
+ * - 恢复历史版本前保存当前版本
+ */
+import { Prisma, PostRevision } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+type RevisionClient = Prisma.TransactionClient | typeof prisma;
+
+interface PostSnapshot {
+  id: bigint;
+  authorId: bigint;
+  lastEditorId: bigint | null;
+  title: string;
+  summary: string | null;
+  content: string;
+}
+
+interface PostChanges {
+  title?: string;
+  summary?: string | null;
+  content?: string;
+}
+
+// 判断本次更新是否修改了需要记录历史的字段
+export function hasRevisionChanges(
+  post: PostSnapshot,
+  changes: PostChanges
+): boolean {
+  return (
+    (changes.title !== undefined && changes.title !== post.title) ||
+    (changes.summary !== undefined &&
+      (changes.summary || null) !== post.summary) ||
+    (changes.content !== undefined && changes.content !== post.content)
+  );
+}
+
+// 保存文章当前版本的快照，编写者为写下这一版内容的用户，而不是本次修改的用户
+export async function createPostRevision(
+  client: RevisionClient,
+  post: PostSnapshot
+) {
+  return client.postRevision.create({
+    data: {
+      postId: post.id,
+      editorId: post.lastEditorId ?? post.authorId,
+      title: post.title,
+      summary: post.summary,
+      content: post.content,
+    },
+  });
+}
+
+// 处理BigInt序列化
+export function formatRevision(
+  revision: PostRevision & {
+    editor?: { id: bigint; username: string; avatarUrl: string | null } | null;
+  }
+) {
+  return {
+    ...revision,
+    id: revision.id.toString(),
+    postId: revision.postId.toString(),
+    editorId: revision.editorId?.toString() ?? null,
+    editor: revision.editor
+      ? {
+          ...revision.editor,
+          id: revision.editor.id.toString(),
+        }
+      : null,
+  };
+}
@@ -2,55 +2,187 @@
  * 请求频率限制配置 - 防止API滥用和暴力攻击
  *
  * 主要功能：
- * 1. 限制用户注册频率（防止垃圾注册）
- * 2. 限制登录尝试频率（防止暴力破解）
- * 3. 限制API调用频率（防止服务过载）
- * 4. 基于内存的快速限流实现
+ * 1. 基于 Redis 的分布式限流，多实例共享计数，重新部署不重置
+ * 2. Redis 不可用时自动切换到内存限流
+ * 3. 路由包装器 withRateLimit：按路由策略限流并返回标准 RateLimit-* 响应头
+ * 4. 业务限流器：登录失败、验证邮件、密码重置邮件
  *
- * 限流策略：
- * - 注册限制：每小时最多5次尝试
- * - 登录限制：每分钟最多5次尝试
- * - API限制：每分钟最多100次调用
+ * 路由限流策略（按客户端 IP）：
+ * - login：登录请求，每分钟最多10次
+ * - register：注册，每小时最多5次
+ * - auth：密码重置、邮箱验证、修改密码，每分钟最多10次
+ * - upload：文件上传，每分钟最多10次
+ * - comment：发表和编辑评论，每分钟最多10次
+ * - write：其他写操作，每分钟最多60次
+ * - read：读取接口，每分钟最多300次
  *
- * 实现原理：
- * - 使用 rate-limiter-flexible 库
- * - 基于内存存储（生产环境可改为Redis）
- * - 滑动窗口算法
- * - 支持分布式部署
+ * 业务限流：
+ * - 登录失败：每个IP每分钟最多5次失败（账号锁定见 login-protection）
+ * - 验证邮件重发：每小时最多3次
+ * - 密码重置邮件：每小时最多5次
  *
- * 安全考虑：
- * - 防止暴力破解攻击
- * - 防止垃圾数据注册
- * - 保护服务器资源
- * - 提升用户体验
- *
- * 使用场景：
- * - 用户注册API
- * - 用户登录API
- * - 公开API接口
- * - 敏感操作保护
+ * 响应头：
+ * - RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset（秒）
+ * - 超出限制时返回 429 和 Retry-After（秒）
  *
  * 使用技术：
- * - rate-limiter-flexible 库
- * - 内存存储策略
- * - 可配置限流参数
+ * - rate-limiter-flexible 库（RateLimiterRedis + 内存兜底）
+ * - ioredis 客户端
  */
-import { RateLimiterMemory } from 'rate-limiter-flexible';
-
-// 注册速率限制: 每小时最多5次尝试
-export const rateLimit = new RateLimiterMemory({
-  points: 5, // 每个key最多5次
-  duration: 60 * 60, // 1小时（秒）
-});
-
-// 登录速率限制: 每分钟最多5次尝试
-export const loginRateLimit = new RateLimiterMemory({
-  points: 5,
-  duration: 60, // 1分钟（秒）
-});
-
-// API调用速率限制: 每分钟最多100次
-export const apiRateLimit = new RateLimiterMemory({
-  points: 100,
-  duration: 60, // 1分钟（秒）
-});
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  RateLimiterMemory,
+  RateLimiterRedis,
+  RateLimiterRes,
+} from 'rate-limiter-flexible';
+import { redis } from '@/lib/redis';
+
+export type RateLimitPolicy =
+  | 'login'
+  | 'register'
+  | 'auth'
+  | 'upload'
+  | 'comment'
+  | 'write'
+  | 'read';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+}
+
+// 创建 Redis 限流器，Redis 出错时由内存限流器兜底
+function createRateLimiter(
+  keyPrefix: string,
+  points: number,
+  duration: number
+) {
+  return new RateLimiterRedis({
+    storeClient: redis,
+    keyPrefix: `ratelimit:${keyPrefix}`,
+    points,
+    duration,
+    insuranceLimiter: new RateLimiterMemory({
+      keyPrefix: `ratelimit:${keyPrefix}`,
+      points,
+      duration,
+    }),
+  });
+}
+
+const policyLimiters: Record<RateLimitPolicy, RateLimiterRedis> = {
+  login: createRateLimiter('login', 10, 60),
+  register: createRateLimiter('register', 5, 60 * 60),
+  auth: createRateLimiter('auth', 10, 60),
+  upload: createRateLimiter('upload', 10, 60),
+  comment: createRateLimiter('comment', 10, 60),
+  write: createRateLimiter('write', 60, 60),
+  read: createRateLimiter('read', 300, 60),
+};
+
+// 登录速率限制: 每个IP每分钟最多5次失败
+export const loginRateLimit = createRateLimiter('login-failure', 5, 60);
+
+// 验证邮件重发速率限制: 每小时最多3次
+export const verificationEmailRateLimit = createRateLimiter(
+  'verification-email',
+  3,
+  60 * 60
+);
+
+// 密码重置邮件速率限制: 每小时最多5次
+export const passwordResetRateLimit = createRateLimiter(
+  'password-reset',
+  5,
+  60 * 60
+);
+
+// 获取客户端 IP（优先使用代理转发的地址）
+export function getClientIp(headers: Headers) {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    headers.get('x-real-ip') ||
+    'anonymous'
+  );
+}
+
+// 按策略消耗一次请求额度
+export async function consumeRateLimit(
+  policy: RateLimitPolicy,
+  key: string
+): Promise<RateLimitResult> {
+  const limiter = policyLimiters[policy];
+
+  try {
+    const res = await limiter.consume(key);
+    return {
+      allowed: true,
+      limit: limiter.points,
+      remaining: res.remainingPoints,
+      resetMs: res.msBeforeNext,
+    };
+  } catch (error) {
+    if (error instanceof RateLimiterRes) {
+      return {
+        allowed: false,
+        limit: limiter.points,
+        remaining: 0,
+        resetMs: error.msBeforeNext,
+      };
+    }
+
+    // Redis 和内存兜底都失败时放行，避免限流故障导致服务不可用
+    console.error('限流检查失败:', error);
+    return {
+      allowed: true,
+      limit: limiter.points,
+      remaining: limiter.points,
+      resetMs: 0,
+    };
+  }
+}
+
+function setRateLimitHeaders(headers: Headers, result: RateLimitResult) {
+  headers.set('RateLimit-Limit', result.limit.toString());
+  headers.set('RateLimit-Remaining', result.remaining.toString());
+  headers.set('RateLimit-Reset', Math.ceil(result.resetMs / 1000).toString());
+}
+
+// 路由限流包装器：超出限制返回 429，否则执行原处理函数并附加限流响应头
+export function withRateLimit<Args extends unknown[]>(
+  policy: RateLimitPolicy,
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: Args) => {
+    const result = await consumeRateLimit(policy, getClientIp(request.headers));
+
+    if (!result.allowed) {
+      const response = NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: '请求过于频繁，请稍后再试',
+          },
+        },
+        { status: 429 }
+      );
+      setRateLimitHeaders(response.headers, result);
+      response.headers.set(
+        'Retry-After',
+        Math.ceil(result.resetMs / 1000).toString()
+      );
+      return response;
+    }
+
+    const response = await handler(request, ...args);
+    try {
+      setRateLimitHeaders(response.headers, result);
+    } catch {
+      // 部分响应（如 Response.redirect）的头不可修改
+    }
+    return response;
+  };
+}
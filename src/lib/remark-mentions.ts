@@ -0,0 +1,124 @@
+/**
+ * @提及解析 - 将 Markdown 中的 @用户名 转换为用户主页链接
+ *
+ * 主要功能：
+ * 1. remark 插件：把正文中的 @用户名 替换为 /users/用户名 链接
+ * 2. 提取 Markdown 中提及的用户名（去重，保持出现顺序）
+ *
+ * 解析规则：
+ * - 用户名规则与注册一致：3-20 个字母、数字或下划线
+ * - 前面紧跟字母、数字、点、斜杠或 @ 时不视为提及（如邮箱地址）
+ * - 代码、已有链接和内嵌 HTML 中的 @ 不处理
+ *
+ * 说明：
+ * - 不访问数据库，服务端渲染和编辑器预览共用
+ */
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Root, Parent, PhrasingContent, RootContent, Link } from 'mdast';
+
+const MENTION_PATTERN =
+  /(^|[^A-Za-z0-9_@./])@([A-Za-z0-9_]{3,20})(?![A-Za-z0-9_])/g;
+
+// 不处理其中文本的节点
+const SKIPPED_NODES = new Set([
+  'link',
+  'linkReference',
+  'inlineCode',
+  'code',
+  'html',
+  'definition',
+]);
+
+export const mentionLink = (username: string) =>
+  `/users/${encodeURIComponent(username)}`;
+
+// 遍历所有可能包含提及的文本节点
+function walkText(
+  node: Root | RootContent,
+  visit: (value: string, index: number, parent: Parent) => void
+) {
+  if (SKIPPED_NODES.has(node.type) || !('children' in node)) {
+    return;
+  }
+
+  const parent = node as Parent;
+  // 倒序遍历，替换节点后不影响尚未访问的下标
+  for (let index = parent.children.length - 1; index >= 0; index--) {
+    const child = parent.children[index];
+    if (child.type === 'text') {
+      visit(child.value, index, parent);
+    } else {
+      walkText(child, visit);
+    }
+  }
+}
+
+// 将文本拆分为普通文本和提及链接
+function splitMentions(value: string): PhrasingContent[] | null {
+  const nodes: PhrasingContent[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(value.matchAll(MENTION_PATTERN))) {
+    const start = match.index! + match[1].length;
+    if (start > lastIndex) {
+      nodes.push({ type: 'text', value: value.slice(lastIndex, start) });
+    }
+
+    const link: Link = {
+      type: 'link',
+      url: mentionLink(match[2]),
+      children: [{ type: 'text', value: `@${match[2]}` }],
+      data: { hProperties: { className: ['mention'] } },
+    };
+    nodes.push(link);
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (nodes.length === 0) {
+    return null;
+  }
+  if (lastIndex < value.length) {
+    nodes.push({ type: 'text', value: value.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+// remark 插件：@用户名 转换为链接
+export function remarkMentions() {
+  return (tree: Root) => {
+    walkText(tree, (value, index, parent) => {
+      const nodes = splitMentions(value);
+      if (nodes) {
+        parent.children.splice(index, 1, ...(nodes as RootContent[]));
+      }
+    });
+  };
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).freeze();
+
+// 提取 Markdown 中提及的用户名
+export function extractMentions(markdown: string): string[] {
+  if (!markdown) {
+    return [];
+  }
+
+  const found: string[] = [];
+  walkText(parser.parse(markdown), (value) => {
+    // 文本节点按倒序访问，插入到开头以保持出现顺序
+    found.unshift(
+      ...Array.from(value.matchAll(MENTION_PATTERN), (match) => match[2])
+    );
+  });
+
+  // 用户名不区分大小写去重
+  const seen = new Set<string>();
+  return found.filter((username) => {
+    const key = username.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * 内容举报 - 举报对象校验和管理员处理流程
+ *
+ * 主要功能：
+ * 1. 查找被举报的文章、评论或用户，并确定其作者
+ * 2. 管理员处理举报：驳回、隐藏内容、封禁作者
+ * 3. 记录每次处理的管理操作日志
+ *
+ * 处理规则：
+ * - 同一对象的所有待处理举报作为一个案件一并关闭
+ * - 驳回：举报标记为已驳回，不修改内容
+ * - 隐藏：文章软删除（deletedAt），评论改为已拒绝（REJECTED）
+ * - 封禁：永久封禁作者（处理备注作为封禁原因），同时隐藏被举报的内容
+ * - 不能封禁权限不低于处理人的用户，由调用方检查
+ *
+ * 设计说明：
+ * - 隐藏文章与删除文章一致：移除标签关联并扣减统计
+ * - 隐藏评论复用评论审核流程，维护评论数和回复数
+ */
+import { ReportAction, ReportTargetType, Role } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { moderateComments } from '@/lib/comment-moderation';
+import { decrementPostCounters, isCountedStatus } from '@/lib/post-counters';
+import { banUser } from '@/lib/user-status';
+
+interface Moderator {
+  id: bigint;
+  role: Role;
+  permissions?: readonly string[];
+}
+
+// 查找举报对象，返回对象作者；对象不存在或已隐藏时返回 null
+export async function findReportTarget(
+  targetType: ReportTargetType,
+  targetId: bigint
+) {
+  switch (targetType) {
+    case 'POST': {
+      const post = await prisma.post.findFirst({
+        where: { id: targetId, status: 'PUBLISHED', deletedAt: null },
+        select: { authorId: true },
+      });
+      return post ? { ownerId: post.authorId } : null;
+    }
+    case 'COMMENT': {
+      const comment = await prisma.comment.findFirst({
+        where: { id: targetId, status: 'APPROVED', deletedAt: null },
+        select: { userId: true },
+      });
+      return comment ? { ownerId: comment.userId } : null;
+    }
+    case 'USER': {
+      const user = await prisma.user.findUnique({
+        where: { id: targetId },
+        select: { id: true },
+      });
+      return user ? { ownerId: user.id } : null;
+    }
+  }
+}
+
+// 批量获取举报对象摘要（标题、内容、链接），键为 "类型:ID"
+export async function getReportTargetSummaries(
+  targets: Array<{ targetType: ReportTargetType; targetId: bigint }>
+) {
+  const idsOf = (type: ReportTargetType) =>
+    targets
+      .filter((target) => target.targetType === type)
+      .map((target) => target.targetId);
+
+  const [posts, comments, users] = await Promise.all([
+    prisma.post.findMany({
+      where: { id: { in: idsOf('POST') } },
+      select: { id: true, title: true, deletedAt: true },
+    }),
+    prisma.comment.findMany({
+      where: { id: { in: idsOf('COMMENT') } },
+      select: { id: true, postId: true, content: true, status: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: idsOf('USER') } },
+      select: { id: true, username: true, status: true },
+    }),
+  ]);
+
+  const summaries = new Map<
+    string,
+    { label: string; link: string | null; hidden: boolean }
+  >();
+
+  for (const post of posts) {
+    summaries.set(`POST:${post.id}`, {
+      label: post.title,
+      link: `/posts/${post.id}`,
+      hidden: post.deletedAt !== null,
+    });
+  }
+  for (const comment of comments) {
+    summaries.set(`COMMENT:${comment.id}`, {
+      label: comment.content,
+      link: `/posts/${comment.postId}#comment-${comment.id}`,
+      hidden: comment.status !== 'APPROVED',
+    });
+  }
+  for (const user of users) {
+    summaries.set(`USER:${user.id}`, {
+      label: user.username,
+      link: `/users/${encodeURIComponent(user.username)}`,
+      hidden: user.status === 'BANNED',
+    });
+  }
+
+  return summaries;
+}
+
+// 隐藏被举报的内容，用户举报没有可隐藏的内容
+async function hideTarget(
+  targetType: ReportTargetType,
+  targetId: bigint,
+  moderator: Moderator
+) {
+  if (targetType === 'COMMENT') {
+    await moderateComments({ ids: [targetId], action: 'reject', moderator });
+    return;
+  }
+
+  if (targetType !== 'POST') {
+    return;
+  }
+
+  const post = await prisma.post.findFirst({
+    where: { id: targetId, deletedAt: null },
+    include: { tags: true },
+  });
+  if (!post) {
+    return;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.post.update({
+      where: { id: post.id },
+      data: { deletedAt: new Date() },
+    });
+    await tx.postTag.deleteMany({ where: { postId: post.id } });
+
+    if (isCountedStatus(post.status)) {
+      await decrementPostCounters(tx, {
+        authorId: post.authorId,
+        categoryId: post.categoryId,
+        tagIds: post.tags.map((tag) => tag.tagId),
+      });
+    }
+  });
+}
+
+// 处理举报案件：关闭同一对象的所有待处理举报并记录操作日志
+export async function resolveReport({
+  report,
+  action,
+  note,
+  moderator,
+}: {
+  report: {
+    targetType: ReportTargetType;
+    targetId: bigint;
+    targetUserId: bigint;
+  };
+  action: ReportAction;
+  note?: string;
+  moderator: Moderator;
+}) {
+  if (action !== 'DISMISS') {
+    await hideTarget(report.targetType, report.targetId, moderator);
+  }
+
+  if (action === 'BAN_USER') {
+    await banUser(report.targetUserId, { reason: note });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const openReports = await tx.report.findMany({
+      where: {
+        targetType: report.targetType,
+        targetId: report.targetId,
+        status: 'OPEN',
+      },
+      select: { id: true },
+    });
+    const reportIds = openReports.map((item) => item.id);
+
+    await tx.report.updateMany({
+      where: { id: { in: reportIds } },
+      data: {
+        status: action === 'DISMISS' ? 'DISMISSED' : 'RESOLVED',
+        resolvedAt: new Date(),
+        resolvedBy: moderator.id,
+      },
+    });
+
+    return tx.moderationLog.create({
+      data: {
+        moderatorId: moderator.id,
+        action,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        targetUserId: report.targetUserId,
+        reportIds: reportIds.map((id) => id.toString()),
+        note,
+      },
+    });
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * HTML 清洗 - 基于白名单的用户内容过滤
+ *
+ * 主要功能：
+ * 1. 按内容类型提供清洗策略（文章、评论、个人简介）
+ * 2. 清洗已存储或即将输出到页面的 HTML 字符串
+ * 3. 为 Markdown 渲染管线提供清洗规则
+ *
+ * 清洗策略：
+ * - post：GitHub 风格白名单，支持表格、图片、脚注、任务列表、代码高亮、标题锚点
+ * - comment：只保留段落、强调、列表、引用、代码和链接，不允许图片、标题、表格
+ * - bio：只保留链接、强调和换行
+ *
+ * 安全特性：
+ * - 只保留白名单中的标签和属性，移除所有事件属性和 style
+ * - 链接和图片地址只允许 http、https（链接额外允许 mailto）
+ * - script、style 等元素连同内容一并移除
+ * - id 和 name 必须带 user-content- 前缀，防止覆盖页面全局变量（DOM clobbering）
+ *
+ * 使用场景：
+ * - Markdown 渲染时清洗生成的 HTML
+ * - 文章详情页、评论列表、个人资料页输出 HTML 前再次清洗
+ */
+import { unified } from 'unified';
+import rehypeParse from 'rehype-parse';
+import rehypeSanitize, { defaultSchema, type Options } from 'rehype-sanitize';
+import rehypeStringify from 'rehype-stringify';
+
+export type SanitizePolicy = 'post' | 'comment' | 'bio';
+
+// 用户内容中 id 和 name 的统一前缀
+export const USER_CONTENT_PREFIX = 'user-content-';
+
+// 需要连同内容一起移除的元素
+const STRIPPED_TAGS = ['script', 'style', 'template', 'noscript'];
+
+// 代码高亮生成的类名
+const codeClassNames = [/^language-./, 'hljs'];
+
+const postPolicy: Options = {
+  ...defaultSchema,
+  strip: STRIPPED_TAGS,
+  clobber: ['name'],
+  clobberPrefix: USER_CONTENT_PREFIX,
+  attributes: {
+    ...defaultSchema.attributes,
+    a: [
+      ...(defaultSchema.attributes?.a || []).filter(
+        (attribute) => !Array.isArray(attribute) || attribute[0] !== 'className'
+      ),
+      ['className', 'data-footnote-backref', 'heading-anchor', 'mention'],
+      ['ariaHidden', 'true'],
+    ],
+    code: [['className', ...codeClassNames]],
+    span: [['className', /^hljs-/]],
+    '*': [
+      ...(defaultSchema.attributes?.['*'] || []).filter(
+        (attribute) => attribute !== 'id'
+      ),
+      ['id', new RegExp(`^(${USER_CONTENT_PREFIX}|footnote-label$)`)],
+    ],
+  },
+};
+
+const commentPolicy: Options = {
+  strip: STRIPPED_TAGS,
+  clobber: [],
+  tagNames: [
+    'p',
+    'br',
+    'strong',
+    'b',
+    'em',
+    'i',
+    'del',
+    's',
+    'code',
+    'pre',
+    'span',
+    'blockquote',
+    'ul',
+    'ol',
+    'li',
+    'a',
+  ],
+  attributes: {
+    a: ['href', ['className', 'mention']],
+    code: [['className', ...codeClassNames]],
+    span: [['className', /^hljs-/]],
+  },
+  protocols: {
+    href: ['http', 'https', 'mailto'],
+  },
+  required: {},
+  ancestors: {},
+};
+
+const bioPolicy: Options = {
+  strip: STRIPPED_TAGS,
+  clobber: [],
+  tagNames: ['a', 'strong', 'b', 'em', 'i', 'br'],
+  attributes: {
+    a: ['href'],
+  },
+  protocols: {
+    href: ['http', 'https', 'mailto'],
+  },
+  required: {},
+  ancestors: {},
+};
+
+export const sanitizePolicies: Record<SanitizePolicy, Options> = {
+  post: postPolicy,
+  comment: commentPolicy,
+  bio: bioPolicy,
+};
+
+const processors = {
+  post: createSanitizer(postPolicy),
+  comment: createSanitizer(commentPolicy),
+  bio: createSanitizer(bioPolicy),
+};
+
+function createSanitizer(policy: Options) {
+  return unified()
+    .use(rehypeParse, { fragment: true })
+    .use(rehypeSanitize, policy)
+    .use(rehypeStringify)
+    .freeze();
+}
+
+// 按策略清洗 HTML 字符串
+export function sanitizeHtml(
+  html: string,
+  policy: SanitizePolicy = 'post'
+): string {
+  if (!html) {
+    return '';
+  }
+
+  return String(processors[policy].processSync(html));
+}
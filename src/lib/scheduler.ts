@@ -0,0 +1,197 @@
+/**
+ * 定时发布任务 - 后台轮询发布到期的定时文章
+ *
+ * 主要功能：
+ * 1. 定期查询已到发布时间的定时文章
+ * 2. 将文章状态改为已发布并记录发布时间
+ * 3. 更新分类、标签和作者的文章统计
+ * 4. 发布后同步正文中的提及并通知被提及的用户
+ * 5. 发布前重新检查作者，作者已被封禁或停用、失去发布权限或未验证邮箱（按配置）时改为草稿
+ *
+ * 多实例部署：
+ * - 通过 Redis 锁保证同一轮询周期只有一个实例执行
+ * - Redis 不可用时退化为各实例独立轮询
+ * - 更新时校验状态仍为 SCHEDULED，避免重复发布
+ *
+ * 配置项：
+ * - SCHEDULER_ENABLED：设为 false 时不启动轮询
+ * - SCHEDULER_INTERVAL_MS：轮询间隔（毫秒），默认 60 秒
+ */
+import { prisma } from '@/lib/db';
+import { redis } from '@/lib/redis';
+import { incrementPostCounters } from '@/lib/post-counters';
+import { syncMentions } from '@/lib/mentions';
+import { can, normalizePermissions } from '@/lib/permissions';
+import { getAccountBlock } from '@/lib/user-status';
+import { getEmailVerificationBlock } from '@/lib/email-verification';
+
+const POLL_INTERVAL = Number(process.env.SCHEDULER_INTERVAL_MS) || 60 * 1000;
+const LOCK_KEY = 'scheduler:publish-lock';
+const BATCH_SIZE = 100;
+
+const globalForScheduler = globalThis as unknown as {
+  postScheduler: ReturnType<typeof setInterval> | undefined;
+};
+
+// 作者在发布时是否仍可发布文章，不能发布时返回原因
+async function getPublishBlock(
+  author: {
+    id: bigint;
+    role: string;
+    customRole: { permissions: unknown } | null;
+  } | null
+) {
+  if (!author) {
+    return '作者不存在';
+  }
+
+  const block = await getAccountBlock(author.id);
+  if (block) {
+    return block.message;
+  }
+
+  if (
+    !can(
+      {
+        id: author.id,
+        role: author.role,
+        permissions: normalizePermissions(author.customRole?.permissions),
+      },
+      'post.publish'
+    )
+  ) {
+    return '无权限发布文章';
+  }
+
+  const verificationBlock = await getEmailVerificationBlock(
+    author.id,
+    'publish'
+  );
+  return verificationBlock?.message ?? null;
+}
+
+// 发布所有到期的定时文章，返回发布数量
+export async function publishDuePosts(now = new Date()) {
+  const duePosts = await prisma.post.findMany({
+    where: {
+      status: 'SCHEDULED',
+      publishAt: { lte: now },
+      deletedAt: null,
+    },
+    include: {
+      tags: true,
+      author: {
+        select: {
+          id: true,
+          username: true,
+          role: true,
+          customRole: { select: { permissions: true } },
+        },
+      },
+    },
+    orderBy: { publishAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let publishedCount = 0;
+
+  for (const post of duePosts) {
+    const publishBlock = await getPublishBlock(post.author);
+    if (publishBlock) {
+      console.warn(
+        `定时发布：文章 ${post.id} 未发布，已改为草稿（${publishBlock}）`
+      );
+    }
+
+    const published = await prisma.$transaction(async (tx) => {
+      // 仅在状态仍为定时发布时更新，防止与作者取消或其他实例冲突
+      const result = await tx.post.updateMany({
+        where: { id: post.id, status: 'SCHEDULED' },
+        data: publishBlock
+          ? { status: 'DRAFT', publishAt: null }
+          : { status: 'PUBLISHED', publishedAt: post.publishAt ?? now },
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      await incrementPostCounters(tx, {
+        authorId: post.authorId,
+        categoryId: post.categoryId,
+        tagIds: post.tags.map((tag) => tag.tagId),
+      });
+
+      // 草稿同样计入统计，与取消定时发布一致
+      return !publishBlock;
+    });
+
+    if (published) {
+      publishedCount++;
+      if (post.author) {
+        await syncMentions({
+          postId: post.id,
+          content: post.content,
+          actor: post.author,
+        });
+      }
+    }
+  }
+
+  return publishedCount;
+}
+
+// 获取本轮执行锁，锁有效期为半个轮询周期
+async function acquireLock() {
+  try {
+    const result = await redis.set(
+      LOCK_KEY,
+      process.pid.toString(),
+      'PX',
+      Math.floor(POLL_INTERVAL / 2),
+      'NX'
+    );
+    return result === 'OK';
+  } catch {
+    return true;
+  }
+}
+
+async function runScheduledPublish() {
+  if (!(await acquireLock())) {
+    return;
+  }
+
+  try {
+    const count = await publishDuePosts();
+    if (count > 0) {
+      console.log(`定时发布：已发布 ${count} 篇文章`);
+    }
+  } catch (error) {
+    console.error('定时发布任务失败:', error);
+  }
+}
+
+// 启动定时发布轮询（重复调用不会创建多个定时器）
+export function startScheduler() {
+  if (
+    process.env.SCHEDULER_ENABLED === 'false' ||
+    globalForScheduler.postScheduler
+  ) {
+    return;
+  }
+
+  globalForScheduler.postScheduler = setInterval(
+    runScheduledPublish,
+    POLL_INTERVAL
+  );
+  void runScheduledPublish();
+}
+
+// 停止定时发布轮询
+export function stopScheduler() {
+  if (globalForScheduler.postScheduler) {
+    clearInterval(globalForScheduler.postScheduler);
+    globalForScheduler.postScheduler = undefined;
+  }
+}
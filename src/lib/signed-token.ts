@@ -0,0 +1,99 @@
+/**
+ * 签名令牌 - 带用途和过期时间的 HMAC 签名令牌
+ *
+ * 主要功能：
+ * 1. 生成签名令牌（邮箱验证、密码重置等邮件链接）
+ * 2. 校验签名、用途和过期时间
+ *
+ * 令牌格式：
+ * - base64url(JSON 载荷) + "." + base64url(HMAC-SHA256 签名)
+ * - 载荷包含用途（purpose）、用户 ID、附加数据和过期时间（秒）
+ *
+ * 安全设计：
+ * - 签名密钥来自 NEXTAUTH_SECRET
+ * - 不同用途的令牌不能互相使用
+ * - 使用定长比较防止时序攻击
+ * - 附加数据（如邮箱）变化后由调用方判定令牌失效
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface SignedTokenPayload {
+  purpose: string;
+  sub: string;
+  data?: string;
+  exp: number;
+}
+
+export type SignedTokenResult =
+  | { valid: true; payload: SignedTokenPayload }
+  | { valid: false; reason: 'INVALID' | 'EXPIRED' };
+
+const signingSecret = (secret?: string) => {
+  const value = secret ?? process.env.NEXTAUTH_SECRET;
+  if (!value) {
+    throw new Error('未配置 NEXTAUTH_SECRET，无法签名令牌');
+  }
+  return value;
+};
+
+const sign = (encoded: string, secret: string) =>
+  createHmac('sha256', secret).update(encoded).digest('base64url');
+
+// 生成签名令牌，ttlSeconds 为有效期（秒）
+export function createSignedToken(
+  {
+    purpose,
+    subject,
+    data,
+    ttlSeconds,
+  }: { purpose: string; subject: string; data?: string; ttlSeconds: number },
+  { secret, now = new Date() }: { secret?: string; now?: Date } = {}
+) {
+  const payload: SignedTokenPayload = {
+    purpose,
+    sub: subject,
+    ...(data !== undefined ? { data } : {}),
+    exp: Math.floor(now.getTime() / 1000) + ttlSeconds,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, signingSecret(secret))}`;
+}
+
+// 校验令牌签名、用途和过期时间
+export function verifySignedToken(
+  token: string,
+  purpose: string,
+  { secret, now = new Date() }: { secret?: string; now?: Date } = {}
+): SignedTokenResult {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, reason: 'INVALID' };
+  }
+
+  const expected = Buffer.from(sign(encoded, signingSecret(secret)));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'INVALID' };
+  }
+
+  let payload: SignedTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'INVALID' };
+  }
+
+  if (
+    payload.purpose !== purpose ||
+    typeof payload.sub !== 'string' ||
+    typeof payload.exp !== 'number'
+  ) {
+    return { valid: false, reason: 'INVALID' };
+  }
+
+  if (payload.exp * 1000 <= now.getTime()) {
+    return { valid: false, reason: 'EXPIRED' };
+  }
+
+  return { valid: true, payload };
+}
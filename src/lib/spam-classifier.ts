@@ -0,0 +1,143 @@
+/**
+ * 垃圾评论分类器 - 朴素贝叶斯文本分类
+ *
+ * 主要功能：
+ * 1. 文本分词（英文单词、中文二元组、链接域名）
+ * 2. 根据已标注的评论训练模型
+ * 3. 计算文本为垃圾内容的概率
+ *
+ * 模型说明：
+ * - 每条评论中的词只计一次，降低重复刷词的影响
+ * - 拉普拉斯平滑，未出现过的词不会让概率变为 0
+ * - 只保留出现至少两次的词，控制模型体积
+ * - 模型为纯 JSON，可以保存到 Redis 或文件
+ * - 任一类别没有训练数据时返回 0.5（无法判断）
+ */
+
+export interface SpamSample {
+  text: string;
+  spam: boolean;
+}
+
+export interface SpamModel {
+  trainedAt: string;
+  docs: { spam: number; ham: number };
+  totals: { spam: number; ham: number };
+  tokens: {
+    spam: Record<string, number>;
+    ham: Record<string, number>;
+  };
+}
+
+const MIN_TOKEN_COUNT = 2;
+const MAX_VOCABULARY = 20000;
+
+const URL_PATTERN = /https?:\/\/([^\s/?#)\]]+)\S*/gi;
+const WORD_PATTERN = /[a-z0-9][a-z0-9'_-]+/g;
+const CJK_PATTERN = /[\u4e00-\u9fff]+/g;
+
+// 将文本拆分为去重后的词集合
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+  const lower = text.toLowerCase();
+
+  for (const match of Array.from(lower.matchAll(URL_PATTERN))) {
+    tokens.add(`url:${match[1].replace(/^www\./, '')}`);
+  }
+
+  const withoutUrls = lower.replace(URL_PATTERN, ' ');
+
+  for (const word of withoutUrls.match(WORD_PATTERN) ?? []) {
+    tokens.add(word);
+  }
+
+  // 中文没有空格分词，使用相邻两个字作为词
+  for (const run of withoutUrls.match(CJK_PATTERN) ?? []) {
+    if (run.length === 1) {
+      tokens.add(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.add(run.slice(i, i + 2));
+    }
+  }
+
+  return Array.from(tokens);
+}
+
+export function trainSpamModel(samples: SpamSample[]): SpamModel {
+  const counts = {
+    spam: new Map<string, number>(),
+    ham: new Map<string, number>(),
+  };
+  const docs = { spam: 0, ham: 0 };
+
+  for (const sample of samples) {
+    const label = sample.spam ? 'spam' : 'ham';
+    docs[label]++;
+    for (const token of tokenize(sample.text)) {
+      counts[label].set(token, (counts[label].get(token) ?? 0) + 1);
+    }
+  }
+
+  // 按总出现次数保留最常见的词
+  const vocabulary = Array.from(
+    new Set(
+      Array.from(counts.spam.keys()).concat(Array.from(counts.ham.keys()))
+    )
+  )
+    .map((token) => ({
+      token,
+      total: (counts.spam.get(token) ?? 0) + (counts.ham.get(token) ?? 0),
+    }))
+    .filter((item) => item.total >= MIN_TOKEN_COUNT)
+    .sort((a, b) => b.total - a.total)
+    .slice(0, MAX_VOCABULARY);
+
+  const model: SpamModel = {
+    trainedAt: new Date().toISOString(),
+    docs,
+    totals: { spam: 0, ham: 0 },
+    tokens: { spam: {}, ham: {} },
+  };
+
+  for (const { token } of vocabulary) {
+    for (const label of ['spam', 'ham'] as const) {
+      const count = counts[label].get(token);
+      if (count) {
+        model.tokens[label][token] = count;
+        model.totals[label] += count;
+      }
+    }
+  }
+
+  return model;
+}
+
+// 计算文本为垃圾内容的概率（0-1）
+export function spamProbability(model: SpamModel, text: string): number {
+  if (model.docs.spam === 0 || model.docs.ham === 0) {
+    return 0.5;
+  }
+
+  const vocabularySize = new Set([
+    ...Object.keys(model.tokens.spam),
+    ...Object.keys(model.tokens.ham),
+  ]).size;
+
+  const totalDocs = model.docs.spam + model.docs.ham;
+  let spamLog = Math.log(model.docs.spam / totalDocs);
+  let hamLog = Math.log(model.docs.ham / totalDocs);
+
+  for (const token of tokenize(text)) {
+    const spamCount = model.tokens.spam[token] ?? 0;
+    const hamCount = model.tokens.ham[token] ?? 0;
+    // 模型中没有的词对两类影响相同，跳过
+    if (spamCount === 0 && hamCount === 0) continue;
+
+    spamLog += Math.log((spamCount + 1) / (model.totals.spam + vocabularySize));
+    hamLog += Math.log((hamCount + 1) / (model.totals.ham + vocabularySize));
+  }
+
+  return 1 / (1 + Math.exp(hamLog - spamLog));
+}
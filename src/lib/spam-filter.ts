@@ -0,0 +1,265 @@
+/**
+ * 垃圾评论过滤 - 可插拔的评论打分流程
+ *
+ * 主要功能：
+ * 1. 依次运行各项检查并累加得分，超过阈值的评论进入待审核
+ * 2. 屏蔽词检查
+ * 3. 链接数量检查
+ * 4. 重复内容检查（同一用户重复发布、多个用户发布相同内容）
+ * 5. 用户和 IP 发布频率检查（Redis 计数）
+ * 6. 朴素贝叶斯分类器打分（模型由被拒绝和已通过的评论离线训练）
+ *
+ * 容错处理：
+ * - 单项检查失败只记录日志，不影响其他检查和评论发布
+ * - Redis 不可用时跳过频率检查，分类器视为未训练
+ *
+ * 配置项：
+ * - SPAM_FILTER_ENABLED：设为 false 时关闭过滤
+ * - SPAM_THRESHOLD：进入待审核的总分阈值，默认 1
+ * - SPAM_BLOCKED_WORDS：屏蔽词列表，逗号分隔
+ * - SPAM_MAX_LINKS：允许的最多链接数，默认 2
+ * - SPAM_USER_LIMIT / SPAM_IP_LIMIT：每分钟最多评论数，默认 5 / 10
+ *
+ * 扩展方式：
+ * - 实现 SpamCheck 接口并通过 registerSpamCheck 注册
+ */
+import { prisma } from '@/lib/db';
+import { redis } from '@/lib/redis';
+import {
+  SpamModel,
+  spamProbability,
+  trainSpamModel,
+} from '@/lib/spam-classifier';
+
+export interface SpamContext {
+  userId: bigint;
+  ip: string | null;
+  postId: bigint;
+  content: string;
+}
+
+export interface SpamCheckResult {
+  score: number;
+  reason?: string;
+}
+
+export interface SpamCheck {
+  name: string;
+  check(context: SpamContext): Promise<SpamCheckResult>;
+}
+
+export interface SpamVerdict {
+  score: number;
+  isSpam: boolean;
+  reasons: string[];
+}
+
+const MODEL_KEY = 'spam:classifier-model';
+const MODEL_CACHE_TTL = 5 * 60 * 1000;
+const TRAINING_SAMPLE_LIMIT = 5000;
+const VELOCITY_WINDOW_SECONDS = 60;
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const getBlockedWords = () =>
+  (process.env.SPAM_BLOCKED_WORDS || '')
+    .split(',')
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+
+// 屏蔽词：命中即进入待审核
+const blockedWordsCheck: SpamCheck = {
+  name: 'blocked-words',
+  async check({ content }) {
+    const lower = content.toLowerCase();
+    const hits = getBlockedWords().filter((word) => lower.includes(word));
+    return hits.length > 0
+      ? { score: 1, reason: `包含屏蔽词：${hits.join('、')}` }
+      : { score: 0 };
+  },
+};
+
+// 链接数量：超过上限后每多一个链接加分
+const linkCountCheck: SpamCheck = {
+  name: 'link-count',
+  async check({ content }) {
+    const maxLinks = numberEnv('SPAM_MAX_LINKS', 2);
+    const links = content.match(/https?:\/\/\S+/gi)?.length ?? 0;
+    if (links <= maxLinks) {
+      return { score: 0 };
+    }
+    return {
+      score: Math.min(1, 0.5 + (links - maxLinks - 1) * 0.25),
+      reason: `包含 ${links} 个链接`,
+    };
+  },
+};
+
+// 重复内容：同一用户一天内重复发布，或多个用户一小时内发布相同内容
+const duplicateContentCheck: SpamCheck = {
+  name: 'duplicate-content',
+  async check({ userId, content }) {
+    const now = Date.now();
+    const [ownCount, othersCount] = await Promise.all([
+      prisma.comment.count({
+        where: {
+          userId,
+          content,
+          createdAt: { gte: new Date(now - 24 * 60 * 60 * 1000) },
+        },
+      }),
+      prisma.comment.count({
+        where: {
+          userId: { not: userId },
+          content,
+          createdAt: { gte: new Date(now - 60 * 60 * 1000) },
+        },
+      }),
+    ]);
+
+    if (othersCount >= 2) {
+      return { score: 0.8, reason: '多个用户发布了相同内容' };
+    }
+    if (ownCount > 0) {
+      return { score: 0.6, reason: '重复发布相同内容' };
+    }
+    return { score: 0 };
+  },
+};
+
+// 在时间窗口内计数，返回本次是第几次
+async function incrementVelocity(key: string) {
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.expire(key, VELOCITY_WINDOW_SECONDS);
+  }
+  return count;
+}
+
+// 发布频率：用户或 IP 每分钟评论数超过上限
+const velocityCheck: SpamCheck = {
+  name: 'velocity',
+  async check({ userId, ip }) {
+    const userCount = await incrementVelocity(`spam:velocity:user:${userId}`);
+    if (userCount > numberEnv('SPAM_USER_LIMIT', 5)) {
+      return { score: 1, reason: '评论过于频繁' };
+    }
+
+    if (ip) {
+      const ipCount = await incrementVelocity(`spam:velocity:ip:${ip}`);
+      if (ipCount > numberEnv('SPAM_IP_LIMIT', 10)) {
+        return { score: 1, reason: '同一 IP 评论过于频繁' };
+      }
+    }
+
+    return { score: 0 };
+  },
+};
+
+const modelCache: { model: SpamModel | null; loadedAt: number } = {
+  model: null,
+  loadedAt: 0,
+};
+
+export async function loadSpamModel(): Promise<SpamModel | null> {
+  if (Date.now() - modelCache.loadedAt < MODEL_CACHE_TTL) {
+    return modelCache.model;
+  }
+
+  const raw = await redis.get(MODEL_KEY);
+  modelCache.model = raw ? (JSON.parse(raw) as SpamModel) : null;
+  modelCache.loadedAt = Date.now();
+  return modelCache.model;
+}
+
+// 分类器：垃圾概率超过 50% 的部分折算为得分
+const classifierCheck: SpamCheck = {
+  name: 'classifier',
+  async check({ content }) {
+    const model = await loadSpamModel();
+    if (!model) {
+      return { score: 0 };
+    }
+
+    const probability = spamProbability(model, content);
+    if (probability <= 0.5) {
+      return { score: 0 };
+    }
+    return {
+      score: (probability - 0.5) * 2,
+      reason: `分类器判定垃圾内容概率 ${Math.round(probability * 100)}%`,
+    };
+  },
+};
+
+const spamChecks: SpamCheck[] = [
+  blockedWordsCheck,
+  linkCountCheck,
+  duplicateContentCheck,
+  velocityCheck,
+  classifierCheck,
+];
+
+// 注册自定义检查（如接入第三方反垃圾服务）
+export function registerSpamCheck(check: SpamCheck) {
+  spamChecks.push(check);
+}
+
+export async function evaluateSpam(context: SpamContext): Promise<SpamVerdict> {
+  if (process.env.SPAM_FILTER_ENABLED === 'false') {
+    return { score: 0, isSpam: false, reasons: [] };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  for (const spamCheck of spamChecks) {
+    try {
+      const result = await spamCheck.check(context);
+      score += result.score;
+      if (result.score > 0 && result.reason) {
+        reasons.push(result.reason);
+      }
+    } catch (error) {
+      console.error(`垃圾评论检查失败（${spamCheck.name}）:`, error);
+    }
+  }
+
+  return {
+    score: Math.round(score * 100) / 100,
+    isSpam: score >= numberEnv('SPAM_THRESHOLD', 1),
+    reasons,
+  };
+}
+
+// 用被拒绝（垃圾）和已通过（正常）的评论训练分类器并保存到 Redis
+export async function trainSpamClassifier() {
+  const [rejected, approved] = await Promise.all([
+    prisma.comment.findMany({
+      where: { status: 'REJECTED' },
+      select: { content: true },
+      orderBy: { createdAt: 'desc' },
+      take: TRAINING_SAMPLE_LIMIT,
+    }),
+    prisma.comment.findMany({
+      where: { status: 'APPROVED', deletedAt: null },
+      select: { content: true },
+      orderBy: { createdAt: 'desc' },
+      take: TRAINING_SAMPLE_LIMIT,
+    }),
+  ]);
+
+  const model = trainSpamModel([
+    ...rejected.map((comment) => ({ text: comment.content, spam: true })),
+    ...approved.map((comment) => ({ text: comment.content, spam: false })),
+  ]);
+
+  await redis.set(MODEL_KEY, JSON.stringify(model));
+  modelCache.model = model;
+  modelCache.loadedAt = Date.now();
+
+  return model;
+}
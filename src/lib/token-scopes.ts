@@ -0,0 +1,55 @@
+/**
+ * 个人访问令牌权限范围 - 令牌可访问的接口范围和 Bearer 请求头解析
+ *
+ * 权限范围：
+ * - read：读取数据（文章、评论、通知、个人资料等）
+ * - posts:write：发布、修改和删除文章，恢复文章版本
+ * - comments:write：发表、编辑和删除评论
+ * - uploads:write：上传文件
+ * - social:write：点赞、收藏、关注、举报、标记通知已读
+ * - admin：管理操作（仅拥有后台管理权限的账号可以创建）
+ *
+ * 设计说明：
+ * - 各权限范围互不包含，写权限不隐含读权限
+ * - 修改密码、两步验证、会话和令牌管理等账号安全接口只接受登录会话
+ */
+
+export const TOKEN_SCOPES = [
+  'read',
+  'posts:write',
+  'comments:write',
+  'uploads:write',
+  'social:write',
+  'admin',
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export const tokenScopeLabels: Record<TokenScope, string> = {
+  read: '读取数据',
+  'posts:write': '发布和管理文章',
+  'comments:write': '发表和管理评论',
+  'uploads:write': '上传文件',
+  'social:write': '点赞、收藏、关注和举报',
+  admin: '管理操作',
+};
+
+export const TOKEN_PREFIX = 'pat_';
+
+// 去重并按固定顺序排列，忽略未知的权限范围
+export function normalizeScopes(scopes: readonly string[]): TokenScope[] {
+  return TOKEN_SCOPES.filter((scope) => scopes.includes(scope));
+}
+
+export function hasScope(scopes: readonly string[], required: TokenScope) {
+  return scopes.includes(required);
+}
+
+// 解析 Authorization: Bearer <token>，不是个人访问令牌格式时返回 null
+export function parseBearerToken(header: string | null | undefined) {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+  return match[1];
+}
@@ -0,0 +1,278 @@
+/**
+ * 两步验证 - TOTP 绑定、登录校验、恢复码和按角色强制启用
+ *
+ * 主要功能：
+ * 1. 生成 TOTP 密钥和身份验证器扫码二维码
+ * 2. 校验验证码后启用两步验证，同时生成一次性恢复码
+ * 3. 登录时校验 TOTP 验证码或恢复码
+ * 4. 重新生成恢复码、关闭两步验证
+ * 5. 管理员设置必须启用两步验证的角色（ADMIN、AUTHOR）
+ *
+ * 安全设计：
+ * - TOTP 密钥使用 AES-256-GCM 加密存储，密钥由 NEXTAUTH_SECRET 派生
+ * - 恢复码只保存 SHA-256 哈希，生成时仅展示一次，每个只能使用一次
+ * - 记录最近使用的时间步，同一验证码不能重复使用
+ *
+ * 配置项：
+ * - SITE_NAME：身份验证器中显示的签发方名称
+ */
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import QRCode from 'qrcode';
+import { prisma } from '@/lib/db';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '@/lib/totp';
+
+export const TWO_FACTOR_ROLES = ['ADMIN', 'AUTHOR'] as const;
+
+export type TwoFactorRole = (typeof TWO_FACTOR_ROLES)[number];
+
+export type TwoFactorMethod = 'TOTP' | 'RECOVERY_CODE';
+
+export type EnableTwoFactorResult =
+  | { success: true; recoveryCodes: string[] }
+  | { success: false; reason: 'NOT_PENDING' | 'INVALID_CODE' };
+
+const REQUIRED_ROLES_KEY = 'two_factor_required_roles';
+const RECOVERY_CODE_COUNT = 10;
+
+const siteName = () => process.env.SITE_NAME || '博客平台';
+
+const encryptionKey = () => {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('未配置 NEXTAUTH_SECRET，无法加密两步验证密钥');
+  }
+  return createHash('sha256').update(`two-factor:${secret}`).digest();
+};
+
+// 加密格式：base64url(iv).base64url(authTag).base64url(密文)
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(secret, 'utf8'),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+function decryptSecret(value: string) {
+  const [iv, authTag, encrypted] = value
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8'
+  );
+}
+
+// 恢复码不区分大小写，忽略空格和连字符
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+// 恢复码格式：xxxxx-xxxxx（10 位十六进制）
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+// 作废旧恢复码并写入新的恢复码哈希
+const replaceRecoveryCodes = (userId: bigint, codes: string[]) => [
+  prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  prisma.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  }),
+];
+
+// 必须启用两步验证的角色
+export async function getTwoFactorRequiredRoles(): Promise<TwoFactorRole[]> {
+  const setting = await prisma.siteSetting.findUnique({
+    where: { key: REQUIRED_ROLES_KEY },
+  });
+
+  if (!setting) {
+    return [];
+  }
+
+  try {
+    const roles: unknown = JSON.parse(setting.value);
+    return TWO_FACTOR_ROLES.filter(
+      (role) => Array.isArray(roles) && roles.includes(role)
+    );
+  } catch {
+    return [];
+  }
+}
+
+export async function setTwoFactorRequiredRoles(roles: TwoFactorRole[]) {
+  const value = JSON.stringify(
+    TWO_FACTOR_ROLES.filter((role) => roles.includes(role))
+  );
+
+  await prisma.siteSetting.upsert({
+    where: { key: REQUIRED_ROLES_KEY },
+    create: { key: REQUIRED_ROLES_KEY, value },
+    update: { value },
+  });
+}
+
+export async function isTwoFactorRequiredFor(role: string) {
+  const roles: string[] = await getTwoFactorRequiredRoles();
+  return roles.includes(role);
+}
+
+// 角色要求两步验证但账号尚未启用，中间件据此引导用户先完成绑定
+export async function isTwoFactorSetupRequired(userId: bigint) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user || user.twoFactorEnabledAt) {
+    return false;
+  }
+
+  return isTwoFactorRequiredFor(user.role);
+}
+
+export async function getTwoFactorStatus(userId: bigint) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const recoveryCodesRemaining = user.twoFactorEnabledAt
+    ? await prisma.twoFactorRecoveryCode.count({
+        where: { userId, usedAt: null },
+      })
+    : 0;
+
+  return {
+    enabled: Boolean(user.twoFactorEnabledAt),
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining,
+    required: await isTwoFactorRequiredFor(user.role),
+  };
+}
+
+// 开始绑定：生成新密钥（尚未启用），返回手动输入的密钥和扫码二维码
+export async function beginTwoFactorSetup(user: { id: bigint; email: string }) {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+    },
+  });
+
+  const otpauthUrl = buildOtpauthUrl({
+    issuer: siteName(),
+    account: user.email,
+    secret,
+  });
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+// 确认绑定：验证码正确后启用两步验证并生成恢复码
+export async function enableTwoFactor(
+  userId: bigint,
+  code: string
+): Promise<EnableTwoFactorResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user?.twoFactorSecret || user.twoFactorEnabledAt) {
+    return { success: false, reason: 'NOT_PENDING' };
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    return { success: false, reason: 'INVALID_CODE' };
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+    }),
+    ...replaceRecoveryCodes(userId, recoveryCodes),
+  ]);
+
+  return { success: true, recoveryCodes };
+}
+
+// 校验 TOTP 验证码或恢复码，返回使用的方式；验证码和恢复码都只能使用一次
+export async function verifyTwoFactorCode(
+  user: { id: bigint; twoFactorSecret: string | null },
+  code: string
+): Promise<TwoFactorMethod | null> {
+  if (!user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step !== null) {
+    // 条件更新保证并发请求时同一时间步的验证码只能使用一次
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return count > 0 ? 'TOTP' : null;
+  }
+
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0 ? 'RECOVERY_CODE' : null;
+}
+
+// 重新生成恢复码，旧恢复码全部作废
+export async function regenerateRecoveryCodes(userId: bigint) {
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.$transaction(replaceRecoveryCodes(userId, recoveryCodes));
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: bigint) {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
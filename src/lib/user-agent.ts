@@ -0,0 +1,54 @@
+/**
+ * 客户端信息解析 - 从 User-Agent 中识别浏览器、操作系统和设备类型
+ *
+ * 主要功能：
+ * 1. 识别常见浏览器（Edge、Opera、Chrome、Firefox、Safari、微信内置浏览器）
+ * 2. 识别常见操作系统（Windows、macOS、iOS、iPadOS、Android、Linux）
+ * 3. 区分桌面端和移动端
+ *
+ * 设计说明：
+ * - 仅用于在登录设备列表中展示，不用于安全判断
+ * - 按特征串的优先级匹配（Edge、Opera 的 UA 中同时包含 Chrome）
+ */
+
+export interface UserAgentInfo {
+  browser: string;
+  os: string;
+  mobile: boolean;
+}
+
+const browserPatterns: Array<[RegExp, string]> = [
+  [/MicroMessenger/i, '微信'],
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const osPatterns: Array<[RegExp, string]> = [
+  [/iPad/, 'iPadOS'],
+  [/iPhone|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? '未知';
+
+export function describeUserAgent(
+  userAgent: string | null | undefined
+): UserAgentInfo {
+  if (!userAgent) {
+    return { browser: '未知', os: '未知', mobile: false };
+  }
+
+  return {
+    browser: match(userAgent, browserPatterns),
+    os: match(userAgent, osPatterns),
+    mobile: /Mobile|iPhone|iPod|Android.*Mobile/.test(userAgent),
+  };
+}
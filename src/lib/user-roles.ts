@@ -0,0 +1,58 @@
+/**
+ * 用户角色 - 修改用户角色并记录变更
+ *
+ * 主要功能：
+ * 1. 角色显示名称
+ * 2. 在事务中修改角色并写入角色变更记录（操作人、原角色、新角色、原因）
+ *
+ * 设计说明：
+ * - 只导入类型，客户端组件可以直接使用角色显示名称
+ * - 角色保存在登录令牌中，每次读取会话时从数据库刷新，修改后无需重新登录
+ */
+import type { Prisma, Role } from '@prisma/client';
+
+export const roleLabels: Record<Role, string> = {
+  USER: '普通用户',
+  AUTHOR: '作者',
+  ADMIN: '管理员',
+};
+
+interface RoleChangeInput {
+  userId: bigint;
+  role: Role;
+  // 操作的管理员，命令行脚本修改时为 null
+  operatorId: bigint | null;
+  reason?: string | null;
+  applicationId?: bigint | null;
+}
+
+// 修改角色并写入变更记录，角色没有变化时不修改并返回 null
+export async function changeUserRole(
+  tx: Prisma.TransactionClient,
+  { userId, role, operatorId, reason, applicationId }: RoleChangeInput
+) {
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (user.role === role) {
+    return null;
+  }
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { role },
+  });
+
+  return tx.roleChangeLog.create({
+    data: {
+      userId,
+      operatorId,
+      fromRole: user.role,
+      toRole: role,
+      reason: reason || null,
+      applicationId: applicationId ?? null,
+    },
+  });
+}
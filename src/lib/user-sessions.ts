@@ -0,0 +1,126 @@
+/**
+ * 登录会话登记 - 为 JWT 会话提供服务端记录和远程退出
+ *
+ * 主要功能：
+ * 1. 登录时登记会话（IP、客户端信息），会话 ID 写入 JWT
+ * 2. 每次读取会话时校验登记记录，已撤销的会话立即失效，同时返回账号当前角色和自定义角色权限
+ * 3. 记录最近活动时间（按间隔写入，避免每次请求都更新数据库）
+ * 4. 列出账号的登录设备，撤销单个会话或除当前会话外的全部会话
+ *
+ * 设计说明：
+ * - 会话有效期与 Auth.js 默认的 JWT 有效期一致（30 天）
+ * - 退出登录时同时撤销对应的会话记录
+ * - 修改密码和封禁时在同一事务中撤销会话，之前登录的设备下次请求即失效
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { normalizePermissions } from '@/lib/permissions';
+
+// Auth.js JWT 默认有效期
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// 最近活动时间的更新间隔
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+type SessionClient = Prisma.TransactionClient | typeof prisma;
+
+const activeSince = () => new Date(Date.now() - SESSION_MAX_AGE_MS);
+
+export async function createUserSession(
+  userId: bigint,
+  {
+    ipAddress,
+    userAgent,
+  }: { ipAddress?: string | null; userAgent?: string | null }
+) {
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      ipAddress: ipAddress?.slice(0, 45) ?? null,
+      userAgent: userAgent ?? null,
+    },
+    select: { id: true },
+  });
+
+  return session.id;
+}
+
+// 校验会话是否仍然有效，有效时按间隔刷新最近活动时间并返回账号当前角色和自定义角色权限，无效时返回 null
+export async function touchUserSession(sessionId: bigint, userId: bigint) {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      lastActiveAt: true,
+      revokedAt: true,
+      user: {
+        select: { role: true, customRole: { select: { permissions: true } } },
+      },
+    },
+  });
+
+  if (!session || session.userId !== userId || session.revokedAt) {
+    return null;
+  }
+
+  if (
+    Date.now() - session.lastActiveAt.getTime() >
+    ACTIVITY_UPDATE_INTERVAL_MS
+  ) {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lastActiveAt: new Date() },
+    });
+  }
+
+  return {
+    role: session.user.role,
+    permissions: normalizePermissions(session.user.customRole?.permissions),
+  };
+}
+
+export async function listUserSessions(userId: bigint) {
+  return prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      lastActiveAt: { gte: activeSince() },
+    },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      lastActiveAt: true,
+      createdAt: true,
+    },
+    orderBy: { lastActiveAt: 'desc' },
+  });
+}
+
+// 撤销单个会话，返回是否撤销成功（会话不存在或已撤销时返回 false）
+export async function revokeUserSession(userId: bigint, sessionId: bigint) {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count > 0;
+}
+
+// 撤销除当前会话外的全部会话（不传当前会话时全部撤销），返回撤销数量
+export async function revokeOtherUserSessions(
+  userId: bigint,
+  currentSessionId?: bigint,
+  client: SessionClient = prisma
+) {
+  const { count } = await client.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(currentSessionId ? { id: { not: currentSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+}
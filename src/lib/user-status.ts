@@ -0,0 +1,145 @@
+/**
+ * 账号状态 - 封禁、停用状态判断和封禁管理
+ *
+ * 主要功能：
+ * 1. 判断账号是否被封禁或停用，并给出提示信息
+ * 2. 按用户 ID 实时查询账号状态（登录、中间件和写操作共用）
+ * 3. 封禁和解除封禁用户
+ *
+ * 状态规则：
+ * - BANNED 且没有到期时间：永久封禁
+ * - BANNED 且有到期时间：暂停使用，到期后自动恢复为 ACTIVE
+ * - INACTIVE：账号已停用
+ *
+ * 设计说明：
+ * - 每次请求都查询数据库（按主键查询），封禁立即生效
+ * - 封禁时同时撤销该用户的全部登录会话，解除封禁后需要重新登录
+ */
+import { UserStatus } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { revokeOtherUserSessions } from '@/lib/user-sessions';
+
+export type AccountBlockCode =
+  | 'ACCOUNT_BANNED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_INACTIVE';
+
+export interface AccountBlock {
+  code: AccountBlockCode;
+  message: string;
+  until: Date | null;
+  reason: string | null;
+}
+
+interface AccountState {
+  status: UserStatus;
+  bannedUntil: Date | null;
+  banReason: string | null;
+}
+
+// 根据账号状态判断是否被限制，正常账号返回 null
+export function accountBlockOf(
+  user: AccountState,
+  now = new Date()
+): AccountBlock | null {
+  if (user.status === 'INACTIVE') {
+    return {
+      code: 'ACCOUNT_INACTIVE',
+      message: '账号已停用',
+      until: null,
+      reason: null,
+    };
+  }
+
+  if (user.status !== 'BANNED') {
+    return null;
+  }
+
+  if (!user.bannedUntil) {
+    return {
+      code: 'ACCOUNT_BANNED',
+      message: '账号已被封禁',
+      until: null,
+      reason: user.banReason,
+    };
+  }
+
+  if (user.bannedUntil <= now) {
+    return null;
+  }
+
+  return {
+    code: 'ACCOUNT_SUSPENDED',
+    message: `账号已被暂停使用，${user.bannedUntil.toLocaleString('zh-CN')} 后恢复`,
+    until: user.bannedUntil,
+    reason: user.banReason,
+  };
+}
+
+// 查询账号当前是否被限制；暂停到期的账号自动恢复正常
+export async function getAccountBlock(
+  userId: bigint
+): Promise<AccountBlock | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { status: true, bannedUntil: true, banReason: true },
+  });
+
+  if (!user) {
+    return {
+      code: 'ACCOUNT_INACTIVE',
+      message: '账号不存在或已停用',
+      until: null,
+      reason: null,
+    };
+  }
+
+  const block = accountBlockOf(user);
+
+  if (!block && user.status === 'BANNED') {
+    await liftExpiredBan(userId);
+  }
+
+  return block;
+}
+
+// 恢复已到期的暂停，条件更新避免覆盖新的封禁
+async function liftExpiredBan(userId: bigint) {
+  try {
+    await prisma.user.updateMany({
+      where: { id: userId, status: 'BANNED', bannedUntil: { lte: new Date() } },
+      data: { status: 'ACTIVE', bannedUntil: null, banReason: null },
+    });
+  } catch (error) {
+    console.error('恢复到期封禁失败:', error);
+  }
+}
+
+// 封禁用户并撤销其全部会话，until 为空时永久封禁
+export async function banUser(
+  userId: bigint,
+  { until, reason }: { until?: Date | null; reason?: string | null }
+) {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.update({
+      where: { id: userId },
+      data: {
+        status: 'BANNED',
+        bannedUntil: until ?? null,
+        banReason: reason ?? null,
+      },
+      select: { id: true, status: true, bannedUntil: true, banReason: true },
+    });
+    await revokeOtherUserSessions(userId, undefined, tx);
+    return user;
+  });
+}
+
+// 解除封禁
+export async function unbanUser(userId: bigint) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { status: 'ACTIVE', bannedUntil: null, banReason: null },
+    select: { id: true, status: true, bannedUntil: true, banReason: true },
+  });
+}
@@ -4,13 +4,19 @@
  * 主要功能：
  * 1. 检查用户身份认证状态
  * 2. 保护需要登录的路由
- * 3. 实现基于角色的访问控制（RBAC）
+ * 3. 按权限策略控制页面访问（can，见 src/lib/permissions.ts）
  * 4. 处理未认证用户的重定向
+ * 5. 每次请求校验已登录账号是否被封禁、停用，会话是否已因修改密码或远程退出失效
+ * 6. 角色要求两步验证但尚未启用的账号，引导到个人资料页完成绑定
+ * 7. 携带个人访问令牌的接口请求交给路由自行校验令牌和权限范围
+ * 8. 角色和自定义角色权限以数据库为准，管理员修改后无需重新登录即可生效
  *
  * 路由保护策略：
  * - 公开路由：首页、文章列表、搜索、登录、注册
- * - 作者路由：写作控制台、文章编辑（需要 AUTHOR 或 ADMIN 角色）
- * - 管理员路由：后台管理（需要 ADMIN 角色）
+ * - 作者路由：写作控制台、文章编辑（需要 dashboard.access 权限，默认 AUTHOR 和 ADMIN）
+ * - 管理员路由：后台管理（需要 admin.access 权限，默认 ADMIN）
+ * - 封禁账号：接口返回 403，页面清除会话后重定向到登录页
+ * - 未启用两步验证（角色要求时）：接口返回 403，页面重定向到个人资料页
  *
  * 使用技术：
  * - Auth.js v5 认证
@@ -20,18 +26,142 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { auth } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { parseBearerToken } from '@/lib/token-scopes';
+
+interface AccountStatus {
+  authenticated: boolean;
+  block: { code: string; message: string } | null;
+  twoFactorSetupRequired: boolean;
+  // 数据库中的当前角色和自定义角色权限，查询失败时为 null，使用令牌中的值
+  role: string | null;
+  permissions: string[] | null;
+}
+
+// 角色要求两步验证但尚未启用时仍可访问的路径（完成绑定所需）
+const twoFactorSetupPaths = [
+  '/profile',
+  '/api/two-factor',
+  '/api/users/profile',
+  '/api/users/password',
+  '/api/users/notification-preferences',
+  '/api/users/sessions',
+];
+
+const allowedStatus: AccountStatus = {
+  authenticated: true,
+  block: null,
+  twoFactorSetupRequired: false,
+  role: null,
+  permissions: null,
+};
+
+// 查询当前会话的账号状态；查询失败时放行，写操作接口会再次校验
+async function fetchAccountStatus(req: NextRequest): Promise<AccountStatus> {
+  try {
+    const response = await fetch(new URL('/api/auth/status', req.url), {
+      headers: { cookie: req.headers.get('cookie') || '' },
+    });
+    if (!response.ok) return allowedStatus;
+    const result = await response.json();
+    return {
+      authenticated: result.data?.authenticated !== false,
+      block: result.data?.block ?? null,
+      twoFactorSetupRequired: Boolean(result.data?.twoFactorSetupRequired),
+      role: result.data?.role ?? null,
+      permissions: result.data?.permissions ?? null,
+    };
+  } catch (error) {
+    console.error('Account status check error:', error);
+    return allowedStatus;
+  }
+}
 
 export async function middleware(req: NextRequest) {
-  const session = await auth();
   const { pathname } = req.nextUrl;
 
+  // 令牌请求不依赖 Cookie 会话，由接口通过 getApiSession 校验
+  if (
+    pathname.startsWith('/api') &&
+    parseBearerToken(req.headers.get('authorization'))
+  ) {
+    return NextResponse.next();
+  }
+
+  const session = await auth();
+
+  // 令牌中的角色和权限在管理员修改后可能过期，以账号状态接口返回的为准
+  const user = {
+    id: session?.user?.id,
+    role: session?.user?.role,
+    permissions: session?.user?.permissions,
+  };
+
+  // 已登录账号每次请求都重新校验状态，封禁立即生效
+  if (session?.user && !pathname.startsWith('/auth')) {
+    const status = await fetchAccountStatus(req);
+    const { authenticated, block, twoFactorSetupRequired } = status;
+    user.role = status.role ?? user.role;
+    user.permissions = status.permissions ?? user.permissions;
+    // Edge 环境只能解码令牌，会话是否已被远程退出以服务端校验结果为准
+    const rejection = authenticated
+      ? block
+      : {
+          code: 'SESSION_SIGNED_OUT',
+          message: '该设备的登录已被退出，请重新登录',
+        };
+    if (rejection) {
+      if (pathname.startsWith('/api')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: { code: rejection.code, message: rejection.message },
+          },
+          { status: 403 }
+        );
+      }
+
+      // 清除会话 Cookie 并回到登录页显示原因
+      const response = NextResponse.redirect(
+        new URL(`/auth/login?error=${rejection.code}`, req.url)
+      );
+      response.cookies.delete('authjs.session-token');
+      response.cookies.delete('__Secure-authjs.session-token');
+      return response;
+    }
+
+    if (
+      twoFactorSetupRequired &&
+      !twoFactorSetupPaths.some((path) => pathname.startsWith(path))
+    ) {
+      if (pathname.startsWith('/api')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'TWO_FACTOR_SETUP_REQUIRED',
+              message: '请先在个人资料页启用两步验证',
+            },
+          },
+          { status: 403 }
+        );
+      }
+
+      return NextResponse.redirect(new URL('/profile', req.url));
+    }
+  }
+
   // 公开路由，不需要认证
   const publicRoutes = [
     '/',
     '/posts',
+    '/users',
     '/search',
     '/auth/login',
     '/auth/register',
+    '/auth/verify-email',
+    '/auth/forgot-password',
+    '/auth/reset-password',
     '/api/auth',
   ];
 
@@ -52,7 +182,7 @@ export async function middleware(req: NextRequest) {
 
     // 管理员路由保护
     if (pathname.startsWith('/admin')) {
-      if (session.user.role !== 'ADMIN') {
+      if (!can(user, 'admin.access')) {
         return NextResponse.redirect(
           new URL('/auth/login?error=admin_required', req.url)
         );
@@ -61,7 +191,7 @@ export async function middleware(req: NextRequest) {
 
     // 作者路由保护
     if (pathname.startsWith('/dashboard') || pathname.startsWith('/write')) {
-      if (session.user.role !== 'AUTHOR' && session.user.role !== 'ADMIN') {
+      if (!can(user, 'dashboard.access')) {
         return NextResponse.redirect(
           new URL('/auth/login?error=author_required', req.url)
         );
@@ -133,7 +133,8 @@ export interface PostFormData {
   categoryId?: number;
   tags?: string[];
   featuredImage?: string;
-  status: 'DRAFT' | 'PUBLISHED';
+  status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED';
+  publishAt?: string;
 }
 
 // UserProfileData 已移动到文件顶部作为 UserProfile
@@ -147,6 +148,7 @@ export enum UserRole {
 
 export enum PostStatus {
   DRAFT = 'DRAFT',
+  SCHEDULED = 'SCHEDULED',
   PUBLISHED = 'PUBLISHED',
   ARCHIVED = 'ARCHIVED',
   DELETED = 'DELETED',
@@ -162,11 +164,19 @@ export enum CommentStatus {
 // 通知类型
 export interface Notification {
   id: string;
-  type: 'COMMENT' | 'LIKE' | 'FOLLOW' | 'SYSTEM';
+  type:
+    | 'COMMENT'
+    | 'REPLY'
+    | 'LIKE'
+    | 'FAVORITE'
+    | 'FOLLOW'
+    | 'MENTION'
+    | 'SYSTEM';
   title: string;
   content: string;
   isRead: boolean;
   createdAt: Date;
+  lastActivityAt: Date;
   data?: Record<string, unknown>;
 }
 